@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Tesseract spawns its OCR worker from files inside the package, so it has
+  // to be loaded from node_modules rather than bundled.
+  serverExternalPackages: ["tesseract.js"],
 };
 
 export default nextConfig;
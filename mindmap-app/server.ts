@@ -0,0 +1,45 @@
+import { createServer } from 'node:http';
+import next from 'next';
+import { createCollabServer } from './src/lib/collab/server';
+
+/**
+ * Serves the app together with the collaboration WebSocket endpoint, which
+ * Next's route handlers can't provide. Run it in place of `next dev` /
+ * `next start`: `npx tsx server.ts` (with `NODE_ENV=production` after
+ * `next build`).
+ */
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = process.env.HOSTNAME ?? 'localhost';
+const port = Number(process.env.PORT ?? 3000);
+
+const app = next({ dev, hostname, port });
+const handle = app.getRequestHandler();
+
+app
+  .prepare()
+  .then(() => {
+    const collab = createCollabServer();
+    const upgradeNext = app.getUpgradeHandler();
+    const server = createServer((request, response) => {
+      void handle(request, response);
+    });
+
+    server.on('upgrade', (request, socket, head) => {
+      if (!collab.handleUpgrade(request, socket, head)) void upgradeNext(request, socket, head);
+    });
+
+    const shutdown = () => {
+      collab.close();
+      server.close(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    server.listen(port, () => {
+      console.log(`> Ready on http://${hostname}:${port} (collaboration at ws://${hostname}:${port}/api/collab/<map id>)`);
+    });
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import type { BatchAutoCorrectEvent, BatchAutoCorrectRequest } from '@/lib/types';
+import { getLlmProvider } from '@/lib/llm';
+import { proposeCorrection } from '@/lib/autocorrect';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { NDJSON_CONTENT_TYPE, createEventStream } from '@/lib/stream';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const MAX_BATCH_SIZE = 100;
+
+function getConcurrencyLimit(): number {
+  const configured = Number(process.env.AUTOCORRECT_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : 3;
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json()) as BatchAutoCorrectRequest;
+    const items = Array.isArray(payload?.items) ? payload.items.filter((item) => item?.node?.id) : [];
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'At least one node is required.' }, { status: 400 });
+    }
+    if (items.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_SIZE} nodes.` },
+        { status: 413 },
+      );
+    }
+
+    const llm = getLlmProvider();
+
+    const stream = createEventStream<BatchAutoCorrectEvent>(request, async (send, signal) => {
+      let succeeded = 0;
+      let failed = 0;
+
+      try {
+        await mapWithConcurrency(
+          items,
+          getConcurrencyLimit(),
+          async ({ node }) => {
+            try {
+              const proposal = await proposeCorrection(node, llm);
+              succeeded += 1;
+              send({ type: 'result', nodeId: node.id, proposal });
+            } catch (error) {
+              console.error(error);
+              failed += 1;
+              send({
+                type: 'failure',
+                nodeId: node.id,
+                error: error instanceof Error ? error.message : 'Failed to auto-correct node.',
+              });
+            }
+          },
+          signal,
+        );
+        send({ type: 'complete', succeeded, failed });
+      } catch (error) {
+        // Only an abort gets here: the client left, so the remaining nodes are skipped.
+        if (!signal.aborted) throw error;
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': NDJSON_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to auto-correct nodes.',
+      },
+      { status: 500 },
+    );
+  }
+}
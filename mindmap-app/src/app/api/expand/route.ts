@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import type { ExpandNodeRequest } from '@/lib/types';
+import { AiOutputValidationError, getLlmProvider } from '@/lib/llm';
+import { proposeExpansion } from '@/lib/expansion';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json()) as ExpandNodeRequest;
+    const node = payload?.node;
+
+    if (!node || typeof node.id !== 'string' || typeof node.title !== 'string' || !node.title.trim()) {
+      return NextResponse.json({ error: 'Node payload missing.' }, { status: 400 });
+    }
+
+    const expansion = await proposeExpansion(
+      {
+        node: {
+          id: node.id,
+          title: node.title,
+          summary: typeof node.summary === 'string' ? node.summary : '',
+          importance: Number.isInteger(node.importance) ? Math.min(5, Math.max(1, node.importance)) : 3,
+          tags: stringArray(node.tags),
+        },
+        ancestors: Array.isArray(payload.ancestors)
+          ? payload.ancestors.filter(
+              (ancestor) => typeof ancestor?.title === 'string' && typeof ancestor.summary === 'string',
+            )
+          : [],
+        existingChildren: stringArray(payload.existingChildren),
+        passages: stringArray(payload.passages),
+      },
+      getLlmProvider(),
+    );
+
+    return NextResponse.json(expansion);
+  } catch (error) {
+    console.error(error);
+    if (error instanceof AiOutputValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to expand node.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,193 +1,31 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { XMLParser } from 'fast-xml-parser';
-import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
-import type { TextItem } from 'pdfjs-dist/types/src/display/api';
-import type { MindMapPayload, MindMapNode, MindMapEdge, Citation } from '@/lib/types';
+import type {
+  MindMapPayload,
+  MindMapNode,
+  MindMapEdge,
+  GenerationEvent,
+  AiMindMapGraph,
+} from '@/lib/types';
+import { NDJSON_CONTENT_TYPE, createEventStream } from '@/lib/stream';
+import { chunkPages, type TextChunk } from '@/lib/chunking';
+import { mergeSubMaps } from '@/lib/merge';
+import { normalizeEdges } from '@/lib/graph';
+import { verifyNodes } from '@/lib/verification';
+import { getExtractor, type ExtractedSource } from '@/lib/extractors';
+import { createSourceIndex, type SourceIndex } from '@/lib/grounding';
+import { SUPPORTED_SOURCES_LABEL, resolveSourceMimeType, sourceTitle } from '@/lib/sources';
+import {
+  AiOutputValidationError,
+  completeStructured,
+  getLlmProvider,
+  validateMindMapGraph,
+  type LlmProvider,
+} from '@/lib/llm';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120;
 
-type AiMindMapNode = {
-  id: string;
-  title: string;
-  summary: string;
-  parentIds?: string[];
-  importance?: number;
-  tags?: string[];
-};
-
-type AiMindMapEdge = {
-  source: string;
-  target: string;
-  label?: string;
-};
-
-type MedlineContent = {
-  ['@_name']?: string;
-  ['#text']?: string;
-  link?: { ['@_url']?: string } | Array<{ ['@_url']?: string }>;
-};
-
-type MedlineDocument = {
-  name?: string;
-  content?: MedlineContent | MedlineContent[];
-};
-
-type MedlineResponse = {
-  nlmSearchResult?: {
-    list?: {
-      document?: MedlineDocument | MedlineDocument[];
-    };
-  };
-};
-
-type AiResponseLike = {
-  output_text?: string | null;
-  output?: Array<{
-    content?: Array<{
-      text?: string;
-    }>;
-  }>;
-};
-
-function safeParseJson<T>(input: string): T {
-  try {
-    return JSON.parse(input) as T;
-  } catch {
-    const start = input.indexOf('{');
-    const end = input.lastIndexOf('}');
-    if (start !== -1 && end !== -1 && end > start) {
-      return JSON.parse(input.slice(start, end + 1)) as T;
-    }
-    throw new Error('Failed to parse JSON from AI response');
-  }
-}
-
-async function fetchMedlineCitations(query: string): Promise<Citation[]> {
-  const url = `https://wsearch.nlm.nih.gov/ws/query?db=healthTopics&term=${encodeURIComponent(query)}`;
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'agentic-3431c676/1.0 (mindmap medical verifier)',
-      Accept: 'application/xml',
-    },
-    next: { revalidate: 60 * 60 },
-  });
-
-  if (!response.ok) {
-    return [];
-  }
-
-  const xml = await response.text();
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-  });
-  const parsed = parser.parse(xml) as MedlineResponse;
-  const documents = parsed.nlmSearchResult?.list?.document;
-
-  if (!documents) {
-    return [];
-  }
-
-  const docs = Array.isArray(documents) ? documents : [documents];
-
-  return docs.slice(0, 3).map((doc) => {
-    const contentRaw = doc.content;
-    const contentArray: MedlineContent[] = Array.isArray(contentRaw) ? contentRaw : contentRaw ? [contentRaw] : [];
-    const urlEdge = contentArray.find((c) => c?.['@_name'] === 'FullSummary');
-    const snippetEdge = contentArray.find((c) => c?.['@_name'] === 'Snippet');
-    const linkRaw = urlEdge?.link;
-    let linkUrl = '';
-
-    if (Array.isArray(linkRaw)) {
-      linkUrl = linkRaw[0]?.['@_url'] ?? '';
-    } else if (typeof linkRaw === 'object') {
-      linkUrl = linkRaw?.['@_url'] ?? '';
-    }
-
-    return {
-      title: doc?.name ?? query,
-      url: linkUrl || `https://medlineplus.gov/${encodeURIComponent(query.toLowerCase())}.html`,
-      snippet: snippetEdge?.['#text'] ?? undefined,
-      source: 'MedlinePlus',
-    };
-  });
-}
-
-async function fetchWikipediaFallback(query: string): Promise<Citation[]> {
-  const url = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(query)}`;
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'agentic-3431c676/1.0 (mindmap medical verifier)',
-      Accept: 'application/json',
-    },
-    next: { revalidate: 60 * 60 },
-  });
-
-  if (!response.ok) {
-    return [];
-  }
-
-  const data = await response.json();
-
-  if (!data?.content_urls?.desktop?.page) {
-    return [];
-  }
-
-  return [
-    {
-      title: data.title ?? query,
-      url: data.content_urls.desktop.page,
-      snippet: data.extract ?? undefined,
-      source: 'Wikipedia',
-    },
-  ];
-}
-
-async function verifyNode(query: string): Promise<Citation[]> {
-  const medline = await fetchMedlineCitations(query);
-  if (medline.length > 0) {
-    return medline;
-  }
-  return fetchWikipediaFallback(query);
-}
-
-async function extractTextFromPdf(buffer: Buffer): Promise<string> {
-  const uintArray = new Uint8Array(buffer);
-  const pdf = await pdfjsLib.getDocument({ data: uintArray }).promise;
-  let text = '';
-
-  try {
-    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
-      const page = await pdf.getPage(pageNumber);
-      const content = await page.getTextContent();
-      const pageText = content.items
-        .map((item) => {
-          if (typeof item === 'string') return item;
-          const textItem = item as TextItem;
-          return textItem.str ?? '';
-        })
-        .join(' ');
-      text += `${pageText}\n`;
-    }
-  } finally {
-    await pdf.destroy();
-  }
-
-  return text.trim();
-}
-
-async function buildMindMapFromText(text: string, openai: OpenAI): Promise<{
-  nodes: MindMapNode[];
-  edges: MindMapEdge[];
-  sourceSummary: string;
-}> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('Missing OPENAI_API_KEY');
-  }
-
+async function generateSubMap(chunk: TextChunk, chunkCount: number, llm: LlmProvider): Promise<AiMindMapGraph> {
   const systemPrompt = `You transform sets of medical study notes into structured mind map graphs.
 Return STRICT JSON that matches this TypeScript type:
 {
@@ -198,7 +36,8 @@ Return STRICT JSON that matches this TypeScript type:
     "summary": string,
     "parentIds": string[],
     "importance": 1 | 2 | 3 | 4 | 5,
-    "tags": string[]
+    "tags": string[],
+    "quotes": string[]
   }>,
   "edges": Array<{
     "source": string,
@@ -211,11 +50,17 @@ Rules:
 - Parent-child relationships should reflect conceptual hierarchy or causality.
 - Include at least one root node (with empty parentIds).
 - Ensure IDs are unique slugs.
-- Use parentIds to describe connections; you may also add optional edge labels for clarity.`;
+- Use parentIds to describe the hierarchy; use edges for cross-links between branches or to label a parent-child link.
+- For each node, copy into "quotes" one to three short passages (a sentence or less each) VERBATIM from the source notes that support its summary. Do not paraphrase quotes. Leave "quotes" empty only if nothing in the notes supports the node.`;
+
+  const scopeNote =
+    chunkCount > 1
+      ? `These notes are part ${chunk.index + 1} of ${chunkCount} (pages ${chunk.startPage}-${chunk.endPage}) of a longer document. Map only the concepts in this part; other parts are mapped separately and merged by concept title, so use the plain, canonical name for each concept.\n\n`
+      : '';
 
-  const userPrompt = `SOURCE NOTES:
+  const userPrompt = `${scopeNote}SOURCE NOTES:
 """
-${text}
+${chunk.text}
 """
 
 1. Produce a clinically accurate mind map covering the major concepts, pathophysiology, diagnostics, and management strategies present in these notes.
@@ -225,44 +70,39 @@ ${text}
 
   const prompt = `${systemPrompt}\n\n${userPrompt}`;
 
-  const response = await openai.responses.create({
-    model: 'gpt-4o-mini',
-    reasoning: { effort: 'medium' },
-    temperature: 0.2,
-    input: prompt,
-    metadata: {
-      application: 'agentic-3431c676',
-      feature: 'mind-map-generation',
+  return completeStructured(
+    llm,
+    {
+      feature: 'generation',
+      input: prompt,
+      metadata: { chunk: `${chunk.index + 1}/${chunkCount}` },
     },
-  });
-
-  const collectResponseText = (payload: AiResponseLike): string => {
-    if (payload.output_text) {
-      return payload.output_text;
-    }
-    if (payload.output && payload.output.length > 0) {
-      const segments = payload.output.flatMap((item) =>
-        (item.content ?? [])
-          .map((content) => content?.text)
-          .filter((segment): segment is string => typeof segment === 'string'),
-      );
-      if (segments.length > 0) {
-        return segments.join('\n');
-      }
-    }
-    return '';
-  };
+    validateMindMapGraph,
+  );
+}
 
-  const outputText = collectResponseText(response as AiResponseLike);
-  if (!outputText) {
-    throw new Error('Empty AI response');
+/**
+ * Map-reduce generation: each page-aligned chunk of the source is mapped
+ * independently, then the sub-maps are merged into a single graph. Node
+ * quotes are located in the source to give each node its source spans.
+ */
+async function buildMindMapFromText(
+  chunks: TextChunk[],
+  llm: LlmProvider,
+  options: { title: string; sourceIndex: SourceIndex; signal?: AbortSignal; onChunkDrafted?: (index: number) => void },
+): Promise<{
+  nodes: MindMapNode[];
+  edges: MindMapEdge[];
+  sourceSummary: string;
+}> {
+  const subMaps: AiMindMapGraph[] = [];
+  for (const chunk of chunks) {
+    options.signal?.throwIfAborted();
+    subMaps.push(await generateSubMap(chunk, chunks.length, llm));
+    options.onChunkDrafted?.(chunk.index);
   }
 
-  const parsed = safeParseJson<{
-    sourceSummary: string;
-    nodes: AiMindMapNode[];
-    edges: AiMindMapEdge[];
-  }>(outputText);
+  const parsed = mergeSubMaps(subMaps, options.title);
 
   const nodes: MindMapNode[] = parsed.nodes.map((node) => ({
     id: node.id,
@@ -273,14 +113,10 @@ ${text}
     tags: node.tags ?? [],
     citations: [],
     verified: false,
+    ...(node.quotes ? { sourceSpans: options.sourceIndex.ground(node.quotes) } : {}),
   }));
 
-  const edges: MindMapEdge[] = parsed.edges.map((edge, index) => ({
-    id: edge?.label ? `${edge.source}-${edge.target}-${edge.label}` : `edge-${index}`,
-    source: edge.source,
-    target: edge.target,
-    label: edge.label,
-  }));
+  const edges = normalizeEdges(nodes, parsed.edges);
 
   return {
     nodes,
@@ -293,50 +129,98 @@ export async function POST(request: Request) {
   try {
     const formData = await request.formData();
     const file = formData.get('file');
-
-    if (!file || !(file instanceof File)) {
-      return NextResponse.json({ error: 'A PDF file is required.' }, { status: 400 });
+    const pastedText = formData.get('text');
+
+    let source: ExtractedSource;
+    let title: string;
+    if (typeof pastedText === 'string' && pastedText.trim()) {
+      source = { text: pastedText.trim(), pages: [pastedText.trim()], paged: false };
+      const pastedTitle = formData.get('title');
+      title = typeof pastedTitle === 'string' && pastedTitle.trim() ? pastedTitle.trim() : 'Pasted notes';
+    } else if (file instanceof File) {
+      const mimeType = resolveSourceMimeType(file.type, file.name);
+      const extractor = mimeType ? getExtractor(mimeType) : undefined;
+      if (!extractor) {
+        return NextResponse.json(
+          { error: `Unsupported file type "${file.type || file.name}". Upload ${SUPPORTED_SOURCES_LABEL}.` },
+          { status: 415 },
+        );
+      }
+      source = await extractor.extract(Buffer.from(await file.arrayBuffer()));
+      title = sourceTitle(file.name) || 'Overview';
+    } else {
+      return NextResponse.json({ error: 'Upload a file or paste some text.' }, { status: 400 });
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const extractedText = await extractTextFromPdf(buffer);
-
+    const { text: extractedText, pages, paged } = source;
     if (!extractedText) {
-      return NextResponse.json({ error: 'Unable to extract text from PDF.' }, { status: 422 });
+      return NextResponse.json({ error: 'Unable to extract text from the source.' }, { status: 422 });
     }
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const mindMap = await buildMindMapFromText(extractedText, openai);
-
-    const verifiedNodes: MindMapNode[] = [];
-
-    for (const node of mindMap.nodes) {
-      const citations = await verifyNode(node.title);
-      const uniqueCitations = citations.filter(
-        (citation, index, arr) => arr.findIndex((c) => c.url === citation.url) === index,
-      );
-
-      verifiedNodes.push({
-        ...node,
-        citations: uniqueCitations,
-        verified: uniqueCitations.length > 0,
-      });
-    }
-
-    const payload: MindMapPayload = {
-      nodes: verifiedNodes,
-      edges: mindMap.edges,
-      generatedAt: new Date().toISOString(),
-      sourceSummary: mindMap.sourceSummary,
-    };
+    const stream = createEventStream<GenerationEvent>(request, async (send, signal) => {
+      try {
+        const chunks = chunkPages(pages);
+        send({
+          type: 'extracted',
+          pageCount: pages.length,
+          characterCount: extractedText.length,
+          chunkCount: chunks.length,
+        });
+
+        const llm = getLlmProvider();
+        const mindMap = await buildMindMapFromText(chunks, llm, {
+          title,
+          sourceIndex: createSourceIndex(pages, paged),
+          signal,
+          onChunkDrafted: (index) => send({ type: 'chunk-drafted', index, total: chunks.length }),
+        });
+
+        const draft: MindMapPayload = {
+          nodes: mindMap.nodes,
+          edges: mindMap.edges,
+          generatedAt: new Date().toISOString(),
+          sourceSummary: mindMap.sourceSummary,
+        };
+        send({ type: 'draft', payload: draft });
+
+        await verifyNodes(
+          mindMap.nodes,
+          llm,
+          (node, verification, completed) =>
+            send({
+              type: 'node-verified',
+              nodeId: node.id,
+              ...verification,
+              index: completed - 1,
+              total: mindMap.nodes.length,
+            }),
+          signal,
+        );
+
+        send({ type: 'complete', generatedAt: new Date().toISOString() });
+      } catch (error) {
+        // The client has gone; nobody is left to tell.
+        if (signal.aborted) return;
+        console.error(error);
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error processing source.',
+          ...(error instanceof AiOutputValidationError ? { issues: error.issues } : {}),
+        });
+      }
+    });
 
-    return NextResponse.json(payload);
+    return new Response(stream, {
+      headers: {
+        'Content-Type': NDJSON_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
   } catch (error) {
     console.error(error);
     return NextResponse.json(
       {
-        error: error instanceof Error ? error.message : 'Unknown error processing PDF.',
+        error: error instanceof Error ? error.message : 'Unknown error processing source.',
       },
       { status: 500 },
     );
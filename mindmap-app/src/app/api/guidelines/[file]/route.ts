@@ -0,0 +1,35 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+import { getGuidelinesDir, isGuidelineFileName } from '@/lib/citations/providers/guidelines';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+  params: Promise<{ file: string }>;
+};
+
+/** Serves a local guideline document so citations from the guidelines provider can be opened. */
+export async function GET(_request: Request, context: RouteContext) {
+  const directory = getGuidelinesDir();
+  if (!directory) {
+    return NextResponse.json({ error: 'Local guidelines are not configured.' }, { status: 404 });
+  }
+  const { file } = await context.params;
+  if (!isGuidelineFileName(file)) {
+    return NextResponse.json({ error: 'Invalid guideline file.' }, { status: 400 });
+  }
+
+  try {
+    const contents = await readFile(path.join(directory, file), 'utf8');
+    const extension = path.extname(file).toLowerCase();
+    const contentType = extension === '.html' || extension === '.htm' ? 'text/html' : 'text/plain';
+    return new Response(contents, { headers: { 'Content-Type': `${contentType}; charset=utf-8` } });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return NextResponse.json({ error: 'Guideline not found.' }, { status: 404 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: 'Failed to read guideline.' }, { status: 500 });
+  }
+}
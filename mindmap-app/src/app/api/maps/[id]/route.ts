@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { createFileStore, getServerStorageDir, isValidMapId } from '@/lib/storage/server';
+import type { SavedMindMap } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveStore(context: RouteContext) {
+  const directory = getServerStorageDir();
+  if (!directory) {
+    return { error: NextResponse.json({ error: 'Server-side map storage is disabled.' }, { status: 404 }) };
+  }
+  const { id } = await context.params;
+  if (!isValidMapId(id)) {
+    return { error: NextResponse.json({ error: 'Invalid map id.' }, { status: 400 }) };
+  }
+  return { id, store: createFileStore(directory) };
+}
+
+function isSavedMindMap(value: unknown, id: string): value is SavedMindMap {
+  const map = value as Partial<SavedMindMap> | null;
+  return (
+    !!map &&
+    map.id === id &&
+    typeof map.name === 'string' &&
+    typeof map.createdAt === 'string' &&
+    typeof map.updatedAt === 'string' &&
+    Array.isArray(map.payload?.nodes) &&
+    Array.isArray(map.payload?.edges)
+  );
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  const resolved = await resolveStore(context);
+  if ('error' in resolved) return resolved.error;
+
+  try {
+    const map = await resolved.store.get(resolved.id);
+    if (!map) {
+      return NextResponse.json({ error: 'Map not found.' }, { status: 404 });
+    }
+    return NextResponse.json(map);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load map.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const resolved = await resolveStore(context);
+  if ('error' in resolved) return resolved.error;
+
+  try {
+    const payload = await request.json();
+    if (!isSavedMindMap(payload, resolved.id)) {
+      return NextResponse.json({ error: 'Map payload is malformed or does not match the URL id.' }, { status: 400 });
+    }
+    await resolved.store.save(payload);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to save map.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const resolved = await resolveStore(context);
+  if ('error' in resolved) return resolved.error;
+
+  try {
+    await resolved.store.remove(resolved.id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to delete map.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { createFileStore, getServerStorageDir } from '@/lib/storage/server';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const directory = getServerStorageDir();
+  if (!directory) {
+    return NextResponse.json({ error: 'Server-side map storage is disabled.' }, { status: 404 });
+  }
+
+  try {
+    const maps = await createFileStore(directory).list();
+    return NextResponse.json({ maps });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list saved maps.' },
+      { status: 500 },
+    );
+  }
+}
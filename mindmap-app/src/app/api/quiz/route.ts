@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import type { Citation, Quiz, QuizRequest } from '@/lib/types';
+import { AiOutputValidationError, getLlmProvider } from '@/lib/llm';
+import { generateQuiz } from '@/lib/quiz';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+function isCitation(value: unknown): value is Citation {
+  const citation = value as Partial<Citation> | null;
+  return !!citation && typeof citation.title === 'string' && typeof citation.url === 'string' && typeof citation.source === 'string';
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json()) as QuizRequest;
+    const nodes = Array.isArray(payload?.nodes)
+      ? payload.nodes
+          .filter((node) => typeof node?.id === 'string' && typeof node.title === 'string' && node.title.trim())
+          .map((node) => ({
+            id: node.id,
+            title: node.title,
+            summary: typeof node.summary === 'string' ? node.summary : '',
+            citations: Array.isArray(node.citations) ? node.citations.filter(isCitation) : [],
+          }))
+      : [];
+
+    if (nodes.length === 0) {
+      return NextResponse.json({ error: 'No nodes to quiz on.' }, { status: 400 });
+    }
+
+    const quiz: Quiz = {
+      rootId: nodes[0].id,
+      questions: await generateQuiz({ nodes }, getLlmProvider()),
+      generatedAt: new Date().toISOString(),
+    };
+    return NextResponse.json(quiz);
+  } catch (error) {
+    console.error(error);
+    if (error instanceof AiOutputValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to generate quiz.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getLlmProvider } from '@/lib/llm';
+import type { VerificationEvent, VerifyRequest } from '@/lib/types';
+import { verifyNodes } from '@/lib/verification';
+import { NDJSON_CONTENT_TYPE, createEventStream } from '@/lib/stream';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const MAX_NODES = 500;
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json()) as VerifyRequest;
+    const nodes = Array.isArray(payload?.nodes)
+      ? payload.nodes
+          .filter((node) => typeof node?.id === 'string' && typeof node.title === 'string')
+          .map((node) => ({ ...node, summary: typeof node.summary === 'string' ? node.summary : '' }))
+      : [];
+
+    if (nodes.length === 0) {
+      return NextResponse.json({ error: 'At least one node is required.' }, { status: 400 });
+    }
+    if (nodes.length > MAX_NODES) {
+      return NextResponse.json({ error: `At most ${MAX_NODES} nodes can be verified at once.` }, { status: 413 });
+    }
+
+    const stream = createEventStream<VerificationEvent>(request, async (send, signal) => {
+      try {
+        const llm = getLlmProvider();
+        await verifyNodes(
+          nodes,
+          llm,
+          (node, verification, completed) =>
+            send({
+              type: 'node-verified',
+              nodeId: node.id,
+              ...verification,
+              index: completed - 1,
+              total: nodes.length,
+            }),
+          signal,
+        );
+        send({ type: 'complete', generatedAt: new Date().toISOString() });
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error(error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Verification failed.' });
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': NDJSON_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to verify nodes.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { AlertTriangle, ChevronRight, ShieldCheck, Wand2 } from 'lucide-react';
+import { primaryGhostButtonStyle } from './styles';
+
+type NodeRef = { nodeId: string; title: string };
+
+type BatchCorrectionPanelProps = {
+  needsReviewCount: number;
+  selectedCount: number;
+  /** Nodes edited since they were last verified. */
+  staleCount: number;
+  /** A verification run is in progress. */
+  verifying: boolean;
+  progress: { done: number; total: number } | null;
+  pendingReviews: NodeRef[];
+  failures: Array<NodeRef & { error: string }>;
+  onCorrectNeedingReview: () => void;
+  onCorrectSelected: () => void;
+  onReverifyStale: () => void;
+  onOpenNode: (nodeId: string) => void;
+};
+
+export default function BatchCorrectionPanel({
+  needsReviewCount,
+  selectedCount,
+  staleCount,
+  verifying,
+  progress,
+  pendingReviews,
+  failures,
+  onCorrectNeedingReview,
+  onCorrectSelected,
+  onReverifyStale,
+  onOpenNode,
+}: BatchCorrectionPanelProps) {
+  const running = progress !== null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>Review queue</h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+        <button
+          type="button"
+          onClick={onCorrectNeedingReview}
+          disabled={running || needsReviewCount === 0}
+          style={{ ...primaryGhostButtonStyle, opacity: running || needsReviewCount === 0 ? 0.5 : 1 }}
+        >
+          <Wand2 size={14} />
+          Auto-correct {needsReviewCount} needing review
+        </button>
+        {selectedCount > 1 ? (
+          <button
+            type="button"
+            onClick={onCorrectSelected}
+            disabled={running}
+            style={{ ...primaryGhostButtonStyle, opacity: running ? 0.5 : 1 }}
+          >
+            <Wand2 size={14} />
+            Auto-correct {selectedCount} selected
+          </button>
+        ) : null}
+        {staleCount > 0 ? (
+          <button
+            type="button"
+            onClick={onReverifyStale}
+            disabled={verifying}
+            style={{ ...primaryGhostButtonStyle, opacity: verifying ? 0.5 : 1 }}
+          >
+            <ShieldCheck size={14} />
+            Re-verify {staleCount} edited
+          </button>
+        ) : null}
+      </div>
+      {progress ? (
+        <p style={{ fontSize: 13, color: '#4338ca' }}>
+          Auto-correcting… {progress.done}/{progress.total}
+        </p>
+      ) : null}
+
+      {pendingReviews.length > 0 ? (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {pendingReviews.map((item) => (
+            <li key={item.nodeId}>
+              <button type="button" onClick={() => onOpenNode(item.nodeId)} style={rowButtonStyle}>
+                <span>{item.title}</span>
+                <span style={{ display: 'inline-flex', alignItems: 'center', gap: 2, color: '#4338ca' }}>
+                  Review <ChevronRight size={12} />
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {failures.length > 0 ? (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {failures.map((item) => (
+            <li key={item.nodeId}>
+              <button
+                type="button"
+                onClick={() => onOpenNode(item.nodeId)}
+                title={item.error}
+                style={{ ...rowButtonStyle, color: '#be123c' }}
+              >
+                <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+                  <AlertTriangle size={12} /> {item.title}
+                </span>
+                <span style={{ fontSize: 11 }}>failed</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+const rowButtonStyle: React.CSSProperties = {
+  width: '100%',
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: 8,
+  border: '1px solid #e2e8f0',
+  borderRadius: 8,
+  padding: '6px 10px',
+  background: '#f8fafc',
+  color: '#1e293b',
+  fontSize: 12,
+  textAlign: 'left',
+  cursor: 'pointer',
+};
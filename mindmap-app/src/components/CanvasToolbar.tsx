@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, type RefObject } from 'react';
+import { ChevronDown, ChevronUp, Filter, Focus, Search, X } from 'lucide-react';
+import { VERIFICATION_STATUS_LABELS } from '@/lib/claims';
+import { EMPTY_FILTER, isFilterActive, type NodeFilter } from '@/lib/search';
+import type { VerificationStatus } from '@/lib/types';
+import { inputStyle, primaryGhostButtonStyle, secondaryButtonStyle } from './styles';
+
+const STATUSES = Object.keys(VERIFICATION_STATUS_LABELS) as VerificationStatus[];
+
+type CanvasToolbarProps = {
+  searchInputRef: RefObject<HTMLInputElement | null>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  /** Index of the match the canvas was last panned to, or -1 before the first jump. */
+  activeMatch: number;
+  onStep: (direction: 1 | -1) => void;
+  filter: NodeFilter;
+  tags: string[];
+  /** Nodes the filter currently hides. */
+  hiddenCount: number;
+  onFilterChange: (filter: NodeFilter) => void;
+  focusMode: boolean;
+  /** Focus needs a selected node to centre on. */
+  canFocus: boolean;
+  onToggleFocus: () => void;
+  /** Depth of the deepest node below a root. */
+  maxDepth: number;
+  /** Collapses every branch deeper than `depth` levels below the roots; `Infinity` expands everything. */
+  onExpandToDepth: (depth: number) => void;
+};
+
+const iconButtonStyle = { ...secondaryButtonStyle, padding: '6px 8px', background: 'transparent' };
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+}
+
+export default function CanvasToolbar({
+  searchInputRef,
+  query,
+  onQueryChange,
+  matchCount,
+  activeMatch,
+  onStep,
+  filter,
+  tags,
+  hiddenCount,
+  onFilterChange,
+  focusMode,
+  canFocus,
+  onToggleFocus,
+  maxDepth,
+  onExpandToDepth,
+}: CanvasToolbarProps) {
+  const [filterOpen, setFilterOpen] = useState(false);
+  const filtering = isFilterActive(filter);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 16,
+        left: 16,
+        zIndex: 5,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: 6,
+        borderRadius: 14,
+        border: '1px solid #e2e8f0',
+        background: 'rgba(255,255,255,0.95)',
+        boxShadow: '0 8px 20px rgba(15, 23, 42, 0.08)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+        <Search size={14} color="#64748b" style={{ marginLeft: 6 }} />
+        <input
+          ref={searchInputRef}
+          value={query}
+          onChange={(event) => onQueryChange(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' || event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              event.preventDefault();
+              onStep(event.key === 'ArrowUp' || (event.key === 'Enter' && event.shiftKey) ? -1 : 1);
+            } else if (event.key === 'Escape') {
+              onQueryChange('');
+            }
+          }}
+          placeholder="Search concepts (Ctrl+F)"
+          aria-label="Search nodes"
+          style={{ ...inputStyle, border: 'none', padding: '6px 4px', width: 200 }}
+        />
+        {query ? (
+          <>
+            <span style={{ fontSize: 12, color: '#64748b', whiteSpace: 'nowrap' }}>
+              {matchCount === 0 ? 'No matches' : activeMatch >= 0 ? `${activeMatch + 1}/${matchCount}` : `${matchCount} found`}
+            </span>
+            <button type="button" onClick={() => onStep(-1)} disabled={matchCount === 0} aria-label="Previous match" style={iconButtonStyle}>
+              <ChevronUp size={14} />
+            </button>
+            <button type="button" onClick={() => onStep(1)} disabled={matchCount === 0} aria-label="Next match" style={iconButtonStyle}>
+              <ChevronDown size={14} />
+            </button>
+            <button type="button" onClick={() => onQueryChange('')} aria-label="Clear search" style={iconButtonStyle}>
+              <X size={14} />
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      <div style={{ position: 'relative' }}>
+        <button
+          type="button"
+          onClick={() => setFilterOpen((prev) => !prev)}
+          aria-expanded={filterOpen}
+          style={{ ...(filtering ? primaryGhostButtonStyle : secondaryButtonStyle), padding: '6px 10px', fontSize: 12 }}
+        >
+          <Filter size={14} />
+          {filtering ? `Filtered (${hiddenCount} hidden)` : 'Filter'}
+        </button>
+        {filterOpen ? (
+          <div
+            style={{
+              position: 'absolute',
+              left: 0,
+              top: 'calc(100% + 6px)',
+              zIndex: 20,
+              width: 240,
+              padding: 12,
+              borderRadius: 12,
+              border: '1px solid #e2e8f0',
+              background: '#ffffff',
+              boxShadow: '0 12px 30px rgba(15, 23, 42, 0.12)',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 12,
+              fontSize: 12,
+              color: '#334155',
+            }}
+          >
+            <fieldset style={{ border: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <legend style={{ fontWeight: 600, marginBottom: 4 }}>Tags</legend>
+              {tags.map((tag) => (
+                <label key={tag} style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                  <input
+                    type="checkbox"
+                    checked={filter.tags.includes(tag)}
+                    onChange={() => onFilterChange({ ...filter, tags: toggle(filter.tags, tag) })}
+                  />
+                  {tag}
+                </label>
+              ))}
+            </fieldset>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span style={{ fontWeight: 600 }}>Minimum importance</span>
+              <select
+                value={filter.minImportance}
+                onChange={(event) => onFilterChange({ ...filter, minImportance: Number(event.target.value) })}
+                style={{ ...inputStyle, padding: '6px 8px', fontSize: 12 }}
+              >
+                {[1, 2, 3, 4, 5].map((level) => (
+                  <option key={level} value={level}>
+                    {level === 1 ? 'Any' : `${level} or higher`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <fieldset style={{ border: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <legend style={{ fontWeight: 600, marginBottom: 4 }}>Verification</legend>
+              {STATUSES.map((status) => (
+                <label key={status} style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                  <input
+                    type="checkbox"
+                    checked={filter.statuses.includes(status)}
+                    onChange={() => onFilterChange({ ...filter, statuses: toggle(filter.statuses, status) })}
+                  />
+                  {VERIFICATION_STATUS_LABELS[status]}
+                </label>
+              ))}
+            </fieldset>
+            <button
+              type="button"
+              onClick={() => onFilterChange(EMPTY_FILTER)}
+              disabled={!filtering}
+              style={{ ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12, justifyContent: 'center', opacity: filtering ? 1 : 0.5 }}
+            >
+              Clear filters
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      <button
+        type="button"
+        onClick={onToggleFocus}
+        disabled={!canFocus && !focusMode}
+        aria-pressed={focusMode}
+        title="Dim everything except the selected node, its ancestors and its descendants"
+        style={{
+          ...(focusMode ? primaryGhostButtonStyle : secondaryButtonStyle),
+          padding: '6px 10px',
+          fontSize: 12,
+          opacity: canFocus || focusMode ? 1 : 0.5,
+        }}
+      >
+        <Focus size={14} />
+        Focus
+      </button>
+
+      {maxDepth > 0 ? (
+        <select
+          value=""
+          onChange={(event) => onExpandToDepth(event.target.value === 'all' ? Infinity : Number(event.target.value))}
+          aria-label="Expand to depth"
+          style={{ ...inputStyle, padding: '6px 8px', fontSize: 12, width: 'auto' }}
+        >
+          <option value="" disabled>
+            Expand to…
+          </option>
+          <option value={0}>Roots only</option>
+          {Array.from({ length: maxDepth - 1 }, (_, index) => index + 1).map((depth) => (
+            <option key={depth} value={depth}>
+              Depth {depth}
+            </option>
+          ))}
+          <option value="all">Everything</option>
+        </select>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+/** Badge colours by `Citation.source`; unknown sources fall back to neutral grey. */
+const SOURCE_COLORS: Record<string, { background: string; color: string }> = {
+  MedlinePlus: { background: '#dbeafe', color: '#1e40af' },
+  PubMed: { background: '#e0f2fe', color: '#075985' },
+  MeSH: { background: '#ede9fe', color: '#5b21b6' },
+  Wikipedia: { background: '#f1f5f9', color: '#334155' },
+  'Local guideline': { background: '#dcfce7', color: '#166534' },
+  'Reference library': { background: '#fef3c7', color: '#92400e' },
+};
+
+const FALLBACK_COLORS = { background: '#f1f5f9', color: '#475569' };
+
+export default function CitationBadge({ source }: { source: string }) {
+  const colors = SOURCE_COLORS[source] ?? FALLBACK_COLORS;
+  return (
+    <span
+      style={{
+        display: 'inline-block',
+        borderRadius: 999,
+        padding: '2px 8px',
+        fontSize: 10,
+        fontWeight: 600,
+        letterSpacing: 0.4,
+        textTransform: 'uppercase',
+        ...colors,
+      }}
+    >
+      {source}
+    </span>
+  );
+}
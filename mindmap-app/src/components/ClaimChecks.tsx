@@ -0,0 +1,79 @@
+'use client';
+
+import { ListChecks } from 'lucide-react';
+import { VERIFICATION_STATUS_LABELS } from '@/lib/claims';
+import type { ClaimCheck, ClaimVerdict, VerificationStatus } from '@/lib/types';
+import CitationBadge from './CitationBadge';
+
+const VERDICT_STYLES: Record<ClaimVerdict, { label: string; background: string; color: string; border: string }> = {
+  supported: { label: 'Supported', background: '#d1fae5', color: '#047857', border: '#6ee7b7' },
+  contradicted: { label: 'Contradicted', background: '#fee2e2', color: '#b91c1c', border: '#fca5a5' },
+  'not-found': { label: 'Not found', background: '#f1f5f9', color: '#475569', border: '#cbd5e1' },
+};
+
+const STATUS_COLORS: Record<VerificationStatus, string> = {
+  verified: '#047857',
+  partial: '#d97706',
+  contradicted: '#b91c1c',
+  unverified: '#64748b',
+};
+
+type ClaimChecksProps = {
+  claims: ClaimCheck[];
+  status: VerificationStatus;
+};
+
+export default function ClaimChecks({ claims, status }: ClaimChecksProps) {
+  if (claims.length === 0) return null;
+
+  return (
+    <div>
+      <h3 style={{ fontSize: 14, fontWeight: 600, color: '#334155', display: 'flex', alignItems: 'center', gap: 8 }}>
+        <ListChecks size={16} color={STATUS_COLORS[status]} />
+        Claims
+        <span style={{ fontSize: 12, fontWeight: 500, color: STATUS_COLORS[status] }}>
+          {VERIFICATION_STATUS_LABELS[status]}
+        </span>
+      </h3>
+      <ul style={{ marginTop: 8, listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {claims.map((claim, index) => {
+          const verdict = VERDICT_STYLES[claim.verdict];
+          return (
+            <li
+              key={`${index}:${claim.claim}`}
+              style={{ borderLeft: `3px solid ${verdict.border}`, padding: '4px 0 4px 10px', fontSize: 12, color: '#334155' }}
+            >
+              <span
+                style={{
+                  display: 'inline-block',
+                  borderRadius: 999,
+                  padding: '2px 8px',
+                  fontSize: 10,
+                  fontWeight: 600,
+                  letterSpacing: 0.4,
+                  textTransform: 'uppercase',
+                  background: verdict.background,
+                  color: verdict.color,
+                }}
+              >
+                {verdict.label}
+              </span>
+              <p style={{ marginTop: 4, lineHeight: 1.5 }}>{claim.claim}</p>
+              {claim.evidence ? (
+                <p style={{ marginTop: 4, lineHeight: 1.5, color: '#475569', fontStyle: 'italic' }}>“{claim.evidence}”</p>
+              ) : null}
+              {claim.citation ? (
+                <p style={{ marginTop: 4, display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <CitationBadge source={claim.citation.source} />
+                  <a href={claim.citation.url} target="_blank" rel="noreferrer" style={{ color: '#4338ca' }}>
+                    {claim.citation.title}
+                  </a>
+                </p>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, LogOut, Users } from 'lucide-react';
+import type { CollabStatus, CollabUser, Peer } from '@/lib/collab/types';
+import { inputStyle, labelStyle, primaryGhostButtonStyle, secondaryButtonStyle } from './styles';
+
+type CollaborationPanelProps = {
+  user: CollabUser;
+  onUserChange: (user: CollabUser) => void;
+  /** Null outside a shared session. */
+  status: CollabStatus | null;
+  shareUrl: string | null;
+  peers: Peer[];
+  nodeTitle: (nodeId: string) => string;
+  onStart: () => void;
+  onLeave: () => void;
+  onShowNode: (nodeId: string) => void;
+};
+
+const STATUS_LABELS: Record<CollabStatus, { label: string; color: string }> = {
+  connecting: { label: 'Connecting…', color: '#d97706' },
+  connected: { label: 'Live', color: '#16a34a' },
+  disconnected: { label: 'Offline — edits will sync on reconnect', color: '#b91c1c' },
+};
+
+const smallButtonStyle = { ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12 };
+
+function Dot({ color }: { color: string }) {
+  return <span style={{ width: 10, height: 10, borderRadius: 999, background: color, flexShrink: 0 }} />;
+}
+
+export default function CollaborationPanel({
+  user,
+  onUserChange,
+  status,
+  shareUrl,
+  peers,
+  nodeTitle,
+  onStart,
+  onLeave,
+  onShowNode,
+}: CollaborationPanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>Shared session</h2>
+        {status ? (
+          <button type="button" onClick={onLeave} style={smallButtonStyle}>
+            <LogOut size={12} />
+            Leave
+          </button>
+        ) : null}
+      </div>
+
+      <label style={{ ...labelStyle, fontSize: 12 }}>
+        Your name
+        <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <Dot color={user.color} />
+          <input
+            value={user.name}
+            onChange={(event) => onUserChange({ ...user, name: event.target.value })}
+            maxLength={40}
+            style={{ ...inputStyle, padding: '6px 10px', flex: 1 }}
+          />
+        </span>
+      </label>
+
+      {!status ? (
+        <button type="button" onClick={onStart} style={{ ...primaryGhostButtonStyle, justifyContent: 'center' }}>
+          <Users size={14} />
+          Share this map live
+        </button>
+      ) : (
+        <>
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 12, color: STATUS_LABELS[status].color }}>
+            <Dot color={STATUS_LABELS[status].color} />
+            {STATUS_LABELS[status].label}
+          </span>
+          {shareUrl ? (
+            <div style={{ display: 'flex', gap: 6 }}>
+              <input readOnly value={shareUrl} onFocus={(event) => event.target.select()} style={{ ...inputStyle, padding: '6px 10px', fontSize: 12, flex: 1 }} />
+              <button type="button" onClick={() => void copyLink()} style={smallButtonStyle}>
+                <Copy size={12} />
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          ) : null}
+          {peers.length === 0 ? (
+            <p style={{ fontSize: 12, color: '#64748b' }}>Nobody else is here yet. Send the link to your study group.</p>
+          ) : (
+            <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12, color: '#334155' }}>
+              {peers.map((peer) => (
+                <li key={peer.clientId} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <Dot color={peer.user.color} />
+                  <span style={{ fontWeight: 600 }}>{peer.user.name}</span>
+                  {peer.editingNodeId ? (
+                    <button
+                      type="button"
+                      onClick={() => onShowNode(peer.editingNodeId as string)}
+                      style={{ border: 'none', background: 'transparent', padding: 0, color: '#4338ca', fontSize: 12, cursor: 'pointer' }}
+                    >
+                      editing “{nodeTitle(peer.editingNodeId)}”
+                    </button>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
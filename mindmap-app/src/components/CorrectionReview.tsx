@@ -0,0 +1,161 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Check, Link, Pencil, X } from 'lucide-react';
+import { diffTags, diffWords } from '@/lib/diff';
+import type { AutoCorrectionProposal } from '@/lib/types';
+import { inputStyle, labelStyle, primaryButtonStyle, primaryGhostButtonStyle, secondaryButtonStyle } from './styles';
+
+type CorrectionReviewProps = {
+  original: { summary: string; tags: string[] };
+  proposal: AutoCorrectionProposal;
+  onAccept: (summary: string, tags: string[]) => void;
+  onReject: () => void;
+};
+
+export default function CorrectionReview({ original, proposal, onAccept, onReject }: CorrectionReviewProps) {
+  const [editing, setEditing] = useState(false);
+  const [draftSummary, setDraftSummary] = useState(proposal.summary);
+  const [draftTags, setDraftTags] = useState(proposal.tags.join(', '));
+
+  const summaryDiff = useMemo(() => diffWords(original.summary, proposal.summary), [original.summary, proposal.summary]);
+  const tagDiff = useMemo(() => diffTags(original.tags, proposal.tags), [original.tags, proposal.tags]);
+
+  return (
+    <div
+      style={{
+        border: '1px solid #c7d2fe',
+        borderRadius: 12,
+        padding: 12,
+        background: '#f5f7ff',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 12,
+      }}
+    >
+      <h3 style={{ fontSize: 14, fontWeight: 600, color: '#312e81' }}>Review proposed correction</h3>
+
+      <p style={{ fontSize: 13, lineHeight: 1.5, color: '#1e293b' }}>
+        {summaryDiff.map((segment, index) => (
+          <span
+            key={index}
+            style={
+              segment.type === 'added'
+                ? { background: '#d1fae5', color: '#065f46' }
+                : segment.type === 'removed'
+                ? { background: '#ffe4e6', color: '#9f1239', textDecoration: 'line-through' }
+                : undefined
+            }
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+
+      {tagDiff.added.length > 0 || tagDiff.removed.length > 0 ? (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {tagDiff.kept.map((tag) => (
+            <span key={`kept-${tag}`} style={{ ...tagStyle, background: '#f1f5f9', color: '#475569' }}>
+              {tag}
+            </span>
+          ))}
+          {tagDiff.added.map((tag) => (
+            <span key={`added-${tag}`} style={{ ...tagStyle, background: '#d1fae5', color: '#065f46' }}>
+              + {tag}
+            </span>
+          ))}
+          {tagDiff.removed.map((tag) => (
+            <span key={`removed-${tag}`} style={{ ...tagStyle, background: '#ffe4e6', color: '#9f1239', textDecoration: 'line-through' }}>
+              {tag}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {proposal.rationale.length > 0 ? (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {proposal.rationale.map((entry, index) => (
+            <li key={index} style={{ fontSize: 12, color: '#334155', lineHeight: 1.4 }}>
+              <p style={{ fontWeight: 600 }}>{entry.claim}</p>
+              {entry.explanation ? <p style={{ marginTop: 2 }}>{entry.explanation}</p> : null}
+              {entry.citation ? (
+                <a
+                  href={entry.citation.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  style={{ marginTop: 4, display: 'inline-flex', alignItems: 'center', gap: 4, color: '#4338ca' }}
+                >
+                  <Link size={12} /> {entry.citation.title}
+                </a>
+              ) : (
+                <p style={{ marginTop: 4, color: '#b45309' }}>No supporting citation</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {editing ? (
+        <>
+          <label style={labelStyle}>
+            Summary
+            <textarea
+              value={draftSummary}
+              onChange={(event) => setDraftSummary(event.target.value)}
+              rows={4}
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+          </label>
+          <label style={labelStyle}>
+            Tags (comma separated)
+            <input value={draftTags} onChange={(event) => setDraftTags(event.target.value)} style={inputStyle} />
+          </label>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              type="button"
+              onClick={() =>
+                onAccept(
+                  draftSummary,
+                  draftTags
+                    .split(',')
+                    .map((tag) => tag.trim())
+                    .filter(Boolean),
+                )
+              }
+              style={primaryButtonStyle}
+            >
+              <Check size={14} />
+              Accept edited
+            </button>
+            <button type="button" onClick={() => setEditing(false)} style={secondaryButtonStyle}>
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+          <button type="button" onClick={() => onAccept(proposal.summary, proposal.tags)} style={primaryButtonStyle}>
+            <Check size={14} />
+            Accept
+          </button>
+          <button type="button" onClick={() => setEditing(true)} style={primaryGhostButtonStyle}>
+            <Pencil size={14} />
+            Edit
+          </button>
+          <button type="button" onClick={onReject} style={secondaryButtonStyle}>
+            <X size={14} />
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const tagStyle: React.CSSProperties = {
+  borderRadius: 999,
+  padding: '3px 8px',
+  fontSize: 10,
+  letterSpacing: 0.6,
+  textTransform: 'uppercase',
+};
@@ -1,10 +1,12 @@
 'use client';
 
 import { memo, useMemo } from 'react';
-import type { NodeProps } from 'reactflow';
-import { Handle, Position } from 'reactflow';
-import { CheckCircle2, AlertTriangle, RefreshCcw } from 'lucide-react';
-import type { Citation } from '@/lib/types';
+import type { NodeProps, ReactFlowState } from 'reactflow';
+import { Handle, Position, useStore } from 'reactflow';
+import { CheckCircle2, AlertTriangle, ChevronDown, ChevronRight, History, RefreshCcw, Loader2, Pencil, Wand2, XCircle } from 'lucide-react';
+import { VERIFICATION_STATUS_LABELS } from '@/lib/claims';
+import type { CollabUser } from '@/lib/collab/types';
+import type { Citation, ClaimCheck, VerificationStatus } from '@/lib/types';
 
 export type MindMapNodeData = {
   title: string;
@@ -13,9 +15,35 @@ export type MindMapNodeData = {
   tags: string[];
   citations: Citation[];
   verified: boolean;
+  verificationStatus: VerificationStatus;
+  claims: ClaimCheck[];
   autoCorrected?: boolean;
+  verificationPending?: boolean;
+  correctionPending?: boolean;
+  /** Generated node whose quotes could not be found in the source. */
+  ungrounded?: boolean;
+  /** Title or summary edited since the last verification. */
+  stale?: boolean;
+  /** Another node is being dragged over this one and would be moved under it on drop. */
+  dropTarget?: boolean;
+  /** Answered poorly in recent quizzes. */
+  weak?: boolean;
+  /** Matches the canvas search; `active` is the match the canvas was last panned to. */
+  searchMatch?: 'match' | 'active';
+  /** Direct children in the hierarchy; nodes without any can't be collapsed. */
+  childCount?: number;
+  collapsed?: boolean;
+  /** Nodes hidden by this node's collapse. */
+  hiddenDescendants?: number;
+  onToggleCollapse?: (nodeId: string) => void;
+  /** Other participants of a shared session with this node open in their editor. */
+  editors?: CollabUser[];
 };
 
+/** Below this zoom nodes render as their title only, which keeps big maps legible and cheap to draw. */
+const COMPACT_ZOOM = 0.45;
+const compactSelector = (state: ReactFlowState) => state.transform[2] < COMPACT_ZOOM;
+
 const importanceBorders: Record<number, string> = {
   1: '#d4d4d8',
   2: '#93c5fd',
@@ -24,7 +52,72 @@ const importanceBorders: Record<number, string> = {
   5: '#4338ca',
 };
 
-const CustomNode = memo<NodeProps<MindMapNodeData>>(({ data }) => {
+function CollapseToggle({ nodeId, data }: { nodeId: string; data: MindMapNodeData }) {
+  if (!data.childCount || !data.onToggleCollapse) return null;
+  const onToggle = data.onToggleCollapse;
+  return (
+    <button
+      type="button"
+      className="nodrag"
+      onClick={(event) => {
+        event.stopPropagation();
+        onToggle(nodeId);
+      }}
+      title={data.collapsed ? `Expand ${data.hiddenDescendants ?? 0} hidden nodes` : 'Collapse branch'}
+      style={{
+        position: 'absolute',
+        right: 12,
+        bottom: -12,
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 2,
+        height: 22,
+        padding: '0 8px',
+        borderRadius: 999,
+        border: '1px solid #c7d2fe',
+        background: data.collapsed ? '#4338ca' : '#ffffff',
+        color: data.collapsed ? '#ffffff' : '#4338ca',
+        fontSize: 11,
+        fontWeight: 600,
+        cursor: 'pointer',
+      }}
+    >
+      {data.collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+      {data.collapsed ? `+${data.hiddenDescendants ?? 0}` : data.childCount}
+    </button>
+  );
+}
+
+function EditorBadges({ editors }: { editors?: CollabUser[] }) {
+  if (!editors || editors.length === 0) return null;
+  return (
+    <div style={{ position: 'absolute', left: 8, bottom: '100%', marginBottom: 4, display: 'flex', gap: 4 }}>
+      {editors.map((editor) => (
+        <span
+          key={`${editor.name}-${editor.color}`}
+          title={`Being edited by ${editor.name}`}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 4,
+            borderRadius: 999,
+            background: editor.color,
+            color: '#ffffff',
+            padding: '2px 8px',
+            fontSize: 10,
+            fontWeight: 600,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          <Pencil size={10} strokeWidth={2} /> {editor.name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+const CustomNode = memo<NodeProps<MindMapNodeData>>(({ id, data }) => {
+  const compact = useStore(compactSelector);
   const borderColor = importanceBorders[data.importance] ?? '#d4d4d8';
   const badgeStyle = useMemo(() => {
     if (data.importance >= 5) return { background: '#4338ca', color: '#ffffff' };
@@ -34,18 +127,38 @@ const CustomNode = memo<NodeProps<MindMapNodeData>>(({ data }) => {
     return { background: '#e2e8f0', color: '#1e293b' };
   }, [data.importance]);
 
+  const frameStyle = {
+    position: 'relative' as const,
+    minWidth: 220,
+    maxWidth: 260,
+    borderRadius: 12,
+    border: `2px solid ${borderColor}`,
+    background: data.weak ? '#fff1f2' : '#ffffff',
+    padding: 12,
+    boxShadow: data.dropTarget
+      ? '0 0 0 4px rgba(67, 56, 202, 0.35), 0 8px 14px rgba(15, 23, 42, 0.12)'
+      : data.searchMatch === 'active'
+        ? '0 0 0 4px #f59e0b, 0 8px 14px rgba(15, 23, 42, 0.12)'
+        : data.searchMatch === 'match'
+          ? '0 0 0 3px rgba(245, 158, 11, 0.45), 0 8px 14px rgba(15, 23, 42, 0.12)'
+          : '0 8px 14px rgba(15, 23, 42, 0.12)',
+  };
+
+  if (compact) {
+    return (
+      <div style={{ ...frameStyle, borderWidth: 4 }}>
+        <Handle type="target" position={Position.Left} style={{ width: 8, height: 8, background: '#4f46e5' }} />
+        <EditorBadges editors={data.editors} />
+        <h3 style={{ fontSize: 24, fontWeight: 700, color: '#0f172a', lineHeight: 1.2 }}>{data.title}</h3>
+        <CollapseToggle nodeId={id} data={data} />
+        <Handle type="source" position={Position.Right} style={{ width: 8, height: 8, background: '#4f46e5' }} />
+      </div>
+    );
+  }
+
   return (
-    <div
-      style={{
-        minWidth: 220,
-        maxWidth: 260,
-        borderRadius: 12,
-        border: `2px solid ${borderColor}`,
-        background: '#ffffff',
-        padding: 12,
-        boxShadow: '0 8px 14px rgba(15, 23, 42, 0.12)',
-      }}
-    >
+    <div style={frameStyle}>
+      <EditorBadges editors={data.editors} />
       <Handle type="target" position={Position.Left} style={{ width: 8, height: 8, background: '#4f46e5' }} />
       <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 8 }}>
         <div>
@@ -86,6 +199,43 @@ const CustomNode = memo<NodeProps<MindMapNodeData>>(({ data }) => {
             {tag}
           </span>
         ))}
+        {data.ungrounded ? (
+          <span
+            title="No supporting passage found in the source notes"
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 4,
+              borderRadius: 999,
+              background: '#fef3c7',
+              color: '#92400e',
+              padding: '3px 8px',
+              fontSize: 10,
+              letterSpacing: 0.6,
+              textTransform: 'uppercase',
+            }}
+          >
+            <AlertTriangle size={10} strokeWidth={2} /> Not in source
+          </span>
+        ) : null}
+        {data.correctionPending ? (
+          <span
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 4,
+              borderRadius: 999,
+              background: '#e0e7ff',
+              color: '#3730a3',
+              padding: '3px 8px',
+              fontSize: 10,
+              letterSpacing: 0.6,
+              textTransform: 'uppercase',
+            }}
+          >
+            <Wand2 size={10} strokeWidth={2} /> Review
+          </span>
+        ) : null}
         {data.autoCorrected ? (
           <span
             style={{
@@ -104,19 +254,52 @@ const CustomNode = memo<NodeProps<MindMapNodeData>>(({ data }) => {
             <RefreshCcw size={10} strokeWidth={2} /> Corrected
           </span>
         ) : null}
+        {data.stale && !data.verificationPending ? (
+          <span
+            title="Edited since the last verification — re-verify to refresh citations"
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 4,
+              borderRadius: 999,
+              background: '#f1f5f9',
+              color: '#475569',
+              padding: '3px 8px',
+              fontSize: 10,
+              letterSpacing: 0.6,
+              textTransform: 'uppercase',
+            }}
+          >
+            <History size={10} strokeWidth={2} /> Stale
+          </span>
+        ) : null}
       </div>
 
       <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, marginTop: 10 }}>
-        {data.verified ? (
+        {data.verificationPending ? (
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#4338ca' }}>
+            <Loader2 size={14} /> Checking references…
+          </span>
+        ) : data.verificationStatus === 'verified' ? (
           <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#047857' }}>
             <CheckCircle2 size={14} /> Verified ({data.citations.length})
           </span>
+        ) : data.verificationStatus === 'contradicted' ? (
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#b91c1c' }}>
+            <XCircle size={14} /> {VERIFICATION_STATUS_LABELS.contradicted}
+          </span>
+        ) : data.verificationStatus === 'partial' ? (
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#d97706' }}>
+            <AlertTriangle size={14} /> {VERIFICATION_STATUS_LABELS.partial} (
+            {data.claims.filter((claim) => claim.verdict === 'supported').length}/{data.claims.length})
+          </span>
         ) : (
           <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#d97706' }}>
             <AlertTriangle size={14} /> Needs review
           </span>
         )}
       </div>
+      <CollapseToggle nodeId={id} data={data} />
       <Handle type="source" position={Position.Right} style={{ width: 8, height: 8, background: '#4f46e5' }} />
     </div>
   );
@@ -0,0 +1,56 @@
+'use client';
+
+import { Trash2 } from 'lucide-react';
+import type { MindMapEdge } from '@/lib/types';
+import { inputStyle, labelStyle, secondaryButtonStyle } from './styles';
+
+type EdgeEditorProps = {
+  edge: MindMapEdge;
+  sourceTitle: string;
+  targetTitle: string;
+  onLabelChange: (label: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+};
+
+export default function EdgeEditor({ edge, sourceTitle, targetTitle, onLabelChange, onDelete, onClose }: EdgeEditorProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>Connection</h2>
+        <button type="button" onClick={onClose} style={{ border: 'none', background: 'transparent', color: '#64748b' }}>
+          Clear
+        </button>
+      </div>
+      <p style={{ fontSize: 13, color: '#475569' }}>
+        {sourceTitle} → {targetTitle}
+        <span style={{ marginLeft: 6, fontSize: 11, color: '#94a3b8' }}>
+          {edge.kind === 'hierarchy' ? 'parent link' : 'cross-link'}
+        </span>
+      </p>
+      <label style={labelStyle}>
+        Label
+        <input
+          value={edge.label ?? ''}
+          onChange={(event) => onLabelChange(event.target.value)}
+          placeholder="e.g. causes, treated with"
+          style={inputStyle}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: 6 }}>
+        {edge.label ? (
+          <button type="button" onClick={() => onLabelChange('')} style={{ ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12 }}>
+            Remove label
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={onDelete}
+          style={{ ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12, background: '#fee2e2', color: '#b91c1c' }}
+        >
+          <Trash2 size={14} /> Delete connection
+        </button>
+      </div>
+    </div>
+  );
+}
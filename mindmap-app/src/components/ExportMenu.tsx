@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, FileCode } from 'lucide-react';
+import type { ExportFormat } from '@/lib/export';
+import { primaryGhostButtonStyle } from './styles';
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'json', label: 'JSON (re-importable)' },
+  { format: 'markdown', label: 'Markdown outline' },
+  { format: 'opml', label: 'OPML' },
+  { format: 'freemind', label: 'FreeMind (.mm)' },
+  { format: 'mermaid-mindmap', label: 'Mermaid mindmap' },
+  { format: 'mermaid-graph', label: 'Mermaid graph' },
+];
+
+type ExportMenuProps = {
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+};
+
+export default function ExportMenu({ disabled, onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={disabled}
+        aria-expanded={open}
+        style={{ ...primaryGhostButtonStyle, opacity: disabled ? 0.5 : 1 }}
+      >
+        <FileCode size={16} />
+        Export as
+        <ChevronDown size={14} />
+      </button>
+      {open && !disabled ? (
+        <ul
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: 'calc(100% + 6px)',
+            zIndex: 20,
+            minWidth: 200,
+            listStyle: 'none',
+            margin: 0,
+            padding: 6,
+            borderRadius: 12,
+            border: '1px solid #e2e8f0',
+            background: '#ffffff',
+            boxShadow: '0 12px 30px rgba(15, 23, 42, 0.12)',
+          }}
+        >
+          {FORMATS.map((item) => (
+            <li key={item.format}>
+              <button
+                type="button"
+                onClick={() => {
+                  setOpen(false);
+                  onExport(item.format);
+                }}
+                style={{
+                  width: '100%',
+                  border: 'none',
+                  borderRadius: 8,
+                  padding: '8px 10px',
+                  background: 'transparent',
+                  color: '#1e293b',
+                  fontSize: 13,
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                {item.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
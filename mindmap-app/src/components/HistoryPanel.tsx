@@ -0,0 +1,108 @@
+'use client';
+
+import { Redo2, Undo2 } from 'lucide-react';
+import type { HistoryCommand, HistoryState } from '@/lib/history';
+import { secondaryButtonStyle } from './styles';
+
+type HistoryPanelProps = {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (commandId: string | null) => void;
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export default function HistoryPanel({ history, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const current = history.past[history.past.length - 1] ?? null;
+
+  const renderEntry = (command: HistoryCommand, undone: boolean) => (
+    <li key={command.id}>
+      <button
+        type="button"
+        onClick={() => onJump(command.id)}
+        style={{
+          ...entryStyle,
+          color: undone ? '#94a3b8' : '#1e293b',
+          background: command.id === current?.id ? '#eef2ff' : 'transparent',
+          fontWeight: command.id === current?.id ? 600 : 400,
+        }}
+      >
+        <span>{command.label}</span>
+        <span style={{ fontSize: 11, color: '#94a3b8' }}>{formatTime(command.timestamp)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>History</h2>
+        <div style={{ display: 'flex', gap: 6 }}>
+          <button
+            type="button"
+            onClick={onUndo}
+            disabled={history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+            style={{ ...secondaryButtonStyle, padding: '6px 10px', opacity: history.past.length === 0 ? 0.5 : 1 }}
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            type="button"
+            onClick={onRedo}
+            disabled={history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            style={{ ...secondaryButtonStyle, padding: '6px 10px', opacity: history.future.length === 0 ? 0.5 : 1 }}
+          >
+            <Redo2 size={14} />
+          </button>
+        </div>
+      </div>
+      <ul
+        style={{
+          marginTop: 8,
+          listStyle: 'none',
+          padding: 0,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 2,
+          maxHeight: 220,
+          overflowY: 'auto',
+        }}
+      >
+        <li>
+          <button
+            type="button"
+            onClick={() => onJump(null)}
+            style={{
+              ...entryStyle,
+              color: '#475569',
+              background: current === null ? '#eef2ff' : 'transparent',
+              fontWeight: current === null ? 600 : 400,
+            }}
+          >
+            <span>Initial map</span>
+          </button>
+        </li>
+        {history.past.map((command) => renderEntry(command, false))}
+        {history.future.map((command) => renderEntry(command, true))}
+      </ul>
+    </div>
+  );
+}
+
+const entryStyle: React.CSSProperties = {
+  width: '100%',
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: 8,
+  border: 'none',
+  borderRadius: 8,
+  padding: '6px 8px',
+  fontSize: 12,
+  textAlign: 'left',
+  cursor: 'pointer',
+};
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, ChevronDown, LayoutGrid } from 'lucide-react';
+import { LAYOUT_LABELS, type LayoutAlgorithm } from '@/lib/layout';
+import { primaryGhostButtonStyle } from './styles';
+
+const ALGORITHMS = Object.keys(LAYOUT_LABELS) as LayoutAlgorithm[];
+
+type LayoutMenuProps = {
+  disabled: boolean;
+  current: LayoutAlgorithm;
+  onRelayout: (algorithm: LayoutAlgorithm) => void;
+};
+
+export default function LayoutMenu({ disabled, current, onRelayout }: LayoutMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={disabled}
+        aria-expanded={open}
+        title="Re-position every node; undo restores the previous positions"
+        style={{ ...primaryGhostButtonStyle, opacity: disabled ? 0.5 : 1 }}
+      >
+        <LayoutGrid size={16} />
+        Re-layout
+        <ChevronDown size={14} />
+      </button>
+      {open && !disabled ? (
+        <ul
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: 'calc(100% + 6px)',
+            zIndex: 20,
+            minWidth: 200,
+            listStyle: 'none',
+            margin: 0,
+            padding: 6,
+            borderRadius: 12,
+            border: '1px solid #e2e8f0',
+            background: '#ffffff',
+            boxShadow: '0 12px 30px rgba(15, 23, 42, 0.12)',
+          }}
+        >
+          {ALGORITHMS.map((algorithm) => (
+            <li key={algorithm}>
+              <button
+                type="button"
+                onClick={() => {
+                  setOpen(false);
+                  onRelayout(algorithm);
+                }}
+                style={{
+                  width: '100%',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: 8,
+                  border: 'none',
+                  borderRadius: 8,
+                  padding: '8px 10px',
+                  background: 'transparent',
+                  color: '#1e293b',
+                  fontSize: 13,
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                {LAYOUT_LABELS[algorithm]}
+                {algorithm === current ? <Check size={14} color="#4338ca" /> : null}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import type { SavedMindMapSummary } from '@/lib/types';
+import { inputStyle } from './styles';
+
+type MapLibraryProps = {
+  maps: SavedMindMapSummary[];
+  activeMapId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+};
+
+function formatDate(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export default function MapLibrary({ maps, activeMapId, onOpen, onRename, onDuplicate, onDelete }: MapLibraryProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = (id: string) => {
+    const name = draftName.trim();
+    if (name) {
+      onRename(id, name);
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div>
+      <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>Library</h2>
+      {maps.length === 0 ? (
+        <p style={{ marginTop: 8, fontSize: 13, color: '#64748b' }}>Generated maps are saved here automatically.</p>
+      ) : (
+        <ul style={{ marginTop: 8, listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {maps.map((map) => (
+            <li
+              key={map.id}
+              style={{
+                border: `1px solid ${map.id === activeMapId ? '#6366f1' : '#e2e8f0'}`,
+                borderRadius: 12,
+                padding: 12,
+                background: map.id === activeMapId ? '#eef2ff' : '#f8fafc',
+              }}
+            >
+              {renamingId === map.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(event) => setDraftName(event.target.value)}
+                  onBlur={() => commitRename(map.id)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') commitRename(map.id);
+                    if (event.key === 'Escape') setRenamingId(null);
+                  }}
+                  style={{ ...inputStyle, width: '100%', padding: '6px 8px' }}
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onOpen(map.id)}
+                  style={{
+                    border: 'none',
+                    background: 'transparent',
+                    padding: 0,
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    fontSize: 13,
+                    fontWeight: 600,
+                    color: '#1e293b',
+                  }}
+                >
+                  {map.name}
+                </button>
+              )}
+              <p style={{ marginTop: 4, fontSize: 12, color: '#64748b', lineHeight: 1.4 }}>
+                {map.sourceFileName ? `${map.sourceFileName} · ` : ''}
+                {map.nodeCount} nodes · generated {formatDate(map.generatedAt)}
+              </p>
+              <div style={{ marginTop: 8, display: 'flex', gap: 4 }}>
+                <button type="button" title="Open" onClick={() => onOpen(map.id)} style={iconButtonStyle}>
+                  <FolderOpen size={14} />
+                </button>
+                <button
+                  type="button"
+                  title="Rename"
+                  onClick={() => {
+                    setRenamingId(map.id);
+                    setDraftName(map.name);
+                  }}
+                  style={iconButtonStyle}
+                >
+                  <Pencil size={14} />
+                </button>
+                <button type="button" title="Duplicate" onClick={() => onDuplicate(map.id)} style={iconButtonStyle}>
+                  <Copy size={14} />
+                </button>
+                <button type="button" title="Delete" onClick={() => onDelete(map.id)} style={{ ...iconButtonStyle, color: '#be123c' }}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  width: 28,
+  height: 28,
+  borderRadius: 8,
+  border: 'none',
+  background: 'transparent',
+  color: '#475569',
+  cursor: 'pointer',
+};
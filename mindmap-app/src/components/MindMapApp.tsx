@@ -6,26 +6,154 @@ import ReactFlow, {
   Controls,
   MiniMap,
   ReactFlowInstance,
-  addEdge,
   useEdgesState,
   useNodesState,
   Connection,
   Edge,
+  EdgeChange,
   Node,
+  NodeChange,
+  OnSelectionChangeParams,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import { toJpeg, toPng } from 'html-to-image';
 import jsPDF from 'jspdf';
-import { UploadCloud, RefreshCcw, Wand2, FileDown, FileText, ChevronRight, CheckCircle2, Link } from 'lucide-react';
+import {
+  UploadCloud,
+  RefreshCcw,
+  Wand2,
+  FileDown,
+  FileText,
+  FileUp,
+  ChevronRight,
+  CheckCircle2,
+  Link,
+  ShieldCheck,
+} from 'lucide-react';
 import CustomNode, { MindMapNodeData } from './CustomNode';
-import { getLayoutedElements } from '@/lib/layout';
-import type { MindMapNode, MindMapEdge, MindMapPayload } from '@/lib/types';
+import MapLibrary from './MapLibrary';
+import HistoryPanel from './HistoryPanel';
+import CorrectionReview from './CorrectionReview';
+import BatchCorrectionPanel from './BatchCorrectionPanel';
+import EdgeEditor from './EdgeEditor';
+import ExportMenu from './ExportMenu';
+import LayoutMenu from './LayoutMenu';
+import NodeStructureActions from './NodeStructureActions';
+import SourcePassages from './SourcePassages';
+import StudyPanel from './StudyPanel';
+import QuizPanel from './QuizPanel';
+import CanvasToolbar from './CanvasToolbar';
+import CollaborationPanel from './CollaborationPanel';
+import PresenceCursors from './PresenceCursors';
+import CitationBadge from './CitationBadge';
+import ClaimChecks from './ClaimChecks';
+import { labelStyle, inputStyle, primaryButtonStyle, primaryGhostButtonStyle, secondaryButtonStyle } from './styles';
+import { isVerificationStale, nodeVerificationStatus } from '@/lib/claims';
+import { DEFAULT_LAYOUT, LAYOUT_LABELS, placeUnpositionedNodes, relayout, type LayoutAlgorithm } from '@/lib/layout';
+import { readEventStream } from '@/lib/stream';
+import { getMindMapStore } from '@/lib/storage';
+import { isValidMapId } from '@/lib/storage/types';
+import {
+  addCrossLink,
+  addNode,
+  createBlankNode,
+  deleteNodes,
+  descendantIds,
+  mergeExpansion,
+  mergeNodes,
+  removeEdges,
+  reparentNode,
+  setEdgeLabel,
+  type DeleteMode,
+} from '@/lib/graph';
+import { serializeMindMap, type ExportFormat } from '@/lib/export';
+import { buildFlashcards, type Flashcard } from '@/lib/study/cards';
+import { EMPTY_STUDY_PROGRESS, recordReview } from '@/lib/study/scheduler';
+import { exportDeck, type DeckExportFormat } from '@/lib/study/anki';
+import { quizPerformance, recordQuizAttempt, scoreQuiz, weakNodeIds } from '@/lib/study/quiz';
+import { childCounts, collapsedDescendantCounts, expandToDepth, hiddenByCollapse, nodeDepths, revealNode, setCollapsed } from '@/lib/collapse';
+import { connectCollab, loadCollabUser, saveCollabUser, PRESENCE_COLORS, type CollabConnection } from '@/lib/collab/client';
+import type { CollabStatus, CollabUser, Peer } from '@/lib/collab/types';
+import { EMPTY_FILTER, filterableTags, focusNodeIds, matchesFilter, searchNodes, type NodeFilter } from '@/lib/search';
+import { SOURCE_FILE_ACCEPT, SUPPORTED_SOURCES_LABEL, resolveSourceMimeType, sourceTitle } from '@/lib/sources';
+import {
+  IMPORT_FILE_ACCEPT,
+  ImportError,
+  formatImportIssue,
+  parseImport,
+  type ImportIssue,
+  type ImportedMindMap,
+} from '@/lib/import';
+import {
+  EMPTY_HISTORY,
+  createCommand,
+  jumpTo,
+  presentPayload,
+  recordCommand,
+  redo,
+  replayOnto,
+  undo,
+  type HistoryKind,
+  type HistoryState,
+} from '@/lib/history';
+import type {
+  AutoCorrectionProposal,
+  BatchAutoCorrectEvent,
+  ExpandNodeRequest,
+  MindMapNode,
+  MindMapEdge,
+  MindMapPayload,
+  GenerationEvent,
+  NodeExpansion,
+  Quiz,
+  QuizRequest,
+  ReviewGrade,
+  SavedMindMap,
+  SavedMindMapSummary,
+  StudyProgress,
+  VerificationEvent,
+  VerifiedContent,
+} from '@/lib/types';
 
-type UploadState = 'idle' | 'uploading' | 'verifying';
+type UploadState = 'idle' | 'uploading' | 'generating' | 'verifying';
+
+type ActiveMap = Omit<SavedMindMap, 'payload' | 'updatedAt'>;
+
+const AUTOSAVE_DELAY_MS = 600;
+
+type GenerationProgress = {
+  pageCount: number;
+  chunkCount: number;
+  draftedChunks: number;
+  verifiedCount: number;
+  total: number;
+};
 
 const nodeTypes = { custom: CustomNode };
 
-function convertNodes(nodes: MindMapNode[]): Node<MindMapNodeData>[] {
+type NodeDisplayState = {
+  pendingNodeIds: Set<string>;
+  reviewNodeIds: Set<string>;
+  weakNodeIds: Set<string>;
+  /** Nodes left out by the canvas filters or inside collapsed branches. */
+  hiddenNodeIds: Set<string>;
+  childCounts: Map<string, number>;
+  /** How many nodes each collapsed node hides. */
+  hiddenDescendants: Map<string, number>;
+  onToggleCollapse: (nodeId: string) => void;
+  /** Other participants of a shared session, by the node they have open. */
+  editorsByNode: Map<string, CollabUser[]>;
+  /** Nodes kept at full strength in focus mode; null when focus mode is off. */
+  focusIds: Set<string> | null;
+  searchMatchIds: Set<string>;
+  activeMatchId: string | null;
+};
+
+const DIMMED_OPACITY = 0.2;
+/** Minimum time between two pointer positions sent to a shared session. */
+const CURSOR_INTERVAL_MS = 50;
+
+function convertNodes(nodes: MindMapNode[], display: NodeDisplayState): Node<MindMapNodeData>[] {
   return nodes.map((node) => ({
     id: node.id,
     type: 'custom',
@@ -36,24 +164,50 @@ function convertNodes(nodes: MindMapNode[]): Node<MindMapNodeData>[] {
       tags: node.tags,
       citations: node.citations,
       verified: node.verified,
+      verificationStatus: nodeVerificationStatus(node),
+      claims: node.claims ?? [],
       autoCorrected: node.autoCorrected,
+      verificationPending: display.pendingNodeIds.has(node.id),
+      correctionPending: display.reviewNodeIds.has(node.id),
+      ungrounded: node.sourceSpans?.length === 0,
+      stale: isVerificationStale(node),
+      weak: display.weakNodeIds.has(node.id),
+      searchMatch:
+        display.activeMatchId === node.id ? 'active' : display.searchMatchIds.has(node.id) ? 'match' : undefined,
+      childCount: display.childCounts.get(node.id) ?? 0,
+      collapsed: node.collapsed,
+      hiddenDescendants: display.hiddenDescendants.get(node.id),
+      onToggleCollapse: display.onToggleCollapse,
+      editors: display.editorsByNode.get(node.id),
     },
-    position: { x: 0, y: 0 },
+    position: node.position ?? { x: 0, y: 0 },
+    // Edges to hidden nodes are hidden by React Flow along with them.
+    hidden: display.hiddenNodeIds.has(node.id),
+    style: display.focusIds && !display.focusIds.has(node.id) ? { opacity: DIMMED_OPACITY } : undefined,
   }));
 }
 
-function convertEdges(edges: MindMapEdge[]): Edge[] {
-  return edges.map((edge) => ({
-    id: edge.id,
-    source: edge.source,
-    target: edge.target,
-    label: edge.label,
-    type: 'smoothstep',
-    animated: false,
-  }));
+function convertEdges(edges: MindMapEdge[], focusIds: Set<string> | null): Edge[] {
+  return edges.map((edge) => {
+    const dimmed = focusIds !== null && !(focusIds.has(edge.source) && focusIds.has(edge.target));
+    const style = edge.kind === 'cross-link' ? { stroke: '#94a3b8', strokeDasharray: '6 4' } : undefined;
+    return {
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      label: edge.label,
+      type: edge.kind === 'cross-link' ? 'default' : 'smoothstep',
+      animated: false,
+      style: dimmed ? { ...style, opacity: DIMMED_OPACITY } : style,
+    };
+  });
+}
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
 }
 
-async function readFileAsFormData(file: File) {
+function readFileAsFormData(file: File) {
   const formData = new FormData();
   formData.append('file', file);
   return formData;
@@ -63,71 +217,742 @@ export default function MindMapApp() {
   const [uploadState, setUploadState] = useState<UploadState>('idle');
   const [error, setError] = useState<string | null>(null);
   const [mindMap, setMindMap] = useState<MindMapPayload | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [pendingNodeIds, setPendingNodeIds] = useState<Set<string>>(() => new Set());
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
+  const [activeMap, setActiveMap] = useState<ActiveMap | null>(null);
+  const [library, setLibrary] = useState<SavedMindMapSummary[]>([]);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [pendingCorrections, setPendingCorrections] = useState<Record<string, AutoCorrectionProposal>>({});
+  const [correctingNodeIds, setCorrectingNodeIds] = useState<Set<string>>(() => new Set());
+  const [expandingNodeIds, setExpandingNodeIds] = useState<Set<string>>(() => new Set());
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [batchFailures, setBatchFailures] = useState<Record<string, string>>({});
+  const [canvasSelectedIds, setCanvasSelectedIds] = useState<string[]>([]);
+  const [verifyOnImport, setVerifyOnImport] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  // The uploaded PDF is only kept for this session, so the viewer is offered
+  // for the map generated from it and not for maps reopened from the library.
+  const [sourceDocument, setSourceDocument] = useState<{ mapId: string; url: string } | null>(null);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [studyProgress, setStudyProgress] = useState<StudyProgress>(EMPTY_STUDY_PROGRESS);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [generatingQuiz, setGeneratingQuiz] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
+  const [nodeFilter, setNodeFilter] = useState<NodeFilter>(EMPTY_FILTER);
+  const [focusMode, setFocusMode] = useState(false);
+  // A `?collab=<map id>` link joins that map's shared session when the page loads.
+  const [collabMapId, setCollabMapId] = useState<string | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus | null>(null);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  /** Kept apart from `peers` so pointer movements don't re-render every node. */
+  const [peerEditors, setPeerEditors] = useState<{ nodeId: string; user: CollabUser }[]>([]);
+  const [collabUser, setCollabUser] = useState<CollabUser>(() =>
+    typeof window === 'undefined' ? { name: '', color: PRESENCE_COLORS[0] } : loadCollabUser(),
+  );
 
+  const store = useMemo(() => getMindMapStore(), []);
+  const lastSavedPayload = useRef<MindMapPayload | null>(null);
+  const lastSavedStudy = useRef<StudyProgress>(EMPTY_STUDY_PROGRESS);
+  const mindMapRef = useRef<MindMapPayload | null>(null);
+  /** Content sent to `/api/verify` per node, so edits made while it runs still count as stale. */
+  const verifyingContent = useRef(new Map<string, VerifiedContent>());
   const reactFlowWrapper = useRef<HTMLDivElement | null>(null);
-  const [nodes, setNodes, onNodesChange] = useNodesState<Node<MindMapNodeData>>([]);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const collabConnection = useRef<CollabConnection | null>(null);
+  const collabUserRef = useRef(collabUser);
+  /** Map to fill the room with if nobody has shared it yet; null to take whatever the room holds. */
+  const collabSeed = useRef<{ payload: MindMapPayload; name: string } | null>(null);
+  const lastCursorSent = useRef(0);
+  const [nodes, setNodes, onNodesChange] = useNodesState<MindMapNodeData>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
 
+  const reviewNodeIds = useMemo(() => new Set(Object.keys(pendingCorrections)), [pendingCorrections]);
+  const nodeQuizScores = useMemo(() => quizPerformance(studyProgress), [studyProgress]);
+  const weakNodes = useMemo(() => weakNodeIds(nodeQuizScores), [nodeQuizScores]);
+
   const selectedNode = useMemo(() => {
     if (!mindMap || !selectedNodeId) return null;
     return mindMap.nodes.find((node) => node.id === selectedNodeId) ?? null;
   }, [mindMap, selectedNodeId]);
 
+  const nodeTitle = useCallback(
+    (nodeId: string) => mindMap?.nodes.find((node) => node.id === nodeId)?.title ?? nodeId,
+    [mindMap],
+  );
+
+  const selectedEdge = useMemo(() => {
+    if (!mindMap || !selectedEdgeId) return null;
+    return mindMap.edges.find((edge) => edge.id === selectedEdgeId) ?? null;
+  }, [mindMap, selectedEdgeId]);
+
+  const hiddenNodeIds = useMemo(
+    () => new Set((mindMap?.nodes ?? []).filter((node) => !matchesFilter(node, nodeFilter)).map((node) => node.id)),
+    [mindMap, nodeFilter],
+  );
+  const collapseHiddenIds = useMemo(() => (mindMap ? hiddenByCollapse(mindMap) : new Set<string>()), [mindMap]);
+  const canvasHiddenIds = useMemo(
+    () => new Set([...hiddenNodeIds, ...collapseHiddenIds]),
+    [collapseHiddenIds, hiddenNodeIds],
+  );
+  const hiddenDescendants = useMemo(
+    () => (mindMap ? collapsedDescendantCounts(mindMap, collapseHiddenIds) : new Map<string, number>()),
+    [collapseHiddenIds, mindMap],
+  );
+  const nodeChildCounts = useMemo(() => (mindMap ? childCounts(mindMap) : new Map<string, number>()), [mindMap]);
+  const maxDepth = useMemo(() => (mindMap ? Math.max(0, ...nodeDepths(mindMap).values()) : 0), [mindMap]);
+  const filterTags = useMemo(() => filterableTags(mindMap?.nodes ?? []), [mindMap]);
+
+  // Nodes hidden by filters can't be panned to, so the search skips them. Matches in collapsed branches
+  // are kept; going to one expands the branch.
+  const searchMatches = useMemo(
+    () => searchNodes((mindMap?.nodes ?? []).filter((node) => !hiddenNodeIds.has(node.id)), searchQuery),
+    [hiddenNodeIds, mindMap, searchQuery],
+  );
+  const searchMatchIds = useMemo(() => new Set(searchMatches.map((match) => match.nodeId)), [searchMatches]);
+  const activeMatchId = searchMatches[activeMatchIndex]?.nodeId ?? null;
+
+  const editorsByNode = useMemo(() => {
+    const editors = new Map<string, CollabUser[]>();
+    peerEditors.forEach(({ nodeId, user }) => editors.set(nodeId, [...(editors.get(nodeId) ?? []), user]));
+    return editors;
+  }, [peerEditors]);
+
+  const focusIds = useMemo(
+    () => (focusMode && mindMap && selectedNodeId ? focusNodeIds(mindMap, selectedNodeId) : null),
+    [focusMode, mindMap, selectedNodeId],
+  );
+
+  useEffect(() => {
+    mindMapRef.current = mindMap;
+  }, [mindMap]);
+
+  /**
+   * Applies a user change to the map and records it for undo. Streaming
+   * updates from generation bypass this and are not undoable.
+   */
+  const commitChange = useCallback(
+    (kind: HistoryKind, label: string, update: (current: MindMapPayload) => MindMapPayload, coalesceKey?: string) => {
+      const current = mindMapRef.current;
+      if (!current) return;
+      const next = placeUnpositionedNodes(update(current));
+      if (next === current) return;
+      mindMapRef.current = next;
+      setMindMap(next);
+      // Sent straight away so a change from another participant can't arrive in between and overwrite it.
+      collabConnection.current?.update(next);
+      const command = createCommand(kind, label, current, next, coalesceKey);
+      setHistory((prev) => recordCommand(prev, command));
+    },
+    [],
+  );
+
+  /**
+   * Applies a change to what the canvas shows, such as expanding a branch to
+   * reveal a node, without recording it for undo.
+   */
+  const changeView = useCallback((update: (current: MindMapPayload) => MindMapPayload) => {
+    const current = mindMapRef.current;
+    if (!current) return;
+    const next = placeUnpositionedNodes(update(current));
+    if (next === current) return;
+    mindMapRef.current = next;
+    setMindMap(next);
+    collabConnection.current?.update(next);
+  }, []);
+
+  const toggleCollapse = useCallback(
+    (nodeId: string) => {
+      const collapsed = Boolean(mindMapRef.current?.nodes.find((node) => node.id === nodeId)?.collapsed);
+      commitChange('collapse', collapsed ? 'Expand branch' : 'Collapse branch', (current) =>
+        setCollapsed(current, [nodeId], !collapsed),
+      );
+    },
+    [commitChange],
+  );
+
+  const expandMapToDepth = useCallback(
+    (depth: number) => {
+      const label = Number.isFinite(depth) ? `Expand to depth ${depth}` : 'Expand all';
+      commitChange('collapse', label, (current) => expandToDepth(current, depth));
+    },
+    [commitChange],
+  );
+
   useEffect(() => {
     if (mindMap) {
-      const rfNodes = convertNodes(mindMap.nodes);
-      const rfEdges = convertEdges(mindMap.edges);
-      const layoutedNodes = getLayoutedElements(rfNodes, rfEdges);
-      setNodes(layoutedNodes);
-      setEdges(rfEdges);
+      setNodes(
+        convertNodes(mindMap.nodes, {
+          pendingNodeIds,
+          reviewNodeIds,
+          weakNodeIds: weakNodes,
+          hiddenNodeIds: canvasHiddenIds,
+          childCounts: nodeChildCounts,
+          hiddenDescendants,
+          onToggleCollapse: toggleCollapse,
+          editorsByNode,
+          focusIds,
+          searchMatchIds,
+          activeMatchId,
+        }),
+      );
+      setEdges(convertEdges(mindMap.edges, focusIds));
     }
-  }, [mindMap, setEdges, setNodes]);
+  }, [
+    activeMatchId,
+    canvasHiddenIds,
+    editorsByNode,
+    focusIds,
+    hiddenDescendants,
+    mindMap,
+    nodeChildCounts,
+    pendingNodeIds,
+    reviewNodeIds,
+    searchMatchIds,
+    setEdges,
+    setNodes,
+    toggleCollapse,
+    weakNodes,
+  ]);
+
+  const restoreFromHistory = useCallback(
+    (result: { state: HistoryState; payload: MindMapPayload } | null) => {
+      if (!result) return;
+      const current = mindMapRef.current;
+      const from = presentPayload(history);
+      // In a shared session the map also holds other people's edits, so only the user's own change is reverted.
+      const payload = collabMapId && current && from ? replayOnto(current, from, result.payload) : result.payload;
+      mindMapRef.current = payload;
+      setMindMap(payload);
+      setHistory(result.state);
+      collabConnection.current?.update(payload);
+    },
+    [collabMapId, history],
+  );
+
+  const undoChange = useCallback(() => restoreFromHistory(undo(history)), [history, restoreFromHistory]);
+  const redoChange = useCallback(() => restoreFromHistory(redo(history)), [history, restoreFromHistory]);
+  const jumpToChange = useCallback(
+    (commandId: string | null) => restoreFromHistory(jumpTo(history, commandId)),
+    [history, restoreFromHistory],
+  );
+
+  const leaveSession = useCallback(() => {
+    collabSeed.current = null;
+    setCollabMapId(null);
+    setCollabStatus(null);
+    setPeers([]);
+    setPeerEditors([]);
+    const url = new URL(window.location.href);
+    url.searchParams.delete('collab');
+    window.history.replaceState(null, '', url);
+  }, []);
+
+  const startSession = useCallback(() => {
+    if (!activeMap || !mindMapRef.current) return;
+    collabSeed.current = { payload: mindMapRef.current, name: activeMap.name };
+    setCollabMapId(activeMap.id);
+    const url = new URL(window.location.href);
+    url.searchParams.set('collab', activeMap.id);
+    window.history.replaceState(null, '', url);
+  }, [activeMap]);
+
+  /**
+   * Takes in the shared map after someone else changed it, or when joining a
+   * map this browser doesn't have. Nodes the other side left unplaced, for
+   * instance inside a branch only they had collapsed, are placed here.
+   */
+  const applyRemoteMap = useCallback(
+    (remote: MindMapPayload, name: string | null) => {
+      if (!collabMapId) return;
+      const payload = placeUnpositionedNodes(remote);
+      mindMapRef.current = payload;
+      setMindMap(payload);
+      setActiveMap((prev) => {
+        if (prev?.id !== collabMapId) {
+          return { id: collabMapId, name: name ?? 'Shared map', createdAt: new Date().toISOString() };
+        }
+        return name && name !== prev.name ? { ...prev, name } : prev;
+      });
+    },
+    [collabMapId],
+  );
+
+  const updatePeers = useCallback((next: Peer[]) => {
+    setPeers(next);
+    const editing = next.flatMap((peer) => (peer.editingNodeId ? [{ nodeId: peer.editingNodeId, user: peer.user }] : []));
+    setPeerEditors((prev) => (JSON.stringify(prev) === JSON.stringify(editing) ? prev : editing));
+  }, []);
+
+  useEffect(() => {
+    if (!collabMapId) return;
+    const connection = connectCollab({
+      mapId: collabMapId,
+      user: collabUserRef.current,
+      initial: collabSeed.current,
+      onRemoteChange: applyRemoteMap,
+      onPeersChange: updatePeers,
+      onStatusChange: setCollabStatus,
+    });
+    collabConnection.current = connection;
+    return () => {
+      connection.close();
+      collabConnection.current = null;
+    };
+  }, [applyRemoteMap, collabMapId, updatePeers]);
+
+  // Changes that don't go through commitChange, such as verification results, reach the session here.
+  useEffect(() => {
+    if (mindMap) collabConnection.current?.update(mindMap);
+  }, [mindMap]);
+
+  useEffect(() => {
+    if (activeMap?.name) collabConnection.current?.rename(activeMap.name);
+  }, [activeMap?.name]);
+
+  useEffect(() => {
+    collabUserRef.current = collabUser;
+    saveCollabUser(collabUser);
+    collabConnection.current?.setPresence({ user: collabUser });
+  }, [collabUser]);
+
+  // The node open in the editor is what others see as "being edited".
+  useEffect(() => {
+    collabConnection.current?.setPresence({ editingNodeId: selectedNodeId });
+  }, [collabMapId, selectedNodeId]);
+
+  const onCanvasMouseMove = useCallback(
+    (event: MouseEvent<HTMLDivElement>) => {
+      const connection = collabConnection.current;
+      if (!connection || !reactFlowInstance || event.timeStamp - lastCursorSent.current < CURSOR_INTERVAL_MS) return;
+      lastCursorSent.current = event.timeStamp;
+      connection.setPresence({ cursor: reactFlowInstance.screenToFlowPosition({ x: event.clientX, y: event.clientY }) });
+    },
+    [reactFlowInstance],
+  );
+
+  const shareUrl = useMemo(() => {
+    if (!collabMapId || typeof window === 'undefined') return null;
+    return `${window.location.origin}${window.location.pathname}?collab=${collabMapId}`;
+  }, [collabMapId]);
+
+  const onCanvasMouseLeave = useCallback(() => collabConnection.current?.setPresence({ cursor: null }), []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'f' && searchInputRef.current) {
+        event.preventDefault();
+        searchInputRef.current.focus();
+        searchInputRef.current.select();
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoChange();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoChange();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [redoChange, undoChange]);
 
   const onConnect = useCallback(
     (connection: Connection) => {
-      setEdges((eds) => addEdge({ ...connection, type: 'smoothstep', animated: false }, eds));
+      const { source, target } = connection;
+      if (!source || !target) return;
+      commitChange('connect', 'Connect nodes', (current) => addCrossLink(current, source, target));
+    },
+    [commitChange],
+  );
+
+  const handleNodesChange = useCallback(
+    (changes: NodeChange[]) => {
+      const removedIds = changes.flatMap((change) => (change.type === 'remove' ? [change.id] : []));
+      if (removedIds.length > 0) {
+        const title = mindMapRef.current?.nodes.find((node) => node.id === removedIds[0])?.title;
+        const label = removedIds.length === 1 ? `Delete “${title ?? removedIds[0]}”` : `Delete ${removedIds.length} nodes`;
+        commitChange('delete', label, (current) => deleteNodes(current, removedIds, 'node'));
+      }
+      onNodesChange(changes.filter((change) => change.type !== 'remove'));
+    },
+    [commitChange, onNodesChange],
+  );
+
+  const handleEdgesChange = useCallback(
+    (changes: EdgeChange[]) => {
+      const removedIds = changes.flatMap((change) => (change.type === 'remove' ? [change.id] : []));
+      if (removedIds.length > 0) {
+        const label = removedIds.length === 1 ? 'Delete connection' : `Delete ${removedIds.length} connections`;
+        commitChange('delete', label, (current) => removeEdges(current, removedIds));
+      }
+      onEdgesChange(changes.filter((change) => change.type !== 'remove'));
+    },
+    [commitChange, onEdgesChange],
+  );
+
+  const relayoutMap = useCallback(
+    (algorithm: LayoutAlgorithm) => {
+      commitChange('layout', `Re-layout as ${LAYOUT_LABELS[algorithm].toLowerCase()}`, (current) =>
+        relayout(current, algorithm),
+      );
+      requestAnimationFrame(() => reactFlowInstance?.fitView({ padding: 0.2, duration: 800 }));
+    },
+    [commitChange, reactFlowInstance],
+  );
+
+  const dropTargetId = useRef<string | null>(null);
+
+  /** The node under the pointer while a single node is dragged; dropping there moves the dragged node under it. */
+  const dropTargetAt = useCallback(
+    (event: MouseEvent, dragged: Node<MindMapNodeData>, draggedNodes: Node<MindMapNodeData>[]): string | null => {
+      if (!reactFlowInstance || draggedNodes.length !== 1) return null;
+      const point = reactFlowInstance.screenToFlowPosition({ x: event.clientX, y: event.clientY });
+      const hit = reactFlowInstance
+        .getIntersectingNodes({ x: point.x, y: point.y, width: 1, height: 1 }, true)
+        .find((node) => node.id !== dragged.id);
+      return hit?.id ?? null;
+    },
+    [reactFlowInstance],
+  );
+
+  const highlightDropTarget = useCallback(
+    (targetId: string | null) => {
+      if (dropTargetId.current === targetId) return;
+      dropTargetId.current = targetId;
+      setNodes((current) =>
+        current.map((node) =>
+          Boolean(node.data.dropTarget) === (node.id === targetId)
+            ? node
+            : { ...node, data: { ...node.data, dropTarget: node.id === targetId } },
+        ),
+      );
+    },
+    [setNodes],
+  );
+
+  const onNodeDrag = useCallback(
+    (event: MouseEvent, node: Node<MindMapNodeData>, draggedNodes: Node<MindMapNodeData>[]) => {
+      highlightDropTarget(dropTargetAt(event, node, draggedNodes));
+    },
+    [dropTargetAt, highlightDropTarget],
+  );
+
+  const onNodeDragStop = useCallback(
+    (event: MouseEvent, dragged: Node<MindMapNodeData>, draggedNodes: Node<MindMapNodeData>[]) => {
+      const targetId = dropTargetAt(event, dragged, draggedNodes);
+      highlightDropTarget(null);
+      const snapshot = mindMapRef.current;
+      // Dropping onto a node moves the dragged node under it, unless that would create a cycle.
+      if (targetId && snapshot && reparentNode(snapshot, dragged.id, targetId) !== snapshot) {
+        const targetTitle = snapshot.nodes.find((node) => node.id === targetId)?.title ?? targetId;
+        commitChange('reparent', `Move “${dragged.data.title}” under “${targetTitle}”`, (current) =>
+          reparentNode(current, dragged.id, targetId),
+        );
+        return;
+      }
+
+      const positions = new Map(draggedNodes.map((node) => [node.id, { x: node.position.x, y: node.position.y }]));
+      const label = draggedNodes.length === 1 ? `Move “${draggedNodes[0].data.title}”` : `Move ${draggedNodes.length} nodes`;
+      commitChange('move', label, (current) => ({
+        ...current,
+        nodes: current.nodes.map((node) => (positions.has(node.id) ? { ...node, position: positions.get(node.id) } : node)),
+      }));
     },
-    [setEdges],
+    [commitChange, dropTargetAt, highlightDropTarget],
   );
 
+  const onSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+    setCanvasSelectedIds(selected.map((node) => node.id));
+  }, []);
+
   const onNodeClick = useCallback((_event: MouseEvent, node: Node<MindMapNodeData>) => {
     setSelectedNodeId(node.id);
+    setSelectedEdgeId(null);
+  }, []);
+
+  const onEdgeClick = useCallback((_event: MouseEvent, edge: Edge) => {
+    setSelectedEdgeId(edge.id);
+    setSelectedNodeId(null);
   }, []);
 
   const resetSelection = useCallback(() => {
     setSelectedNodeId(null);
   }, []);
 
-  const handleUpload = useCallback(
-    async (file: File) => {
+  const applyGenerationEvent = useCallback((event: GenerationEvent) => {
+    switch (event.type) {
+      case 'extracted':
+        setUploadState('generating');
+        setProgress({
+          pageCount: event.pageCount,
+          chunkCount: event.chunkCount,
+          draftedChunks: 0,
+          verifiedCount: 0,
+          total: 0,
+        });
+        break;
+      case 'chunk-drafted':
+        setProgress((prev) => (prev ? { ...prev, draftedChunks: event.index + 1 } : prev));
+        break;
+      case 'draft':
+        setUploadState('verifying');
+        setMindMap(placeUnpositionedNodes(event.payload));
+        setHistory(EMPTY_HISTORY);
+        setStudyProgress(EMPTY_STUDY_PROGRESS);
+        setQuiz(null);
+        setPendingCorrections({});
+        setBatchFailures({});
+        setSelectedNodeId(event.payload.nodes[0]?.id ?? null);
+        setPendingNodeIds(new Set(event.payload.nodes.map((node) => node.id)));
+        setProgress((prev) => ({
+          pageCount: prev?.pageCount ?? 0,
+          chunkCount: prev?.chunkCount ?? 1,
+          draftedChunks: prev?.chunkCount ?? 1,
+          verifiedCount: 0,
+          total: event.payload.nodes.length,
+        }));
+        break;
+      case 'node-verified':
+        setMindMap((prev) => {
+          if (!prev) return prev;
+          const nodes = prev.nodes.map((node) =>
+            node.id === event.nodeId
+              ? {
+                  ...node,
+                  citations: event.citations,
+                  claims: event.claims,
+                  verificationStatus: event.status,
+                  verified: event.verified,
+                  verifiedContent: verifyingContent.current.get(node.id) ?? { title: node.title, summary: node.summary },
+                }
+              : node,
+          );
+          return { ...prev, nodes };
+        });
+        setPendingNodeIds((prev) => {
+          const next = new Set(prev);
+          next.delete(event.nodeId);
+          return next;
+        });
+        setProgress((prev) => (prev ? { ...prev, verifiedCount: event.index + 1, total: event.total } : prev));
+        break;
+      case 'complete':
+        setMindMap((prev) => (prev ? { ...prev, generatedAt: event.generatedAt } : prev));
+        break;
+      case 'error':
+        throw new Error(event.error);
+    }
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (sourceDocument) URL.revokeObjectURL(sourceDocument.url);
+    },
+    [sourceDocument],
+  );
+
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setLibrary(await store.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load saved maps.');
+    }
+  }, [store]);
+
+  useEffect(() => {
+    let cancelled = false;
+    store
+      .list()
+      .then((maps) => {
+        if (!cancelled) setLibrary(maps);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load saved maps.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  useEffect(() => {
+    if (
+      !mindMap ||
+      !activeMap ||
+      uploadState !== 'idle' ||
+      (mindMap === lastSavedPayload.current && studyProgress === lastSavedStudy.current)
+    ) {
+      return;
+    }
+    const timer = window.setTimeout(async () => {
+      try {
+        await store.save({ ...activeMap, updatedAt: new Date().toISOString(), payload: mindMap, study: studyProgress });
+        lastSavedPayload.current = mindMap;
+        lastSavedStudy.current = studyProgress;
+        await refreshLibrary();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to save map.');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [activeMap, mindMap, refreshLibrary, store, studyProgress, uploadState]);
+
+  const generateFromSource = useCallback(
+    async (formData: FormData, source: { id: string; name: string; sourceFileName?: string }) => {
+      leaveSession();
       setUploadState('uploading');
       setError(null);
+      setImportIssues([]);
+      setProgress(null);
+      setActiveMap({
+        id: source.id,
+        name: source.name,
+        ...(source.sourceFileName ? { sourceFileName: source.sourceFileName } : {}),
+        createdAt: new Date().toISOString(),
+      });
       try {
-        const formData = await readFileAsFormData(file);
         const response = await fetch('/api/generate', {
           method: 'POST',
           body: formData,
         });
 
-        if (!response.ok) {
+        if (!response.ok || !response.body) {
           const payload = await response.json();
-          throw new Error(payload?.error ?? 'Unable to process PDF.');
+          throw new Error(payload?.error ?? 'Unable to process source.');
         }
 
-        setUploadState('verifying');
-        const payload = (await response.json()) as MindMapPayload;
-        setMindMap(payload);
-        setSelectedNodeId(payload.nodes[0]?.id ?? null);
+        for await (const event of readEventStream<GenerationEvent>(response.body)) {
+          applyGenerationEvent(event);
+        }
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to process upload.';
         setError(message);
       } finally {
         setUploadState('idle');
+        setProgress(null);
+        setPendingNodeIds(new Set());
       }
     },
-    [],
+    [applyGenerationEvent, leaveSession],
+  );
+
+  const handleUpload = useCallback(
+    (file: File) => {
+      const id = crypto.randomUUID();
+      if (resolveSourceMimeType(file.type, file.name) === 'application/pdf') {
+        setSourceDocument({ mapId: id, url: URL.createObjectURL(file) });
+      }
+      return generateFromSource(readFileAsFormData(file), {
+        id,
+        name: sourceTitle(file.name) || 'Untitled map',
+        sourceFileName: file.name,
+      });
+    },
+    [generateFromSource],
+  );
+
+  const submitPastedText = useCallback(() => {
+    const text = pastedText.trim();
+    if (!text) return;
+    const formData = new FormData();
+    formData.append('text', text);
+    void generateFromSource(formData, { id: crypto.randomUUID(), name: 'Pasted notes' });
+  }, [generateFromSource, pastedText]);
+
+  const verifyNodes = useCallback(
+    async (targets: MindMapNode[]) => {
+      if (targets.length === 0) return;
+      verifyingContent.current = new Map(
+        targets.map((node) => [node.id, { title: node.title, summary: node.summary }]),
+      );
+      setUploadState('verifying');
+      setPendingNodeIds(new Set(targets.map((node) => node.id)));
+      setProgress({ pageCount: 0, chunkCount: 1, draftedChunks: 1, verifiedCount: 0, total: targets.length });
+      try {
+        const response = await fetch('/api/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            nodes: targets.map((node) => ({ id: node.id, title: node.title, summary: node.summary })),
+          }),
+        });
+        if (!response.ok || !response.body) {
+          const payload = await response.json();
+          throw new Error(payload?.error ?? 'Verification failed.');
+        }
+
+        for await (const event of readEventStream<VerificationEvent>(response.body)) {
+          applyGenerationEvent(event);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Verification failed.');
+      } finally {
+        verifyingContent.current.clear();
+        setUploadState('idle');
+        setProgress(null);
+        setPendingNodeIds(new Set());
+      }
+    },
+    [applyGenerationEvent],
+  );
+
+  const handleImport = useCallback(
+    async (file: File) => {
+      setError(null);
+      setImportIssues([]);
+
+      let imported: ImportedMindMap;
+      try {
+        imported = parseImport(file.name, await file.text());
+      } catch (err) {
+        setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+        if (err instanceof ImportError && err.issues.length > 1) {
+          setImportIssues(err.issues);
+        }
+        return;
+      }
+
+      leaveSession();
+      setActiveMap({
+        id: crypto.randomUUID(),
+        name: imported.name,
+        sourceFileName: file.name,
+        createdAt: new Date().toISOString(),
+      });
+      setMindMap(placeUnpositionedNodes(imported.payload));
+      setHistory(EMPTY_HISTORY);
+      setStudyProgress(EMPTY_STUDY_PROGRESS);
+      setQuiz(null);
+      setPendingCorrections({});
+      setBatchFailures({});
+      setSelectedNodeId(imported.payload.nodes[0]?.id ?? null);
+
+      if (verifyOnImport) {
+        await verifyNodes(imported.payload.nodes);
+      }
+    },
+    [leaveSession, verifyNodes, verifyOnImport],
+  );
+
+  const onImportInputChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (file) {
+        void handleImport(file);
+        event.target.value = '';
+      }
+    },
+    [handleImport],
   );
 
   const onDrop = useCallback(
@@ -185,22 +1010,398 @@ export default function MindMapApp() {
     [],
   );
 
+  const exportStructured = useCallback(
+    (format: ExportFormat) => {
+      if (!mindMap) return;
+      const file = serializeMindMap(mindMap, activeMap?.name ?? 'Mind map', format);
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const link = document.createElement('a');
+      link.download = file.fileName;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    [activeMap, mindMap],
+  );
+
+  const flashcards = useMemo(() => (mindMap ? buildFlashcards(mindMap) : []), [mindMap]);
+
+  const reviewFlashcard = useCallback((card: Flashcard, grade: ReviewGrade) => {
+    setStudyProgress((prev) => recordReview(prev, card, grade, new Date()));
+  }, []);
+
+  /**
+   * Selects a node and pans the canvas to it, for links from outside the
+   * canvas. A node inside a collapsed branch is revealed first; that is not
+   * an undo step, so stepping through search results leaves the history alone.
+   */
+  const showNodeOnCanvas = useCallback(
+    (nodeId: string) => {
+      setSelectedNodeId(nodeId);
+      setSelectedEdgeId(null);
+      changeView((current) => revealNode(current, nodeId));
+      const node = reactFlowInstance?.getNode(nodeId);
+      const position = mindMapRef.current?.nodes.find((candidate) => candidate.id === nodeId)?.position ?? node?.position;
+      if (!reactFlowInstance || !position) return;
+      reactFlowInstance.setCenter(position.x + (node?.width ?? 0) / 2, position.y + (node?.height ?? 0) / 2, {
+        zoom: Math.max(reactFlowInstance.getZoom(), 1),
+        duration: 600,
+      });
+    },
+    [changeView, reactFlowInstance],
+  );
+
+  const changeSearchQuery = useCallback((query: string) => {
+    setSearchQuery(query);
+    setActiveMatchIndex(-1);
+  }, []);
+
+  const stepSearchMatch = useCallback(
+    (direction: 1 | -1) => {
+      if (searchMatches.length === 0) return;
+      const index =
+        activeMatchIndex < 0
+          ? direction === 1
+            ? 0
+            : searchMatches.length - 1
+          : (activeMatchIndex + direction + searchMatches.length) % searchMatches.length;
+      setActiveMatchIndex(index);
+      showNodeOnCanvas(searchMatches[index].nodeId);
+    },
+    [activeMatchIndex, searchMatches, showNodeOnCanvas],
+  );
+
+  const exportFlashcards = useCallback(
+    async (format: DeckExportFormat) => {
+      try {
+        const file = await exportDeck(flashcards, activeMap?.name ?? 'Mind map', format);
+        const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+        const link = document.createElement('a');
+        link.download = file.fileName;
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to export flashcards.');
+      }
+    },
+    [activeMap, flashcards],
+  );
+
   const regenerateMindMap = useCallback(() => {
+    leaveSession();
     setSelectedNodeId(null);
     setMindMap(null);
+    setActiveMap(null);
+    setHistory(EMPTY_HISTORY);
+    setStudyProgress(EMPTY_STUDY_PROGRESS);
+    setQuiz(null);
+    setPendingCorrections({});
+    setBatchFailures({});
+  }, [leaveSession]);
+
+  const showSavedMap = useCallback((saved: SavedMindMap) => {
+    const { payload } = saved;
+    lastSavedPayload.current = payload;
+    setActiveMap({ id: saved.id, name: saved.name, sourceFileName: saved.sourceFileName, createdAt: saved.createdAt });
+    setMindMap(placeUnpositionedNodes(payload));
+    setHistory(EMPTY_HISTORY);
+    lastSavedStudy.current = saved.study ?? EMPTY_STUDY_PROGRESS;
+    setStudyProgress(lastSavedStudy.current);
+    setQuiz(null);
+    setPendingCorrections({});
+    setBatchFailures({});
+    setSelectedNodeId(payload.nodes[0]?.id ?? null);
+    setError(null);
   }, []);
 
+  const openSavedMap = useCallback(
+    async (id: string) => {
+      try {
+        const saved = await store.get(id);
+        if (!saved) throw new Error('That map no longer exists.');
+        if (id !== collabMapId) leaveSession();
+        showSavedMap(saved);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to open map.');
+      }
+    },
+    [collabMapId, leaveSession, showSavedMap, store],
+  );
+
+  // Joining from a shared link starts from this browser's saved copy, if any, so its study progress is kept.
+  useEffect(() => {
+    const mapId = new URLSearchParams(window.location.search).get('collab');
+    if (!mapId || !isValidMapId(mapId)) return;
+    let cancelled = false;
+    store
+      .get(mapId)
+      .catch(() => null)
+      .then((saved) => {
+        if (cancelled) return;
+        if (saved) {
+          showSavedMap(saved);
+          collabSeed.current = { payload: saved.payload, name: saved.name };
+        }
+        setCollabMapId(mapId);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showSavedMap, store]);
+
+  const renameSavedMap = useCallback(
+    async (id: string, name: string) => {
+      try {
+        const saved = await store.get(id);
+        if (!saved) return;
+        await store.save({ ...saved, name, updatedAt: new Date().toISOString() });
+        setActiveMap((prev) => (prev?.id === id ? { ...prev, name } : prev));
+        await refreshLibrary();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to rename map.');
+      }
+    },
+    [refreshLibrary, store],
+  );
+
+  const duplicateSavedMap = useCallback(
+    async (id: string) => {
+      try {
+        const saved = await store.get(id);
+        if (!saved) return;
+        const now = new Date().toISOString();
+        await store.save({ ...saved, id: crypto.randomUUID(), name: `${saved.name} (copy)`, createdAt: now, updatedAt: now });
+        await refreshLibrary();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to duplicate map.');
+      }
+    },
+    [refreshLibrary, store],
+  );
+
+  const deleteSavedMap = useCallback(
+    async (id: string) => {
+      if (!window.confirm('Delete this map from the library? This cannot be undone.')) return;
+      try {
+        await store.remove(id);
+        if (activeMap?.id === id) {
+          leaveSession();
+          setActiveMap(null);
+          setMindMap(null);
+          setHistory(EMPTY_HISTORY);
+          setStudyProgress(EMPTY_STUDY_PROGRESS);
+          setQuiz(null);
+          setPendingCorrections({});
+          setBatchFailures({});
+          setSelectedNodeId(null);
+        }
+        await refreshLibrary();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to delete map.');
+      }
+    },
+    [activeMap, leaveSession, refreshLibrary, store],
+  );
+
   const updateNode = useCallback(
-    (updated: MindMapNode) => {
-      setMindMap((prev) => {
-        if (!prev) return prev;
-        const nodes = prev.nodes.map((node) => (node.id === updated.id ? updated : node));
-        return { ...prev, nodes };
+    (kind: HistoryKind, label: string, updated: MindMapNode, coalesceKey?: string) => {
+      commitChange(
+        kind,
+        label,
+        (current) => ({
+          ...current,
+          nodes: current.nodes.map((node) => (node.id === updated.id ? updated : node)),
+        }),
+        coalesceKey,
+      );
+    },
+    [commitChange],
+  );
+
+  const addRelativeNode = useCallback(
+    (relation: 'child' | 'sibling') => {
+      if (!selectedNode) return;
+      // A child sits one importance level below its parent; a sibling shares the parents (a new root for roots).
+      const node =
+        relation === 'child'
+          ? createBlankNode([selectedNode.id], selectedNode.importance - 1)
+          : createBlankNode([...selectedNode.parentIds], selectedNode.importance);
+      commitChange('add', `Add ${relation} of “${selectedNode.title}”`, (current) => addNode(current, node));
+      setSelectedNodeId(node.id);
+    },
+    [commitChange, selectedNode],
+  );
+
+  /**
+   * Asks the model for children of the selected node, merges them under it as
+   * one undoable change and verifies the nodes that were added.
+   */
+  const expandSelectedNode = useCallback(async () => {
+    const current = mindMapRef.current;
+    if (!selectedNode || !current) return;
+    const nodeId = selectedNode.id;
+    const byId = new Map(current.nodes.map((node) => [node.id, node]));
+    const ancestors: MindMapNode[] = [];
+    for (let parent = byId.get(selectedNode.parentIds[0] ?? ''); parent; parent = byId.get(parent.parentIds[0] ?? '')) {
+      if (parent.id === nodeId || ancestors.includes(parent)) break;
+      ancestors.unshift(parent);
+    }
+    const request: ExpandNodeRequest = {
+      node: {
+        id: nodeId,
+        title: selectedNode.title,
+        summary: selectedNode.summary,
+        importance: selectedNode.importance,
+        tags: selectedNode.tags,
+      },
+      ancestors: ancestors.map((node) => ({ title: node.title, summary: node.summary })),
+      existingChildren: current.nodes.filter((node) => node.parentIds.includes(nodeId)).map((node) => node.title),
+      passages: selectedNode.sourceSpans?.map((span) => span.text) ?? [],
+    };
+
+    setError(null);
+    setExpandingNodeIds((prev) => new Set(prev).add(nodeId));
+    try {
+      const response = await fetch('/api/expand', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const payload = await response.json();
+        throw new Error(payload?.error ?? 'Expansion failed.');
+      }
+      const expansion = (await response.json()) as NodeExpansion;
+      const before = new Set(mindMapRef.current?.nodes.map((node) => node.id));
+      commitChange('expand', `Expand “${selectedNode.title}”`, (latest) =>
+        setCollapsed(mergeExpansion(latest, nodeId, expansion), [nodeId], false),
+      );
+      const added = mindMapRef.current?.nodes.filter((node) => !before.has(node.id)) ?? [];
+      if (added.length === 0) {
+        setError(`The model found nothing new to add under “${selectedNode.title}”.`);
+        return;
+      }
+      await verifyNodes(added);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Expansion failed.');
+    } finally {
+      setExpandingNodeIds((prev) => {
+        const next = new Set(prev);
+        next.delete(nodeId);
+        return next;
       });
+    }
+  }, [commitChange, selectedNode, verifyNodes]);
+
+  const deleteSelectedNode = useCallback(
+    (mode: DeleteMode) => {
+      if (!selectedNode) return;
+      const label = mode === 'subtree' ? `Delete “${selectedNode.title}” and its subtree` : `Delete “${selectedNode.title}”`;
+      commitChange('delete', label, (current) => deleteNodes(current, [selectedNode.id], mode));
+      setSelectedNodeId(null);
     },
-    [],
+    [commitChange, selectedNode],
+  );
+
+  const mergeIntoSelectedNode = useCallback(
+    (otherId: string) => {
+      if (!selectedNode) return;
+      commitChange('merge', `Merge “${nodeTitle(otherId)}” into “${selectedNode.title}”`, (current) =>
+        mergeNodes(current, selectedNode.id, otherId),
+      );
+    },
+    [commitChange, nodeTitle, selectedNode],
+  );
+
+  const handleEdgeLabelChange = useCallback(
+    (label: string) => {
+      if (!selectedEdge) return;
+      commitChange(
+        'edit',
+        label.trim() ? 'Edit connection label' : 'Remove connection label',
+        (current) => setEdgeLabel(current, selectedEdge.id, label),
+        `${selectedEdge.id}:label`,
+      );
+    },
+    [commitChange, selectedEdge],
+  );
+
+  const deleteSelectedEdge = useCallback(() => {
+    if (!selectedEdge) return;
+    commitChange('delete', 'Delete connection', (current) => removeEdges(current, [selectedEdge.id]));
+    setSelectedEdgeId(null);
+  }, [commitChange, selectedEdge]);
+
+  const selectedDescendantCount = useMemo(
+    () => (mindMap && selectedNode ? descendantIds(mindMap, selectedNode.id).size : 0),
+    [mindMap, selectedNode],
+  );
+
+  /** Quizzes the selected node and everything below it; the node goes first so the prompt treats it as the root. */
+  const generateBranchQuiz = useCallback(async () => {
+    const current = mindMapRef.current;
+    if (!selectedNode || !current) return;
+    const below = descendantIds(current, selectedNode.id);
+    const branch = [selectedNode, ...current.nodes.filter((node) => below.has(node.id))];
+    const request: QuizRequest = {
+      nodes: branch.map((node) => ({ id: node.id, title: node.title, summary: node.summary, citations: node.citations })),
+    };
+
+    setError(null);
+    setGeneratingQuiz(true);
+    try {
+      const response = await fetch('/api/quiz', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const payload = await response.json();
+        throw new Error(payload?.error ?? 'Quiz generation failed.');
+      }
+      setQuiz((await response.json()) as Quiz);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Quiz generation failed.');
+    } finally {
+      setGeneratingQuiz(false);
+    }
+  }, [selectedNode]);
+
+  const submitQuiz = useCallback(
+    (choices: Record<string, number>) => {
+      if (!quiz) return;
+      setStudyProgress((prev) => recordQuizAttempt(prev, scoreQuiz(quiz, choices, new Date())));
+    },
+    [quiz],
+  );
+
+  const weakNodeSummaries = useMemo(
+    () =>
+      (mindMap?.nodes ?? [])
+        .filter((node) => weakNodes.has(node.id))
+        .map((node) => ({
+          nodeId: node.id,
+          title: node.title,
+          ...(nodeQuizScores.get(node.id) ?? { correct: 0, total: 0 }),
+        })),
+    [mindMap, nodeQuizScores, weakNodes],
   );
 
+  /** Merge candidates for the selected node: same-titled nodes first, then the rest alphabetically. */
+  const mergeCandidates = useMemo(() => {
+    if (!mindMap || !selectedNode) return [];
+    const key = selectedNode.title.trim().toLowerCase();
+    return mindMap.nodes
+      .filter((node) => node.id !== selectedNode.id)
+      .map((node) => ({ id: node.id, title: node.title }))
+      .sort(
+        (a, b) =>
+          Number(b.title.trim().toLowerCase() === key) - Number(a.title.trim().toLowerCase() === key) ||
+          a.title.localeCompare(b.title),
+      );
+  }, [mindMap, selectedNode]);
+
   const handleNodeFieldChange = useCallback(
     (field: 'title' | 'summary' | 'importance' | 'tags', value: string) => {
       if (!selectedNode) return;
@@ -216,13 +1417,15 @@ export default function MindMapApp() {
                 .filter(Boolean)
             : value,
       };
-      updateNode(nextNode);
+      updateNode('edit', `Edit ${field} of “${selectedNode.title}”`, nextNode, `${selectedNode.id}:${field}`);
     },
     [selectedNode, updateNode],
   );
 
   const autoCorrectSelectedNode = useCallback(async () => {
     if (!selectedNode) return;
+    const nodeId = selectedNode.id;
+    setCorrectingNodeIds((prev) => new Set(prev).add(nodeId));
     try {
       const response = await fetch('/api/autocorrect', {
         method: 'POST',
@@ -233,18 +1436,117 @@ export default function MindMapApp() {
         const payload = await response.json();
         throw new Error(payload?.error ?? 'Autocorrect failed.');
       }
-      const payload = (await response.json()) as { summary: string; tags: string[] };
-      updateNode({
-        ...selectedNode,
-        summary: payload.summary,
-        tags: payload.tags,
-        autoCorrected: true,
-      });
+      const proposal = (await response.json()) as AutoCorrectionProposal;
+      setPendingCorrections((prev) => ({ ...prev, [nodeId]: proposal }));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Autocorrect failed.';
       setError(message);
+    } finally {
+      setCorrectingNodeIds((prev) => {
+        const next = new Set(prev);
+        next.delete(nodeId);
+        return next;
+      });
     }
-  }, [selectedNode, updateNode]);
+  }, [selectedNode]);
+
+  const dismissCorrection = useCallback((nodeId: string) => {
+    setPendingCorrections((prev) => {
+      const next = { ...prev };
+      delete next[nodeId];
+      return next;
+    });
+  }, []);
+
+  const acceptCorrection = useCallback(
+    (node: MindMapNode, summary: string, tags: string[]) => {
+      updateNode('autocorrect', `Accept correction for “${node.title}”`, { ...node, summary, tags, autoCorrected: true });
+      dismissCorrection(node.id);
+    },
+    [dismissCorrection, updateNode],
+  );
+
+  const rejectCorrection = useCallback(
+    (node: MindMapNode, proposal: AutoCorrectionProposal) => {
+      updateNode('autocorrect', `Reject correction for “${node.title}”`, {
+        ...node,
+        rejectedCorrections: [
+          ...(node.rejectedCorrections ?? []),
+          { summary: proposal.summary, tags: proposal.tags, rejectedAt: new Date().toISOString() },
+        ],
+      });
+      dismissCorrection(node.id);
+    },
+    [dismissCorrection, updateNode],
+  );
+
+  const autoCorrectNodes = useCallback(
+    async (nodeIds: string[]) => {
+      const targets = (mindMapRef.current?.nodes ?? []).filter(
+        (node) => nodeIds.includes(node.id) && !pendingCorrections[node.id] && !correctingNodeIds.has(node.id),
+      );
+      if (targets.length === 0) return;
+      const targetIds = targets.map((node) => node.id);
+
+      setCorrectingNodeIds((prev) => new Set([...prev, ...targetIds]));
+      setBatchFailures((prev) => {
+        const next = { ...prev };
+        targetIds.forEach((id) => delete next[id]);
+        return next;
+      });
+      setBatchProgress({ done: 0, total: targets.length });
+
+      const finishNode = (nodeId: string) => {
+        setCorrectingNodeIds((prev) => {
+          const next = new Set(prev);
+          next.delete(nodeId);
+          return next;
+        });
+        setBatchProgress((prev) => (prev ? { ...prev, done: prev.done + 1 } : prev));
+      };
+
+      try {
+        const response = await fetch('/api/autocorrect/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items: targets.map((node) => ({ node })) }),
+        });
+        if (!response.ok || !response.body) {
+          const payload = await response.json();
+          throw new Error(payload?.error ?? 'Batch autocorrect failed.');
+        }
+
+        for await (const event of readEventStream<BatchAutoCorrectEvent>(response.body)) {
+          if (event.type === 'result') {
+            setPendingCorrections((prev) => ({ ...prev, [event.nodeId]: event.proposal }));
+            finishNode(event.nodeId);
+          } else if (event.type === 'failure') {
+            setBatchFailures((prev) => ({ ...prev, [event.nodeId]: event.error }));
+            finishNode(event.nodeId);
+          }
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Batch autocorrect failed.');
+      } finally {
+        setCorrectingNodeIds((prev) => {
+          const next = new Set(prev);
+          targetIds.forEach((id) => next.delete(id));
+          return next;
+        });
+        setBatchProgress(null);
+      }
+    },
+    [correctingNodeIds, pendingCorrections],
+  );
+
+  const nodesNeedingReview = useMemo(
+    () => (mindMap?.nodes ?? []).filter((node) => !node.verified && !pendingCorrections[node.id]),
+    [mindMap, pendingCorrections],
+  );
+
+  const staleNodes = useMemo(() => (mindMap?.nodes ?? []).filter(isVerificationStale), [mindMap]);
+
+  const selectedProposal = selectedNode ? pendingCorrections[selectedNode.id] ?? null : null;
 
   const onInit = useCallback((instance: ReactFlowInstance) => {
     setReactFlowInstance(instance);
@@ -254,7 +1556,7 @@ export default function MindMapApp() {
     if (reactFlowInstance) {
       reactFlowInstance.fitView({ padding: 0.2, duration: 800 });
     }
-  }, [reactFlowInstance, nodes, edges]);
+  }, [reactFlowInstance, nodes.length]);
 
   return (
     <div style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', background: '#f8fafc' }}>
@@ -300,6 +1602,8 @@ export default function MindMapApp() {
             <FileDown size={16} />
             Export PDF
           </button>
+          <LayoutMenu disabled={!mindMap} current={mindMap?.layout ?? DEFAULT_LAYOUT} onRelayout={relayoutMap} />
+          <ExportMenu disabled={!mindMap} onExport={exportStructured} />
         </div>
       </header>
 
@@ -327,10 +1631,10 @@ export default function MindMapApp() {
             }}
           >
             <UploadCloud size={28} color="#4338ca" />
-            <p style={{ marginTop: 12, fontWeight: 600, color: '#1e293b' }}>Upload study notes PDF</p>
-            <p style={{ marginTop: 4, fontSize: 13, color: '#475569' }}>Drop a PDF or browse files</p>
+            <p style={{ marginTop: 12, fontWeight: 600, color: '#1e293b' }}>Upload study notes</p>
+            <p style={{ marginTop: 4, fontSize: 13, color: '#475569' }}>Drop {SUPPORTED_SOURCES_LABEL}, or browse files</p>
             <label
-              htmlFor="pdf-upload"
+              htmlFor="source-upload"
               style={{
                 marginTop: 16,
                 display: 'inline-flex',
@@ -345,15 +1649,98 @@ export default function MindMapApp() {
               }}
             >
               Choose file
-              <input id="pdf-upload" type="file" accept="application/pdf" onChange={onFileInputChange} style={{ display: 'none' }} />
+              <input
+                id="source-upload"
+                type="file"
+                accept={SOURCE_FILE_ACCEPT}
+                onChange={onFileInputChange}
+                style={{ display: 'none' }}
+              />
             </label>
             {uploadState !== 'idle' ? (
               <p style={{ marginTop: 12, fontSize: 13, color: '#4338ca' }}>
-                {uploadState === 'uploading' ? 'Processing PDF…' : 'Cross-checking medical references…'}
+                {uploadState === 'uploading'
+                  ? 'Extracting text…'
+                  : uploadState === 'generating'
+                  ? progress && progress.chunkCount > 1
+                    ? `Extracted ${pluralize(progress.pageCount, 'page')} · drafting section ${Math.min(
+                        progress.draftedChunks + 1,
+                        progress.chunkCount,
+                      )}/${progress.chunkCount}…`
+                    : `Extracted ${pluralize(progress?.pageCount ?? 0, 'page')} · drafting mind map…`
+                  : `Cross-checking medical references… ${progress?.verifiedCount ?? 0}/${progress?.total ?? 0}`}
               </p>
             ) : null}
+            <div
+              style={{
+                marginTop: 16,
+                paddingTop: 16,
+                borderTop: '1px solid #e2e8f0',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                gap: 8,
+              }}
+            >
+              <label htmlFor="map-import" style={{ ...secondaryButtonStyle, opacity: uploadState !== 'idle' ? 0.5 : 1 }}>
+                <FileUp size={14} />
+                Import map
+                <input
+                  id="map-import"
+                  type="file"
+                  accept={IMPORT_FILE_ACCEPT}
+                  onChange={onImportInputChange}
+                  disabled={uploadState !== 'idle'}
+                  style={{ display: 'none' }}
+                />
+              </label>
+              <p style={{ fontSize: 12, color: '#64748b' }}>JSON, OPML, FreeMind (.mm) or Markdown outline</p>
+              <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#475569' }}>
+                <input
+                  type="checkbox"
+                  checked={verifyOnImport}
+                  onChange={(event) => setVerifyOnImport(event.target.checked)}
+                />
+                Verify citations after import
+              </label>
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <label style={labelStyle}>
+              Or paste notes
+              <textarea
+                value={pastedText}
+                onChange={(event) => setPastedText(event.target.value)}
+                rows={5}
+                placeholder="Paste lecture notes, a guideline excerpt…"
+                style={{ ...inputStyle, resize: 'vertical' }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={submitPastedText}
+              disabled={uploadState !== 'idle' || !pastedText.trim()}
+              style={{
+                ...primaryGhostButtonStyle,
+                alignSelf: 'flex-start',
+                opacity: uploadState !== 'idle' || !pastedText.trim() ? 0.5 : 1,
+              }}
+            >
+              <Wand2 size={14} />
+              Generate from text
+            </button>
           </div>
 
+          <MapLibrary
+            maps={library}
+            activeMapId={activeMap?.id ?? null}
+            onOpen={(id) => void openSavedMap(id)}
+            onRename={(id, name) => void renameSavedMap(id, name)}
+            onDuplicate={(id) => void duplicateSavedMap(id)}
+            onDelete={(id) => void deleteSavedMap(id)}
+          />
+
           {mindMap ? (
             <div>
               <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -367,6 +1754,68 @@ export default function MindMapApp() {
             </div>
           ) : null}
 
+          {mindMap ? (
+            <CollaborationPanel
+              user={collabUser}
+              onUserChange={setCollabUser}
+              status={collabMapId ? (collabStatus ?? 'connecting') : null}
+              shareUrl={shareUrl}
+              peers={peers}
+              nodeTitle={nodeTitle}
+              onStart={startSession}
+              onLeave={leaveSession}
+              onShowNode={showNodeOnCanvas}
+            />
+          ) : null}
+
+          {mindMap ? (
+            <StudyPanel
+              key={activeMap?.id}
+              cards={flashcards}
+              progress={studyProgress}
+              onReview={reviewFlashcard}
+              onShowNode={showNodeOnCanvas}
+              onExport={(format) => void exportFlashcards(format)}
+            />
+          ) : null}
+
+          {mindMap ? (
+            <QuizPanel
+              key={quiz?.generatedAt ?? 'no-quiz'}
+              branch={selectedNode ? { title: selectedNode.title, descendantCount: selectedDescendantCount } : null}
+              quiz={quiz}
+              generating={generatingQuiz}
+              weakNodes={weakNodeSummaries}
+              nodeTitle={nodeTitle}
+              onGenerate={() => void generateBranchQuiz()}
+              onSubmit={submitQuiz}
+              onClose={() => setQuiz(null)}
+              onShowNode={showNodeOnCanvas}
+            />
+          ) : null}
+
+          {mindMap ? <HistoryPanel history={history} onUndo={undoChange} onRedo={redoChange} onJump={jumpToChange} /> : null}
+
+          {mindMap ? (
+            <BatchCorrectionPanel
+              needsReviewCount={nodesNeedingReview.length}
+              selectedCount={canvasSelectedIds.length}
+              staleCount={staleNodes.length}
+              verifying={uploadState !== 'idle'}
+              progress={batchProgress}
+              pendingReviews={Object.keys(pendingCorrections).map((nodeId) => ({ nodeId, title: nodeTitle(nodeId) }))}
+              failures={Object.entries(batchFailures).map(([nodeId, message]) => ({
+                nodeId,
+                title: nodeTitle(nodeId),
+                error: message,
+              }))}
+              onCorrectNeedingReview={() => void autoCorrectNodes(nodesNeedingReview.map((node) => node.id))}
+              onCorrectSelected={() => void autoCorrectNodes(canvasSelectedIds)}
+              onReverifyStale={() => void verifyNodes(staleNodes)}
+              onOpenNode={setSelectedNodeId}
+            />
+          ) : null}
+
           {selectedNode ? (
             <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
               <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -412,15 +1861,72 @@ export default function MindMapApp() {
                 />
               </label>
 
-              <button type="button" onClick={autoCorrectSelectedNode} style={primaryButtonStyle}>
-                <Wand2 size={16} />
-                Auto-correct with citations
+              <NodeStructureActions
+                key={selectedNode.id}
+                descendantCount={selectedDescendantCount}
+                mergeCandidates={mergeCandidates}
+                onAddChild={() => addRelativeNode('child')}
+                onAddSibling={() => addRelativeNode('sibling')}
+                onExpand={() => void expandSelectedNode()}
+                expanding={expandingNodeIds.has(selectedNode.id)}
+                onDelete={deleteSelectedNode}
+                onMerge={mergeIntoSelectedNode}
+              />
+
+              {selectedNode.sourceSpans ? (
+                <SourcePassages
+                  key={selectedNode.id}
+                  spans={selectedNode.sourceSpans}
+                  documentUrl={sourceDocument && sourceDocument.mapId === activeMap?.id ? sourceDocument.url : null}
+                />
+              ) : null}
+
+              {selectedProposal ? (
+                <CorrectionReview
+                  key={`${selectedNode.id}:${selectedProposal.summary}`}
+                  original={{ summary: selectedNode.summary, tags: selectedNode.tags }}
+                  proposal={selectedProposal}
+                  onAccept={(summary, tags) => acceptCorrection(selectedNode, summary, tags)}
+                  onReject={() => rejectCorrection(selectedNode, selectedProposal)}
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={autoCorrectSelectedNode}
+                  disabled={correctingNodeIds.has(selectedNode.id)}
+                  style={primaryButtonStyle}
+                >
+                  <Wand2 size={16} />
+                  {correctingNodeIds.has(selectedNode.id) ? 'Checking against citations…' : 'Auto-correct with citations'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => void verifyNodes([selectedNode])}
+                disabled={uploadState !== 'idle'}
+                style={{ ...secondaryButtonStyle, opacity: uploadState !== 'idle' ? 0.5 : 1 }}
+              >
+                <ShieldCheck size={14} />
+                {pendingNodeIds.has(selectedNode.id) ? 'Re-verifying…' : 'Re-verify'}
               </button>
+              {isVerificationStale(selectedNode) ? (
+                <p style={{ fontSize: 12, color: '#475569' }}>
+                  Edited since it was last verified; the claims and citations below may no longer match.
+                </p>
+              ) : null}
+              {selectedNode.rejectedCorrections?.length ? (
+                <p style={{ fontSize: 12, color: '#64748b' }}>
+                  {selectedNode.rejectedCorrections.length} AI correction
+                  {selectedNode.rejectedCorrections.length === 1 ? '' : 's'} rejected for this node.
+                </p>
+              ) : null}
+
+              <ClaimChecks claims={selectedNode.claims ?? []} status={nodeVerificationStatus(selectedNode)} />
 
               <div>
                 <h3 style={{ fontSize: 14, fontWeight: 600, color: '#334155', display: 'flex', alignItems: 'center', gap: 8 }}>
                   <CheckCircle2 size={16} color={selectedNode.verified ? '#047857' : '#d97706'} />
-                  {selectedNode.verified ? 'Citations' : 'No verifiable sources found'}
+                  {selectedNode.citations.length > 0 ? 'Citations' : 'No verifiable sources found'}
                 </h3>
                 <ul style={{ marginTop: 8, listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
                   {selectedNode.citations.map((citation) => (
@@ -433,7 +1939,8 @@ export default function MindMapApp() {
                         background: '#f8fafc',
                       }}
                     >
-                      <p style={{ fontSize: 13, fontWeight: 600, color: '#1e293b' }}>{citation.title}</p>
+                      <CitationBadge source={citation.source} />
+                      <p style={{ marginTop: 6, fontSize: 13, fontWeight: 600, color: '#1e293b' }}>{citation.title}</p>
                       {citation.snippet ? (
                         <p style={{ marginTop: 6, fontSize: 12, color: '#475569', lineHeight: 1.4 }}>{citation.snippet}</p>
                       ) : null}
@@ -450,7 +1957,7 @@ export default function MindMapApp() {
                           color: '#4338ca',
                         }}
                       >
-                        <Link size={14} /> {citation.source}
+                        <Link size={14} /> Open source
                       </a>
                     </li>
                   ))}
@@ -459,6 +1966,17 @@ export default function MindMapApp() {
             </div>
           ) : null}
 
+          {selectedEdge && !selectedNode ? (
+            <EdgeEditor
+              edge={selectedEdge}
+              sourceTitle={nodeTitle(selectedEdge.source)}
+              targetTitle={nodeTitle(selectedEdge.target)}
+              onLabelChange={handleEdgeLabelChange}
+              onDelete={deleteSelectedEdge}
+              onClose={() => setSelectedEdgeId(null)}
+            />
+          ) : null}
+
           {error ? (
             <div
               style={{
@@ -471,20 +1989,56 @@ export default function MindMapApp() {
               }}
             >
               {error}
+              {importIssues.length > 0 ? (
+                <ul style={{ marginTop: 8, paddingLeft: 18, display: 'flex', flexDirection: 'column', gap: 2 }}>
+                  {importIssues.map((issue, index) => (
+                    <li key={index}>{formatImportIssue(issue)}</li>
+                  ))}
+                </ul>
+              ) : null}
             </div>
           ) : null}
         </section>
 
         <section style={{ position: 'relative', minHeight: 0 }}>
-          <div ref={reactFlowWrapper} style={{ position: 'absolute', inset: 0 }}>
+          {mindMap ? (
+            <CanvasToolbar
+              searchInputRef={searchInputRef}
+              query={searchQuery}
+              onQueryChange={changeSearchQuery}
+              matchCount={searchMatches.length}
+              activeMatch={activeMatchId ? activeMatchIndex : -1}
+              onStep={stepSearchMatch}
+              filter={nodeFilter}
+              tags={filterTags}
+              hiddenCount={hiddenNodeIds.size}
+              onFilterChange={setNodeFilter}
+              focusMode={focusMode}
+              canFocus={Boolean(selectedNode)}
+              onToggleFocus={() => setFocusMode((prev) => !prev)}
+              maxDepth={maxDepth}
+              onExpandToDepth={expandMapToDepth}
+            />
+          ) : null}
+          <div
+            ref={reactFlowWrapper}
+            style={{ position: 'absolute', inset: 0 }}
+            onMouseMove={onCanvasMouseMove}
+            onMouseLeave={onCanvasMouseLeave}
+          >
             <ReactFlow
               nodes={nodes}
               edges={edges}
-              onNodesChange={onNodesChange}
-              onEdgesChange={onEdgesChange}
+              onNodesChange={handleNodesChange}
+              onEdgesChange={handleEdgesChange}
               onConnect={onConnect}
+              onNodeDrag={onNodeDrag}
+              onNodeDragStop={onNodeDragStop}
+              onEdgeClick={onEdgeClick}
+              onSelectionChange={onSelectionChange}
               onNodeClick={onNodeClick}
               fitView
+              onlyRenderVisibleElements
               nodeTypes={nodeTypes}
               defaultEdgeOptions={{ type: 'smoothstep' }}
               onInit={onInit}
@@ -500,6 +2054,7 @@ export default function MindMapApp() {
                 }}
               />
               <Controls />
+              {collabMapId ? <PresenceCursors peers={peers} /> : null}
             </ReactFlow>
           </div>
           {!mindMap ? (
@@ -542,51 +2097,3 @@ export default function MindMapApp() {
     </div>
   );
 }
-
-const labelStyle: React.CSSProperties = {
-  display: 'flex',
-  flexDirection: 'column',
-  gap: 8,
-  fontSize: 13,
-  color: '#0f172a',
-};
-
-const inputStyle: React.CSSProperties = {
-  borderRadius: 10,
-  border: '1px solid #cbd5f5',
-  padding: '10px 12px',
-  fontSize: 13,
-  color: '#0f172a',
-  background: '#ffffff',
-};
-
-const baseButtonStyle: React.CSSProperties = {
-  display: 'inline-flex',
-  alignItems: 'center',
-  gap: 8,
-  padding: '10px 16px',
-  borderRadius: 12,
-  cursor: 'pointer',
-  border: 'none',
-  fontSize: 13,
-  fontWeight: 600,
-  transition: 'background 0.2s ease',
-};
-
-const primaryButtonStyle: React.CSSProperties = {
-  ...baseButtonStyle,
-  background: '#4338ca',
-  color: '#ffffff',
-};
-
-const primaryGhostButtonStyle: React.CSSProperties = {
-  ...baseButtonStyle,
-  background: '#eef2ff',
-  color: '#312e81',
-};
-
-const secondaryButtonStyle: React.CSSProperties = {
-  ...baseButtonStyle,
-  background: '#e2e8f0',
-  color: '#1e293b',
-};
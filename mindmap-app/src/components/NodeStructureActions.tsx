@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { GitMerge, Loader2, Plus, Sparkles, Trash2 } from 'lucide-react';
+import type { DeleteMode } from '@/lib/graph';
+import { inputStyle, secondaryButtonStyle } from './styles';
+
+type NodeRef = { id: string; title: string };
+
+type NodeStructureActionsProps = {
+  /** How many nodes sit below this one; subtree deletion is offered only when there are some. */
+  descendantCount: number;
+  /** Other nodes this one can absorb, likely duplicates first. */
+  mergeCandidates: NodeRef[];
+  onAddChild: () => void;
+  onAddSibling: () => void;
+  /** Asks the model for child concepts of this node. */
+  onExpand: () => void;
+  /** True while an expansion of this node is in flight. */
+  expanding: boolean;
+  onDelete: (mode: DeleteMode) => void;
+  onMerge: (otherId: string) => void;
+};
+
+const smallButtonStyle = { ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12 };
+const dangerButtonStyle = { ...smallButtonStyle, background: '#fee2e2', color: '#b91c1c' };
+
+export default function NodeStructureActions({
+  descendantCount,
+  mergeCandidates,
+  onAddChild,
+  onAddSibling,
+  onExpand,
+  expanding,
+  onDelete,
+  onMerge,
+}: NodeStructureActionsProps) {
+  const [mergeId, setMergeId] = useState('');
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <h3 style={{ fontSize: 14, fontWeight: 600, color: '#334155' }}>Structure</h3>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+        <button type="button" onClick={onAddChild} style={smallButtonStyle}>
+          <Plus size={14} /> Add child
+        </button>
+        <button type="button" onClick={onAddSibling} style={smallButtonStyle}>
+          <Plus size={14} /> Add sibling
+        </button>
+        <button
+          type="button"
+          onClick={onExpand}
+          disabled={expanding}
+          style={{ ...smallButtonStyle, opacity: expanding ? 0.6 : 1 }}
+        >
+          {expanding ? <Loader2 size={14} /> : <Sparkles size={14} />}
+          {expanding ? 'Expanding…' : 'Expand with AI'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete('node')}
+          title={descendantCount > 0 ? 'Children move up to this node’s parents' : undefined}
+          style={dangerButtonStyle}
+        >
+          <Trash2 size={14} /> Delete node
+        </button>
+        {descendantCount > 0 ? (
+          <button type="button" onClick={() => onDelete('subtree')} style={dangerButtonStyle}>
+            <Trash2 size={14} /> Delete with {descendantCount} below
+          </button>
+        ) : null}
+      </div>
+      {mergeCandidates.length > 0 ? (
+        <div style={{ display: 'flex', gap: 6 }}>
+          <select
+            value={mergeId}
+            onChange={(event) => setMergeId(event.target.value)}
+            aria-label="Node to merge into this one"
+            style={{ ...inputStyle, flex: 1, minWidth: 0, padding: '6px 8px', fontSize: 12 }}
+          >
+            <option value="">Merge a duplicate into this node…</option>
+            {mergeCandidates.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => {
+              onMerge(mergeId);
+              setMergeId('');
+            }}
+            disabled={!mergeId}
+            style={{ ...smallButtonStyle, opacity: mergeId ? 1 : 0.5 }}
+          >
+            <GitMerge size={14} /> Merge
+          </button>
+        </div>
+      ) : null}
+      <p style={{ fontSize: 12, color: '#64748b' }}>Drop a node onto another on the canvas to move it under that node.</p>
+    </div>
+  );
+}
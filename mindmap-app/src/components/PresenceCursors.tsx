@@ -0,0 +1,50 @@
+'use client';
+
+import { MousePointer2 } from 'lucide-react';
+import { useStore, type ReactFlowState } from 'reactflow';
+import type { Peer } from '@/lib/collab/types';
+
+const transformSelector = (state: ReactFlowState) => state.transform;
+
+/** Other participants' pointers, drawn over the canvas. Must be rendered inside `<ReactFlow>`. */
+export default function PresenceCursors({ peers }: { peers: Peer[] }) {
+  const [translateX, translateY, zoom] = useStore(transformSelector);
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 5, overflow: 'hidden' }}>
+      {peers.map((peer) =>
+        peer.cursor ? (
+          <div
+            key={peer.clientId}
+            style={{
+              position: 'absolute',
+              left: 0,
+              top: 0,
+              transform: `translate(${peer.cursor.x * zoom + translateX}px, ${peer.cursor.y * zoom + translateY}px)`,
+              transition: 'transform 80ms linear',
+              display: 'flex',
+              alignItems: 'flex-start',
+              gap: 2,
+            }}
+          >
+            <MousePointer2 size={18} color={peer.user.color} fill={peer.user.color} />
+            <span
+              style={{
+                marginTop: 14,
+                padding: '2px 6px',
+                borderRadius: 6,
+                background: peer.user.color,
+                color: '#ffffff',
+                fontSize: 11,
+                fontWeight: 600,
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {peer.user.name}
+            </span>
+          </div>
+        ) : null,
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, ClipboardCheck, Loader2, LocateFixed, XCircle } from 'lucide-react';
+import type { Quiz } from '@/lib/types';
+import CitationBadge from './CitationBadge';
+import { primaryButtonStyle, secondaryButtonStyle } from './styles';
+
+type WeakNode = { nodeId: string; title: string; correct: number; total: number };
+
+type QuizPanelProps = {
+  /** Node whose branch a new quiz would cover, with the number of nodes below it. */
+  branch: { title: string; descendantCount: number } | null;
+  quiz: Quiz | null;
+  generating: boolean;
+  weakNodes: WeakNode[];
+  nodeTitle: (nodeId: string) => string;
+  onGenerate: () => void;
+  /** `choices` maps question ids to the chosen option index. */
+  onSubmit: (choices: Record<string, number>) => void;
+  onClose: () => void;
+  onShowNode: (nodeId: string) => void;
+};
+
+const smallButtonStyle = { ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12 };
+const linkButtonStyle = {
+  border: 'none',
+  background: 'transparent',
+  padding: 0,
+  color: '#4338ca',
+  fontSize: 12,
+  cursor: 'pointer',
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: 4,
+};
+
+export default function QuizPanel({
+  branch,
+  quiz,
+  generating,
+  weakNodes,
+  nodeTitle,
+  onGenerate,
+  onSubmit,
+  onClose,
+  onShowNode,
+}: QuizPanelProps) {
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  const score = quiz ? quiz.questions.filter((question) => choices[question.id] === question.answerIndex).length : 0;
+  const answeredAll = quiz ? quiz.questions.every((question) => choices[question.id] !== undefined) : false;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>Quiz</h2>
+        {quiz ? (
+          <button type="button" onClick={onClose} style={smallButtonStyle}>
+            Close quiz
+          </button>
+        ) : null}
+      </div>
+
+      {!quiz ? (
+        branch ? (
+          <button
+            type="button"
+            onClick={onGenerate}
+            disabled={generating}
+            style={{ ...primaryButtonStyle, justifyContent: 'center', opacity: generating ? 0.6 : 1 }}
+          >
+            {generating ? <Loader2 size={16} /> : <ClipboardCheck size={16} />}
+            {generating
+              ? 'Writing questions…'
+              : `Quiz “${branch.title}”${branch.descendantCount > 0 ? ` and ${branch.descendantCount} below` : ''}`}
+          </button>
+        ) : (
+          <p style={{ fontSize: 12, color: '#64748b' }}>Select a node to quiz yourself on its branch.</p>
+        )
+      ) : (
+        <ol style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {quiz.questions.map((question, index) => {
+            const chosen = choices[question.id];
+            const correct = chosen === question.answerIndex;
+            return (
+              <li
+                key={question.id}
+                style={{ border: '1px solid #e2e8f0', borderRadius: 12, padding: 12, display: 'flex', flexDirection: 'column', gap: 8 }}
+              >
+                <span style={{ fontSize: 11, color: '#64748b' }}>
+                  {index + 1}. {question.kind === 'vignette' ? 'Clinical vignette' : 'Multiple choice'}
+                </span>
+                {question.vignette ? (
+                  <p style={{ fontSize: 12, color: '#334155', lineHeight: 1.5, fontStyle: 'italic' }}>{question.vignette}</p>
+                ) : null}
+                <p style={{ fontSize: 13, fontWeight: 600, color: '#1e293b', lineHeight: 1.4 }}>{question.question}</p>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                  {question.options.map((option, optionIndex) => {
+                    const isAnswer = optionIndex === question.answerIndex;
+                    const background = !submitted
+                      ? chosen === optionIndex
+                        ? '#eef2ff'
+                        : 'transparent'
+                      : isAnswer
+                        ? '#dcfce7'
+                        : chosen === optionIndex
+                          ? '#fee2e2'
+                          : 'transparent';
+                    return (
+                      <label
+                        key={optionIndex}
+                        style={{ display: 'flex', gap: 8, alignItems: 'flex-start', fontSize: 12, color: '#334155', borderRadius: 8, padding: '4px 6px', background }}
+                      >
+                        <input
+                          type="radio"
+                          name={question.id}
+                          checked={chosen === optionIndex}
+                          disabled={submitted}
+                          onChange={() => setChoices((prev) => ({ ...prev, [question.id]: optionIndex }))}
+                        />
+                        {option}
+                      </label>
+                    );
+                  })}
+                </div>
+                {submitted ? (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 12, color: '#334155' }}>
+                    <span
+                      style={{ display: 'inline-flex', alignItems: 'center', gap: 4, fontWeight: 600, color: correct ? '#15803d' : '#b91c1c' }}
+                    >
+                      {correct ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+                      {correct ? 'Correct' : 'Incorrect'}
+                    </span>
+                    <p style={{ lineHeight: 1.5 }}>{question.explanation}</p>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                      <button type="button" onClick={() => onShowNode(question.nodeId)} style={linkButtonStyle}>
+                        <LocateFixed size={12} /> Review “{nodeTitle(question.nodeId)}”
+                      </button>
+                      {question.citation ? (
+                        <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+                          <CitationBadge source={question.citation.source} />
+                          <a href={question.citation.url} target="_blank" rel="noreferrer" style={{ color: '#4338ca' }}>
+                            {question.citation.title}
+                          </a>
+                        </span>
+                      ) : null}
+                    </div>
+                  </div>
+                ) : null}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {quiz && !submitted ? (
+        <button
+          type="button"
+          onClick={() => {
+            setSubmitted(true);
+            onSubmit(choices);
+          }}
+          disabled={!answeredAll}
+          style={{ ...primaryButtonStyle, justifyContent: 'center', opacity: answeredAll ? 1 : 0.5 }}
+        >
+          Submit answers
+        </button>
+      ) : null}
+      {quiz && submitted ? (
+        <p style={{ fontSize: 13, fontWeight: 600, color: '#1e293b' }}>
+          Score: {score}/{quiz.questions.length} ({Math.round((score / quiz.questions.length) * 100)}%)
+        </p>
+      ) : null}
+
+      {weakNodes.length > 0 ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <p style={{ fontSize: 12, color: '#64748b' }}>Weak nodes, tinted on the map:</p>
+          <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {weakNodes.map((node) => (
+              <li key={node.nodeId}>
+                <button type="button" onClick={() => onShowNode(node.nodeId)} style={linkButtonStyle}>
+                  {node.title}
+                  <span style={{ color: '#94a3b8' }}>
+                    {node.correct}/{node.total}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
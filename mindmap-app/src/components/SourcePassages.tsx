@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, BookOpen, X } from 'lucide-react';
+import type { SourceSpan } from '@/lib/types';
+
+type SourcePassagesProps = {
+  spans: SourceSpan[];
+  /** Object URL of the uploaded PDF, when it is still available in this session. */
+  documentUrl: string | null;
+};
+
+export default function SourcePassages({ spans, documentUrl }: SourcePassagesProps) {
+  const [viewerPage, setViewerPage] = useState<number | null>(null);
+
+  if (spans.length === 0) {
+    return (
+      <div
+        style={{
+          display: 'flex',
+          gap: 8,
+          borderRadius: 12,
+          border: '1px solid #fde68a',
+          background: '#fffbeb',
+          padding: 12,
+          fontSize: 12,
+          color: '#92400e',
+          lineHeight: 1.4,
+        }}
+      >
+        <AlertTriangle size={16} style={{ flexShrink: 0 }} />
+        <span>
+          No supporting passage was found in the source notes. Check this node before relying on it — it may not come
+          from your material.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 style={{ fontSize: 14, fontWeight: 600, color: '#334155', display: 'flex', alignItems: 'center', gap: 8 }}>
+        <BookOpen size={16} color="#4338ca" />
+        From your notes
+      </h3>
+      <ul style={{ marginTop: 8, listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {spans.map((span) => (
+          <li
+            key={`${span.page ?? 0}:${span.start}`}
+            style={{ borderLeft: '3px solid #c7d2fe', padding: '4px 0 4px 10px', fontSize: 12, color: '#334155' }}
+          >
+            <p style={{ lineHeight: 1.5 }}>“{span.text}”</p>
+            {span.page ? (
+              documentUrl ? (
+                <button
+                  type="button"
+                  onClick={() => setViewerPage(span.page ?? null)}
+                  style={{ marginTop: 4, border: 'none', background: 'transparent', padding: 0, color: '#4338ca', fontSize: 12, cursor: 'pointer' }}
+                >
+                  Page {span.page} — show in PDF
+                </button>
+              ) : (
+                <p style={{ marginTop: 4, color: '#64748b' }}>Page {span.page}</p>
+              )
+            ) : null}
+          </li>
+        ))}
+      </ul>
+
+      {documentUrl && viewerPage !== null ? (
+        <div style={{ marginTop: 12, border: '1px solid #e2e8f0', borderRadius: 12, overflow: 'hidden' }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              padding: '6px 10px',
+              background: '#f8fafc',
+              fontSize: 12,
+              color: '#475569',
+            }}
+          >
+            <span>Page {viewerPage}</span>
+            <button
+              type="button"
+              onClick={() => setViewerPage(null)}
+              aria-label="Close PDF viewer"
+              style={{ border: 'none', background: 'transparent', color: '#64748b', cursor: 'pointer' }}
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <iframe
+            key={viewerPage}
+            src={`${documentUrl}#page=${viewerPage}`}
+            title={`Source PDF, page ${viewerPage}`}
+            style={{ width: '100%', height: 420, border: 'none' }}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { GraduationCap, LocateFixed, Package, FileDown } from 'lucide-react';
+import type { ReviewGrade, StudyProgress } from '@/lib/types';
+import { FLASHCARD_KIND_LABELS, type Flashcard } from '@/lib/study/cards';
+import {
+  REVIEW_GRADES,
+  REVIEW_GRADE_LABELS,
+  buildStudyQueue,
+  previewIntervals,
+} from '@/lib/study/scheduler';
+import type { DeckExportFormat } from '@/lib/study/anki';
+import { primaryButtonStyle, secondaryButtonStyle } from './styles';
+
+type StudyPanelProps = {
+  cards: Flashcard[];
+  progress: StudyProgress;
+  onReview: (card: Flashcard, grade: ReviewGrade) => void;
+  onShowNode: (nodeId: string) => void;
+  onExport: (format: DeckExportFormat) => void;
+};
+
+const smallButtonStyle = { ...secondaryButtonStyle, padding: '6px 10px', fontSize: 12 };
+
+const GRADE_COLORS: Record<ReviewGrade, string> = {
+  again: '#fee2e2',
+  hard: '#fef3c7',
+  good: '#dcfce7',
+  easy: '#e0f2fe',
+};
+
+function formatInterval(days: number) {
+  return days === 0 ? '<10m' : `${days}d`;
+}
+
+export default function StudyPanel({ cards, progress, onReview, onShowNode, onExport }: StudyPanelProps) {
+  const [studying, setStudying] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+  // Refreshed on each answer rather than ticking, so the queue only moves when the user does.
+  const [now, setNow] = useState(() => new Date());
+
+  const queue = useMemo(() => buildStudyQueue(cards, progress, now), [cards, now, progress]);
+  const current = studying ? queue.cards[0] ?? null : null;
+  const intervals = useMemo(() => (current ? previewIntervals(current, progress, now) : null), [current, now, progress]);
+
+  const answer = (grade: ReviewGrade) => {
+    if (!current) return;
+    onReview(current, grade);
+    setRevealed(false);
+    setNow(new Date());
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, color: '#1e293b' }}>Study</h2>
+        {studying ? (
+          <button type="button" onClick={() => setStudying(false)} style={smallButtonStyle}>
+            End session
+          </button>
+        ) : null}
+      </div>
+      <p style={{ fontSize: 12, color: '#64748b' }}>
+        {queue.dueCount} due · {queue.newCount} new · {queue.reviewedToday} reviewed today · {cards.length} cards
+      </p>
+
+      {!studying ? (
+        <button
+          type="button"
+          onClick={() => {
+            setNow(new Date());
+            setRevealed(false);
+            setStudying(true);
+          }}
+          disabled={cards.length === 0}
+          style={{ ...primaryButtonStyle, justifyContent: 'center', opacity: cards.length === 0 ? 0.5 : 1 }}
+        >
+          <GraduationCap size={16} /> Study flashcards
+        </button>
+      ) : current && intervals ? (
+        <div style={{ border: '1px solid #e2e8f0', borderRadius: 12, padding: 14, display: 'flex', flexDirection: 'column', gap: 10 }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: 11, color: '#64748b' }}>
+            <span>
+              {FLASHCARD_KIND_LABELS[current.kind]} · importance {current.importance}
+            </span>
+            <button
+              type="button"
+              onClick={() => onShowNode(current.nodeId)}
+              style={{ border: 'none', background: 'transparent', padding: 0, color: '#4338ca', fontSize: 11, cursor: 'pointer', display: 'inline-flex', alignItems: 'center', gap: 4 }}
+            >
+              <LocateFixed size={12} /> Show on map
+            </button>
+          </div>
+          <p style={{ fontSize: 14, fontWeight: 600, color: '#1e293b', lineHeight: 1.4 }}>{current.front}</p>
+          {revealed ? (
+            <>
+              <p style={{ fontSize: 13, color: '#334155', lineHeight: 1.5, whiteSpace: 'pre-line', borderTop: '1px solid #e2e8f0', paddingTop: 10 }}>
+                {current.back}
+              </p>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 6 }}>
+                {REVIEW_GRADES.map((grade) => (
+                  <button
+                    key={grade}
+                    type="button"
+                    onClick={() => answer(grade)}
+                    style={{ ...smallButtonStyle, background: GRADE_COLORS[grade], flexDirection: 'column', gap: 2, padding: '6px 4px' }}
+                  >
+                    {REVIEW_GRADE_LABELS[grade]}
+                    <span style={{ fontSize: 10, fontWeight: 400, color: '#475569' }}>{formatInterval(intervals[grade])}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <button type="button" onClick={() => setRevealed(true)} style={{ ...secondaryButtonStyle, justifyContent: 'center' }}>
+              Show answer
+            </button>
+          )}
+        </div>
+      ) : (
+        <p style={{ fontSize: 13, color: '#15803d' }}>Nothing left to review for now. Come back when more cards are due.</p>
+      )}
+
+      <div style={{ display: 'flex', gap: 6 }}>
+        <button type="button" onClick={() => onExport('anki-csv')} disabled={cards.length === 0} style={smallButtonStyle}>
+          <FileDown size={14} /> Anki CSV
+        </button>
+        <button type="button" onClick={() => onExport('apkg')} disabled={cards.length === 0} style={smallButtonStyle}>
+          <Package size={14} /> Anki package
+        </button>
+      </div>
+    </div>
+  );
+}
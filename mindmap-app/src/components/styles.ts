@@ -0,0 +1,49 @@
+import type { CSSProperties } from 'react';
+
+export const labelStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8,
+  fontSize: 13,
+  color: '#0f172a',
+};
+
+export const inputStyle: CSSProperties = {
+  borderRadius: 10,
+  border: '1px solid #cbd5f5',
+  padding: '10px 12px',
+  fontSize: 13,
+  color: '#0f172a',
+  background: '#ffffff',
+};
+
+export const baseButtonStyle: CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '10px 16px',
+  borderRadius: 12,
+  cursor: 'pointer',
+  border: 'none',
+  fontSize: 13,
+  fontWeight: 600,
+  transition: 'background 0.2s ease',
+};
+
+export const primaryButtonStyle: CSSProperties = {
+  ...baseButtonStyle,
+  background: '#4338ca',
+  color: '#ffffff',
+};
+
+export const primaryGhostButtonStyle: CSSProperties = {
+  ...baseButtonStyle,
+  background: '#eef2ff',
+  color: '#312e81',
+};
+
+export const secondaryButtonStyle: CSSProperties = {
+  ...baseButtonStyle,
+  background: '#e2e8f0',
+  color: '#1e293b',
+};
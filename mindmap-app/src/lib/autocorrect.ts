@@ -0,0 +1,59 @@
+import { autoCorrectionValidator, completeStructured, type LlmProvider } from './llm';
+import type { AutoCorrectionProposal, MindMapNode } from './types';
+
+/**
+ * Asks the model to align a node's summary with its citations. The result is
+ * a proposal for the user to review; nothing is applied to the node here.
+ */
+export async function proposeCorrection(node: MindMapNode, llm: LlmProvider): Promise<AutoCorrectionProposal> {
+  const citationsText =
+    node.citations.length > 0
+      ? node.citations
+          .map(
+            (citation, index) =>
+              `${index + 1}. ${citation.title}\nSource: ${citation.source}\nURL: ${citation.url}\nSnippet: ${
+                citation.snippet ?? 'N/A'
+              }`,
+          )
+          .join('\n\n')
+      : 'No citations available.';
+
+  const prompt = `You are an expert medical editor. Update the provided mind map node summary so it is factually aligned with the citations. Keep the summary <= 35 words, clinically precise, and suitable for a study mind map.
+
+Current Node:
+Title: ${node.title}
+Summary: ${node.summary}
+
+Citations:
+${citationsText}
+
+For every claim you add, change or remove, add a rationale entry naming the citation number it relies on (or null if none of the citations supports it).
+
+Respond with JSON:
+{
+  "summary": string,
+  "tags": string[],
+  "rationale": Array<{
+    "claim": string,
+    "citation": number | null,
+    "explanation": string
+  }>
+}`;
+
+  const citations = node.citations;
+  const parsed = await completeStructured(
+    llm,
+    { feature: 'autocorrect', input: prompt },
+    autoCorrectionValidator(citations.length),
+  );
+
+  return {
+    summary: parsed.summary,
+    tags: parsed.tags ?? node.tags,
+    rationale: parsed.rationale.map((entry) => ({
+      claim: entry.claim,
+      explanation: entry.explanation,
+      ...(entry.citation !== null ? { citation: citations[entry.citation - 1] } : {}),
+    })),
+  };
+}
@@ -0,0 +1,86 @@
+export type TextChunk = {
+  index: number;
+  startPage: number;
+  endPage: number;
+  text: string;
+};
+
+export const MAX_CHUNK_CHARACTERS = 12_000;
+
+function splitOversizedText(text: string, maxCharacters: number): string[] {
+  const paragraphs = text.split(/\n{2,}|(?<=[.!?])\s+/);
+  const parts: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > maxCharacters) {
+      if (current) {
+        parts.push(current);
+        current = '';
+      }
+      for (let offset = 0; offset < paragraph.length; offset += maxCharacters) {
+        parts.push(paragraph.slice(offset, offset + maxCharacters));
+      }
+      continue;
+    }
+    const candidate = current ? `${current} ${paragraph}` : paragraph;
+    if (candidate.length > maxCharacters) {
+      parts.push(current);
+      current = paragraph;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Groups consecutive pages into chunks that fit the model prompt budget.
+ * A page is only split when it alone exceeds the budget, in which case it is
+ * cut on paragraph and sentence boundaries.
+ */
+export function chunkPages(pages: string[], maxCharacters = MAX_CHUNK_CHARACTERS): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let buffer: string[] = [];
+  let bufferLength = 0;
+  let startPage = 1;
+  let endPage = 1;
+
+  const flush = () => {
+    if (buffer.length === 0) return;
+    chunks.push({ index: chunks.length, startPage, endPage, text: buffer.join('\n').trim() });
+    buffer = [];
+    bufferLength = 0;
+  };
+
+  pages.forEach((rawPage, pageIndex) => {
+    const pageNumber = pageIndex + 1;
+    const page = rawPage.trim();
+    if (!page) return;
+
+    if (page.length > maxCharacters) {
+      flush();
+      splitOversizedText(page, maxCharacters).forEach((part) => {
+        chunks.push({ index: chunks.length, startPage: pageNumber, endPage: pageNumber, text: part });
+      });
+      return;
+    }
+
+    if (bufferLength + page.length + 1 > maxCharacters) {
+      flush();
+    }
+    if (buffer.length === 0) {
+      startPage = pageNumber;
+    }
+    buffer.push(page);
+    bufferLength += page.length + 1;
+    endPage = pageNumber;
+  });
+
+  flush();
+  return chunks;
+}
@@ -0,0 +1,74 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Citation } from '../types';
+import { requestFingerprint } from './fixtures';
+
+export interface CitationCache {
+  get(key: string): Promise<Citation[] | null>;
+  set(key: string, citations: Citation[]): Promise<void>;
+}
+
+type CacheEntry = {
+  key: string;
+  storedAt: number;
+  citations: Citation[];
+};
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+/**
+ * Where lookups are cached, from `CITATION_CACHE_DIR`; defaults to Next's own
+ * cache directory so results survive restarts without extra setup.
+ */
+export function getCitationCacheDir(): string {
+  return process.env.CITATION_CACHE_DIR?.trim() || path.join(process.cwd(), '.next', 'cache', 'citations');
+}
+
+/** How long a cached lookup stays fresh, from `CITATION_CACHE_TTL_HOURS`; 0 turns the cache off. */
+export function getCitationCacheTtlMs(): number {
+  const raw = process.env.CITATION_CACHE_TTL_HOURS?.trim();
+  const hours = raw ? Number(raw) : DEFAULT_TTL_HOURS;
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+/**
+ * Caches citation lookups as `<fingerprint>.json` files in `directory`, with
+ * an in-memory copy in front so repeated queries in one process skip the
+ * disk. Entries older than `ttlMs` count as misses. A corrupt file is treated
+ * as a miss and overwritten by the next lookup.
+ */
+export function createFileCitationCache(directory: string, ttlMs: number): CitationCache {
+  const memory = new Map<string, CacheEntry>();
+  const fileFor = (key: string) => path.join(directory, `${requestFingerprint(key)}.json`);
+  const isFresh = (entry: CacheEntry) => Date.now() - entry.storedAt < ttlMs;
+
+  return {
+    async get(key) {
+      const cached = memory.get(key);
+      if (cached) {
+        return isFresh(cached) ? cached.citations : null;
+      }
+
+      try {
+        const entry = JSON.parse(await readFile(fileFor(key), 'utf8')) as CacheEntry;
+        if (entry.key !== key || !Array.isArray(entry.citations)) return null;
+        memory.set(key, entry);
+        return isFresh(entry) ? entry.citations : null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && !(error instanceof SyntaxError)) {
+          throw error;
+        }
+        return null;
+      }
+    },
+    async set(key, citations) {
+      const entry: CacheEntry = { key, storedAt: Date.now(), citations };
+      memory.set(key, entry);
+      const filePath = fileFor(key);
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entry), 'utf8');
+      await rename(tempPath, filePath);
+    },
+  };
+}
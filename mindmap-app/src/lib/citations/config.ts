@@ -0,0 +1,57 @@
+import type { CitationProviderId, CitationProviderSettings } from './types';
+
+/**
+ * Local sources come first because they reflect institutional practice; the
+ * public NLM services follow and Wikipedia stays the last resort, as before.
+ */
+const DEFAULT_PRIORITIES: Record<CitationProviderId, number> = {
+  guidelines: 10,
+  library: 20,
+  medlineplus: 30,
+  pubmed: 40,
+  mesh: 50,
+  wikipedia: 90,
+};
+
+/** The local providers are only on by default once their files are configured. */
+function enabledByDefault(id: CitationProviderId): boolean {
+  switch (id) {
+    case 'guidelines':
+      return Boolean(process.env.GUIDELINES_DIR);
+    case 'library':
+      return Boolean(process.env.REFERENCE_LIBRARY_PATH);
+    default:
+      return true;
+  }
+}
+
+export const DEFAULT_CITATION_LIMIT = 3;
+
+function readBoolean(name: string): boolean | undefined {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (!value) return undefined;
+  if (['1', 'true', 'yes', 'on'].includes(value)) return true;
+  if (['0', 'false', 'no', 'off'].includes(value)) return false;
+  throw new Error(`${name} must be true or false.`);
+}
+
+/**
+ * Resolves a provider's settings. `CITATION_<ID>_ENABLED` turns it on or off
+ * and `CITATION_<ID>_PRIORITY` reorders it (lower runs first).
+ */
+export function getCitationProviderSettings(id: CitationProviderId): CitationProviderSettings {
+  const prefix = `CITATION_${id.toUpperCase()}`;
+  const priorityRaw = process.env[`${prefix}_PRIORITY`]?.trim();
+  const priority = priorityRaw ? Number(priorityRaw) : DEFAULT_PRIORITIES[id];
+  if (Number.isNaN(priority)) {
+    throw new Error(`${prefix}_PRIORITY must be a number.`);
+  }
+
+  return { enabled: readBoolean(`${prefix}_ENABLED`) ?? enabledByDefault(id), priority };
+}
+
+/** How many citations to collect per node, from `CITATION_LIMIT`. */
+export function getCitationLimit(): number {
+  const configured = Number(process.env.CITATION_LIMIT);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CITATION_LIMIT;
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createFixtureFetch, fixtureUrl, requestFingerprint } from './fixtures';
+
+const SEARCH_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=pubmed&term=heart+failure';
+
+describe('createFixtureFetch', () => {
+  let dir: string;
+  const liveFetch = globalThis.fetch;
+  let liveRequests: string[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'citation-fixtures-'));
+    liveRequests = [];
+    globalThis.fetch = async (input) => {
+      liveRequests.push(String(input));
+      return new Response('{"esearchresult":{"idlist":["1"]}}', { headers: { 'Content-Type': 'application/json' } });
+    };
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = liveFetch;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records and replays a response without the API key', async () => {
+    await createFixtureFetch(dir, 'record')(`${SEARCH_URL}&api_key=first-secret`);
+    assert.deepEqual(liveRequests, [`${SEARCH_URL}&api_key=first-secret`]);
+
+    const [file] = await readdir(dir);
+    assert.equal(file, `eutils.ncbi.nlm.nih.gov.${requestFingerprint(SEARCH_URL)}.json`);
+    const recorded = await readFile(path.join(dir, file), 'utf8');
+    assert.doesNotMatch(recorded, /secret/);
+    assert.equal(JSON.parse(recorded).url, SEARCH_URL);
+
+    const replayed = await createFixtureFetch(dir)(`${SEARCH_URL}&api_key=rotated-secret`);
+    assert.deepEqual(await replayed.json(), { esearchresult: { idlist: ['1'] } });
+    assert.equal(liveRequests.length, 1);
+  });
+
+  it('fails in replay mode when nothing was recorded', async () => {
+    await assert.rejects(createFixtureFetch(dir)(`${SEARCH_URL}&api_key=secret`), (error: Error) => {
+      assert.doesNotMatch(error.message, /secret/);
+      return true;
+    });
+    assert.equal(liveRequests.length, 0);
+  });
+});
+
+describe('fixtureUrl', () => {
+  it('leaves URLs without credentials untouched', () => {
+    const url = 'https://en.wikipedia.org/api/rest_v1/page/summary/Heart%20failure';
+    assert.equal(fixtureUrl(url), url);
+  });
+});
@@ -0,0 +1,75 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { FetchLike } from './types';
+
+type RecordedResponse = {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+/** Query parameters carrying credentials, e.g. `NCBI_API_KEY`; they are never fingerprinted or recorded. */
+const SECRET_PARAMS = ['api_key'];
+
+export function requestFingerprint(url: string): string {
+  return createHash('sha256').update(url).digest('hex').slice(0, 16);
+}
+
+/**
+ * The URL a fixture is filed under: credentials are removed, so recorded
+ * fixtures are safe to commit and still match after a key changes.
+ */
+export function fixtureUrl(url: string): string {
+  const parsed = new URL(url);
+  if (!SECRET_PARAMS.some((name) => parsed.searchParams.has(name))) return url;
+  SECRET_PARAMS.forEach((name) => parsed.searchParams.delete(name));
+  return parsed.toString();
+}
+
+function fixturePath(fixturesDir: string, url: string): string {
+  return path.join(fixturesDir, `${new URL(url).hostname}.${requestFingerprint(url)}.json`);
+}
+
+function requestUrl(input: Parameters<FetchLike>[0]): string {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.toString() : input.url;
+}
+
+/**
+ * A `fetch` that answers from recorded responses in `fixturesDir`, one
+ * `<host>.<fingerprint>.json` file per URL, so providers can run offline.
+ * In `record` mode, URLs without a fixture are fetched live and saved; in
+ * replay mode they fail, which the registry treats like a provider outage.
+ */
+export function createFixtureFetch(fixturesDir: string, mode: 'replay' | 'record' = 'replay'): FetchLike {
+  return async (input, init) => {
+    const url = fixtureUrl(requestUrl(input));
+    const filePath = fixturePath(fixturesDir, url);
+
+    try {
+      const recorded = JSON.parse(await readFile(filePath, 'utf8')) as RecordedResponse;
+      return new Response(recorded.body, { status: recorded.status, headers: { 'Content-Type': recorded.contentType } });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (mode !== 'record') {
+      throw new Error(`No recorded citation fixture for ${url}`);
+    }
+
+    const response = await fetch(input, init);
+    const recorded: RecordedResponse = {
+      url,
+      status: response.status,
+      contentType: response.headers.get('content-type') ?? 'text/plain',
+      body: await response.text(),
+    };
+    await mkdir(fixturesDir, { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(recorded, null, 2)}\n`);
+    return new Response(recorded.body, { status: recorded.status, headers: { 'Content-Type': recorded.contentType } });
+  };
+}
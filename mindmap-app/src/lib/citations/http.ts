@@ -0,0 +1,4 @@
+export const USER_AGENT = 'agentic-3431c676/1.0 (mindmap medical verifier)';
+
+/** Public reference lookups change slowly, so responses are cached for an hour. */
+export const REVALIDATE_SECONDS = 60 * 60;
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Citation } from '../types';
+import { searchCitations, type CitationCache, type CitationProvider } from './index';
+
+function provider(id: CitationProvider['id'], urls: string[]): CitationProvider {
+  return {
+    id,
+    source: id,
+    async search(query) {
+      return urls.map((url) => ({ title: `${query} (${id})`, url, source: id }));
+    },
+  };
+}
+
+function memoryCache(): CitationCache & { entries: Map<string, Citation[]> } {
+  const entries = new Map<string, Citation[]>();
+  return {
+    entries,
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, citations) {
+      entries.set(key, citations);
+    },
+  };
+}
+
+const noFetch = (async () => {
+  throw new Error('unexpected network access');
+}) as typeof fetch;
+
+describe('searchCitations', () => {
+  it('collects citations in provider order up to the limit, without duplicate URLs', async () => {
+    const citations = await searchCitations('heart failure', {
+      providers: [provider('guidelines', ['a', 'b']), provider('pubmed', ['b', 'c', 'd'])],
+      fetch: noFetch,
+      limit: 3,
+      cache: null,
+    });
+    assert.deepEqual(
+      citations.map((citation) => citation.url),
+      ['a', 'b', 'c'],
+    );
+  });
+
+  it('does not cache a lookup where a provider failed', async () => {
+    const cache = memoryCache();
+    const failing: CitationProvider = {
+      id: 'mesh',
+      source: 'MeSH',
+      async search() {
+        throw new Error('outage');
+      },
+    };
+    const citations = await searchCitations('heart failure', {
+      providers: [failing, provider('wikipedia', ['w'])],
+      fetch: noFetch,
+      limit: 3,
+      cache,
+    });
+    assert.deepEqual(
+      citations.map((citation) => citation.url),
+      ['w'],
+    );
+    assert.equal(cache.entries.size, 0);
+  });
+
+  it('treats a cache read error as a miss', async () => {
+    const cache: CitationCache = {
+      async get() {
+        throw Object.assign(new Error('permission denied'), { code: 'EACCES' });
+      },
+      async set() {},
+    };
+    const citations = await searchCitations('heart failure', {
+      providers: [provider('pubmed', ['p'])],
+      fetch: noFetch,
+      limit: 3,
+      cache,
+    });
+    assert.deepEqual(
+      citations.map((citation) => citation.url),
+      ['p'],
+    );
+  });
+});
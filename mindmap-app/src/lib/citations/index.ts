@@ -0,0 +1,142 @@
+import type { Citation } from '../types';
+import { createFileCitationCache, getCitationCacheDir, getCitationCacheTtlMs, type CitationCache } from './cache';
+import { getCitationLimit, getCitationProviderSettings } from './config';
+import { createFixtureFetch } from './fixtures';
+import { guidelinesProvider } from './providers/guidelines';
+import { libraryProvider } from './providers/library';
+import { medlinePlusProvider } from './providers/medlineplus';
+import { meshProvider } from './providers/mesh';
+import { pubMedProvider } from './providers/pubmed';
+import { wikipediaProvider } from './providers/wikipedia';
+import { createResilientFetch } from './transport';
+import type { CitationProvider, CitationProviderId, FetchLike } from './types';
+
+export { createFileCitationCache, type CitationCache } from './cache';
+export { createFixtureFetch, fixtureUrl, requestFingerprint } from './fixtures';
+export { createResilientFetch, getTransportOptions, type TransportOptions } from './transport';
+export { getCitationLimit, getCitationProviderSettings } from './config';
+export type { CitationProvider, CitationProviderId, CitationSearchContext, FetchLike } from './types';
+
+const registry = new Map<CitationProviderId, CitationProvider>();
+
+export function registerCitationProvider(provider: CitationProvider) {
+  registry.set(provider.id, provider);
+}
+
+[guidelinesProvider, libraryProvider, medlinePlusProvider, pubMedProvider, meshProvider, wikipediaProvider].forEach(
+  registerCitationProvider,
+);
+
+/** Enabled providers, highest priority (lowest number) first. */
+export function getCitationProviders(): CitationProvider[] {
+  return [...registry.values()]
+    .map((provider) => ({ provider, settings: getCitationProviderSettings(provider.id) }))
+    .filter(({ settings }) => settings.enabled)
+    .sort((a, b) => a.settings.priority - b.settings.priority)
+    .map(({ provider }) => provider);
+}
+
+let sharedFetch: FetchLike | null = null;
+let sharedCache: CitationCache | null | undefined;
+
+/**
+ * The `fetch` providers should use: recorded fixtures from
+ * `CITATION_FIXTURES_DIR` when set (recording misses with
+ * `CITATION_FIXTURES_MODE=record`), the network otherwise. Anything that can
+ * reach the network goes through the rate-limited, retrying transport, and
+ * one instance is shared by every request so the per-host limits hold
+ * across concurrent verifications.
+ */
+export function getCitationFetch(): FetchLike {
+  if (sharedFetch) return sharedFetch;
+
+  const fixturesDir = process.env.CITATION_FIXTURES_DIR?.trim();
+  const mode = process.env.CITATION_FIXTURES_MODE === 'record' ? 'record' : 'replay';
+  if (fixturesDir && mode === 'replay') {
+    sharedFetch = createFixtureFetch(fixturesDir, mode);
+  } else {
+    sharedFetch = createResilientFetch(fixturesDir ? createFixtureFetch(fixturesDir, mode) : fetch);
+  }
+  return sharedFetch;
+}
+
+/** The shared query cache, or null when `CITATION_CACHE_TTL_HOURS=0`. */
+export function getCitationCache(): CitationCache | null {
+  if (sharedCache === undefined) {
+    const ttlMs = getCitationCacheTtlMs();
+    sharedCache = ttlMs > 0 ? createFileCitationCache(getCitationCacheDir(), ttlMs) : null;
+  }
+  return sharedCache;
+}
+
+/** Identical lookups already running, so nodes sharing a title trigger one search. */
+const inFlight = new Map<string, Promise<Citation[]>>();
+
+/**
+ * Queries providers in priority order until `limit` citations are collected.
+ * A provider that fails is logged and skipped so one outage doesn't block
+ * verification. Citations are de-duplicated by URL.
+ *
+ * Results are cached per query, provider list and limit. Lookups where a
+ * provider failed are not cached, so an outage isn't remembered as "no
+ * citations".
+ */
+export async function searchCitations(
+  query: string,
+  options: { providers?: CitationProvider[]; fetch?: FetchLike; limit?: number; cache?: CitationCache | null } = {},
+): Promise<Citation[]> {
+  const providers = options.providers ?? getCitationProviders();
+  const limit = options.limit ?? getCitationLimit();
+  const cache = options.cache === undefined ? getCitationCache() : options.cache;
+  const key = `${providers.map((provider) => provider.id).join(',')}|${limit}|${query.trim().toLowerCase()}`;
+
+  const cached = await cache?.get(key).catch((error) => {
+    console.error('Failed to read cached citations', error);
+    return null;
+  });
+  if (cached) return cached;
+
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const search = (async () => {
+    const { citations, complete } = await queryProviders(query, providers, options.fetch ?? getCitationFetch(), limit);
+    if (complete) {
+      await cache?.set(key, citations).catch((error) => console.error('Failed to cache citations', error));
+    }
+    return citations;
+  })();
+  inFlight.set(key, search);
+  try {
+    return await search;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+async function queryProviders(
+  query: string,
+  providers: CitationProvider[],
+  fetchImpl: FetchLike,
+  limit: number,
+): Promise<{ citations: Citation[]; complete: boolean }> {
+  const citations: Citation[] = [];
+  let complete = true;
+
+  for (const provider of providers) {
+    if (citations.length >= limit) break;
+    try {
+      const results = await provider.search(query, { fetch: fetchImpl, limit: limit - citations.length });
+      results.forEach((citation) => {
+        if (citations.length < limit && !citations.some((existing) => existing.url === citation.url)) {
+          citations.push(citation);
+        }
+      });
+    } catch (error) {
+      complete = false;
+      console.error(`Citation provider "${provider.id}" failed for "${query}"`, error);
+    }
+  }
+
+  return { citations, complete };
+}
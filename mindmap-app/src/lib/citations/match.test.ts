@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchScore, queryTerms, truncate } from './match';
+
+describe('queryTerms', () => {
+  it('drops stop words and single Latin letters', () => {
+    assert.deepEqual(queryTerms('Treatment of the heart failure (a review)'), ['treatment', 'heart', 'failure', 'review']);
+  });
+
+  it('keeps letters of any script', () => {
+    assert.deepEqual(queryTerms('β-blockers'), ['β', 'blockers']);
+    assert.deepEqual(queryTerms('Сердечная недостаточность'), ['сердечная', 'недостаточность']);
+    assert.deepEqual(queryTerms('心力衰竭'), ['心力衰竭']);
+  });
+
+  it('folds Latin diacritics', () => {
+    assert.deepEqual(queryTerms('Ménière disease'), ['meniere', 'disease']);
+  });
+});
+
+describe('matchScore', () => {
+  it('matches accented and non-Latin text', () => {
+    assert.ok(matchScore(queryTerms('Meniere disease'), 'Ménière disease causes vertigo.'));
+    assert.ok(matchScore(queryTerms('β-blockers'), 'β-blockers lower mortality.'));
+  });
+
+  it('matches whole words only', () => {
+    assert.equal(matchScore(['ace', 'inhibitors'], 'Replace the inhibitors.'), null);
+    assert.ok(matchScore(['ace', 'inhibitors'], 'ACE inhibitors lower afterload.'));
+  });
+
+  it('treats singular and plural as one word', () => {
+    assert.ok(matchScore(queryTerms('beta blocker'), 'Beta blockers reduce mortality.'));
+  });
+
+  it('accepts passages with most of the terms and ranks fuller matches first', () => {
+    const terms = queryTerms('Heart failure loop diuretics relieve congestion quickly');
+    const full = matchScore(terms, 'In heart failure, loop diuretics relieve congestion quickly.');
+    const most = matchScore(terms, 'In heart failure, loop diuretics relieve congestion.');
+    const few = matchScore(terms, 'Heart failure is common.');
+    assert.ok(full !== null && most !== null);
+    assert.ok(full > most);
+    assert.equal(few, null);
+  });
+
+  it('returns null without terms', () => {
+    assert.equal(matchScore([], 'anything'), null);
+  });
+});
+
+describe('truncate', () => {
+  it('cuts long text with an ellipsis', () => {
+    assert.equal(truncate('abcdef', 4), 'abc…');
+    assert.equal(truncate('abc', 4), 'abc');
+  });
+});
@@ -0,0 +1,65 @@
+const STOP_WORDS = new Set(['and', 'the', 'for', 'with', 'from', 'into', 'of', 'in', 'on', 'to', 'a', 'an', 'or']);
+
+const WORD_SEPARATOR = /[^\p{L}\p{N}\p{M}]+/u;
+
+/** Lower-cased, without Latin diacritics, so "Ménière" matches "meniere". */
+function foldText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Lower-cased words of a query worth matching on, in any script. Single
+ * Latin letters and digits are dropped, but a single letter of another
+ * script (the β of "β-blockers") is kept.
+ */
+export function queryTerms(query: string): string[] {
+  return foldText(query)
+    .split(WORD_SEPARATOR)
+    .filter((term) => term && (term.length > 1 || !/^[a-z0-9]$/.test(term)) && !STOP_WORDS.has(term));
+}
+
+/**
+ * Share of the query terms a local match must contain. Claim queries add a
+ * sentence's key terms to the node title, and a passage backing the claim
+ * seldom repeats every one of them.
+ */
+const MIN_TERM_SHARE = 0.6;
+
+/** Drops a plural "s", so "blocker" and "blockers" are one word. */
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+/**
+ * Scores `text` against query terms for the local providers. Terms match
+ * whole words only ("ace" does not match "replace"). Null unless at least
+ * {@link MIN_TERM_SHARE} of the terms occur; otherwise ranked by how many
+ * terms occur and then by how often.
+ */
+export function matchScore(terms: string[], text: string): number | null {
+  const wanted = [...new Set(terms.map(stem))];
+  if (wanted.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  foldText(text)
+    .split(WORD_SEPARATOR)
+    .forEach((word) => {
+      if (word) counts.set(stem(word), (counts.get(stem(word)) ?? 0) + 1);
+    });
+
+  let matched = 0;
+  let occurrences = 0;
+  wanted.forEach((term) => {
+    const count = counts.get(term) ?? 0;
+    if (count > 0) {
+      matched += 1;
+      occurrences += count;
+    }
+  });
+  if (matched < Math.ceil(wanted.length * MIN_TERM_SHARE)) return null;
+  return matched + occurrences / (occurrences + 1);
+}
+
+export function truncate(text: string, maxLength = 300): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
@@ -0,0 +1,91 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { htmlToText } from '../../extractors/html';
+import { matchScore, queryTerms, truncate } from '../match';
+import type { CitationProvider } from '../types';
+
+export const GUIDELINE_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm'];
+
+type GuidelineDocument = {
+  fileName: string;
+  title: string;
+  paragraphs: string[];
+  modifiedAt: number;
+};
+
+const documentCache = new Map<string, GuidelineDocument>();
+
+export function getGuidelinesDir(): string | null {
+  const configured = process.env.GUIDELINES_DIR?.trim();
+  return configured ? path.resolve(configured) : null;
+}
+
+/** Guideline files are served by name, so only plain names with a known extension are accepted. */
+export function isGuidelineFileName(fileName: string): boolean {
+  return /^[\w][\w .-]*$/.test(fileName) && GUIDELINE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+async function loadDocument(dir: string, fileName: string): Promise<GuidelineDocument> {
+  const filePath = path.join(dir, fileName);
+  const { mtimeMs } = await stat(filePath);
+  const cached = documentCache.get(filePath);
+  if (cached && cached.modifiedAt === mtimeMs) {
+    return cached;
+  }
+
+  const raw = await readFile(filePath, 'utf8');
+  const extension = path.extname(fileName).toLowerCase();
+  const text = extension === '.html' || extension === '.htm' ? htmlToText(raw) : raw;
+  const heading = text.match(/^#\s+(.+)$/m)?.[1] ?? raw.match(/<title>([^<]+)<\/title>/i)?.[1];
+  const document: GuidelineDocument = {
+    fileName,
+    title: heading?.trim() || fileName.replace(/\.[^.]+$/, ''),
+    paragraphs: text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/^#+\s*/gm, '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean),
+    modifiedAt: mtimeMs,
+  };
+  documentCache.set(filePath, document);
+  return document;
+}
+
+/**
+ * Institutional guidelines kept as Markdown, text or HTML files in
+ * `GUIDELINES_DIR`. Paragraphs containing most of the query terms (see
+ * `matchScore`) are ranked by how many occur and how often; each citation
+ * links to the file via `/api/guidelines`.
+ */
+export const guidelinesProvider: CitationProvider = {
+  id: 'guidelines',
+  source: 'Local guideline',
+  async search(query, { limit }) {
+    const dir = getGuidelinesDir();
+    const terms = queryTerms(query);
+    if (!dir || terms.length === 0) {
+      return [];
+    }
+
+    const fileNames = (await readdir(dir)).filter(isGuidelineFileName);
+    const matches: Array<{ document: GuidelineDocument; paragraph: string; score: number }> = [];
+    for (const fileName of fileNames) {
+      const document = await loadDocument(dir, fileName);
+      document.paragraphs.forEach((paragraph) => {
+        const score = matchScore(terms, paragraph);
+        if (score !== null) {
+          matches.push({ document, paragraph, score });
+        }
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.paragraph.length - b.paragraph.length)
+      .slice(0, limit)
+      .map(({ document, paragraph }) => ({
+        title: document.title,
+        url: `/api/guidelines/${encodeURIComponent(document.fileName)}`,
+        snippet: truncate(paragraph),
+        source: guidelinesProvider.source,
+      }));
+  },
+};
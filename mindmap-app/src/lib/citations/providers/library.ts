@@ -0,0 +1,89 @@
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { matchScore, queryTerms, truncate } from '../match';
+import type { CitationProvider } from '../types';
+
+/**
+ * An entry of the reference library. Both the simple shape below and
+ * CSL-JSON (as exported by Zotero and Mendeley: `URL`, `DOI`, `abstract`,
+ * `keyword`) are accepted.
+ */
+type LibraryEntry = {
+  title?: string;
+  url?: string;
+  URL?: string;
+  DOI?: string;
+  snippet?: string;
+  abstract?: string;
+  keywords?: string[];
+  keyword?: string;
+};
+
+type Reference = {
+  title: string;
+  url: string;
+  snippet?: string;
+  searchText: string;
+};
+
+let cache: { filePath: string; modifiedAt: number; references: Reference[] } | null = null;
+
+function toReference(entry: LibraryEntry): Reference | null {
+  const url = entry.url ?? entry.URL ?? (entry.DOI ? `https://doi.org/${entry.DOI}` : undefined);
+  if (!entry.title || !url) {
+    return null;
+  }
+  const snippet = entry.snippet ?? entry.abstract;
+  const keywords = [...(entry.keywords ?? []), entry.keyword ?? ''].join(' ');
+  return {
+    title: entry.title,
+    url,
+    ...(snippet ? { snippet: truncate(snippet.replace(/\s+/g, ' ').trim()) } : {}),
+    searchText: `${entry.title} ${keywords} ${snippet ?? ''}`,
+  };
+}
+
+async function loadLibrary(filePath: string): Promise<Reference[]> {
+  const { mtimeMs } = await stat(filePath);
+  if (cache && cache.filePath === filePath && cache.modifiedAt === mtimeMs) {
+    return cache.references;
+  }
+
+  const parsed = JSON.parse(await readFile(filePath, 'utf8')) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`REFERENCE_LIBRARY_PATH must point to a JSON array of references.`);
+  }
+  const references = (parsed as LibraryEntry[])
+    .map(toReference)
+    .filter((reference): reference is Reference => reference !== null);
+  cache = { filePath, modifiedAt: mtimeMs, references };
+  return references;
+}
+
+/** A user-supplied reference list (JSON or CSL-JSON) at `REFERENCE_LIBRARY_PATH`. */
+export const libraryProvider: CitationProvider = {
+  id: 'library',
+  source: 'Reference library',
+  async search(query, { limit }) {
+    const configured = process.env.REFERENCE_LIBRARY_PATH?.trim();
+    const terms = queryTerms(query);
+    if (!configured || terms.length === 0) {
+      return [];
+    }
+
+    const references = await loadLibrary(path.resolve(configured));
+    return references
+      .flatMap((reference) => {
+        const score = matchScore(terms, reference.searchText);
+        return score === null ? [] : [{ reference, score }];
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ reference }) => ({
+        title: reference.title,
+        url: reference.url,
+        ...(reference.snippet ? { snippet: reference.snippet } : {}),
+        source: libraryProvider.source,
+      }));
+  },
+};
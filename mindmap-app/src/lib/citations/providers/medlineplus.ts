@@ -0,0 +1,78 @@
+import { XMLParser } from 'fast-xml-parser';
+import { REVALIDATE_SECONDS, USER_AGENT } from '../http';
+import type { CitationProvider } from '../types';
+
+type MedlineContent = {
+  ['@_name']?: string;
+  ['#text']?: string;
+  link?: { ['@_url']?: string } | Array<{ ['@_url']?: string }>;
+};
+
+type MedlineDocument = {
+  name?: string;
+  content?: MedlineContent | MedlineContent[];
+};
+
+type MedlineResponse = {
+  nlmSearchResult?: {
+    list?: {
+      document?: MedlineDocument | MedlineDocument[];
+    };
+  };
+};
+
+export const medlinePlusProvider: CitationProvider = {
+  id: 'medlineplus',
+  source: 'MedlinePlus',
+  async search(query, { fetch, limit }) {
+    const url = `https://wsearch.nlm.nih.gov/ws/query?db=healthTopics&term=${encodeURIComponent(query)}`;
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'application/xml',
+      },
+      next: { revalidate: REVALIDATE_SECONDS },
+    });
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const xml = await response.text();
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+    });
+    const parsed = parser.parse(xml) as MedlineResponse;
+    const documents = parsed.nlmSearchResult?.list?.document;
+
+    if (!documents) {
+      return [];
+    }
+
+    const docs = Array.isArray(documents) ? documents : [documents];
+
+    return docs.slice(0, limit).map((doc) => {
+      const contentRaw = doc.content;
+      const contentArray: MedlineContent[] = Array.isArray(contentRaw) ? contentRaw : contentRaw ? [contentRaw] : [];
+      const urlEdge = contentArray.find((c) => c?.['@_name'] === 'FullSummary');
+      const snippetEdge = contentArray.find((c) => c?.['@_name'] === 'Snippet');
+      const linkRaw = urlEdge?.link;
+      let linkUrl = '';
+
+      if (Array.isArray(linkRaw)) {
+        linkUrl = linkRaw[0]?.['@_url'] ?? '';
+      } else if (typeof linkRaw === 'object') {
+        linkUrl = linkRaw?.['@_url'] ?? '';
+      }
+
+      return {
+        title: doc?.name ?? query,
+        url: linkUrl || `https://medlineplus.gov/${encodeURIComponent(query.toLowerCase())}.html`,
+        snippet: snippetEdge?.['#text'] ?? undefined,
+        source: medlinePlusProvider.source,
+      };
+    });
+  },
+};
@@ -0,0 +1,83 @@
+import { REVALIDATE_SECONDS, USER_AGENT } from '../http';
+import type { CitationProvider } from '../types';
+
+const MESH_BASE = 'https://id.nlm.nih.gov/mesh';
+
+type MeshLookupResult = {
+  resource?: string;
+  label?: string;
+};
+
+type SparqlResponse = {
+  results?: { bindings?: Array<{ descriptor?: { value?: string }; scopeNote?: { value?: string } }> };
+};
+
+/** The scope note of each descriptor's preferred concept, i.e. the definition shown in the MeSH Browser. */
+function scopeNoteQuery(descriptorIds: string[]): string {
+  return `PREFIX meshv: <http://id.nlm.nih.gov/mesh/vocab#>
+SELECT ?descriptor ?scopeNote WHERE {
+  VALUES ?descriptor { ${descriptorIds.map((id) => `<http://id.nlm.nih.gov/mesh/${id}>`).join(' ')} }
+  ?descriptor meshv:preferredConcept ?concept .
+  ?concept meshv:scopeNote ?scopeNote .
+}`;
+}
+
+/**
+ * Matching MeSH descriptors from the NLM lookup service, linked to the MeSH
+ * Browser. Their scope notes, fetched in one SPARQL query, become the
+ * snippets that claims are checked against.
+ */
+export const meshProvider: CitationProvider = {
+  id: 'mesh',
+  source: 'MeSH',
+  async search(query, { fetch, limit }) {
+    const init = {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' },
+      next: { revalidate: REVALIDATE_SECONDS },
+    };
+
+    const params = new URLSearchParams({ label: query, match: 'contains', limit: String(limit) });
+    const response = await fetch(`${MESH_BASE}/lookup/descriptor?${params.toString()}`, init);
+    if (!response.ok) {
+      return [];
+    }
+
+    const results = (await response.json()) as MeshLookupResult[];
+    if (!Array.isArray(results)) {
+      return [];
+    }
+    const descriptors = results.slice(0, limit).flatMap((result) => {
+      const descriptorId = result.resource?.split('/').pop();
+      return descriptorId && result.label ? [{ descriptorId, label: result.label }] : [];
+    });
+    if (descriptors.length === 0) {
+      return [];
+    }
+
+    const sparqlParams = new URLSearchParams({
+      query: scopeNoteQuery(descriptors.map(({ descriptorId }) => descriptorId)),
+      format: 'JSON',
+    });
+    const notesResponse = await fetch(`${MESH_BASE}/sparql?${sparqlParams.toString()}`, init);
+    if (!notesResponse.ok) {
+      return [];
+    }
+    const scopeNotes = new Map(
+      (((await notesResponse.json()) as SparqlResponse).results?.bindings ?? []).flatMap((binding) => {
+        const descriptorId = binding.descriptor?.value?.split('/').pop();
+        const note = binding.scopeNote?.value?.replace(/\s+/g, ' ').trim();
+        return descriptorId && note ? [[descriptorId, note] as const] : [];
+      }),
+    );
+
+    return descriptors.map(({ descriptorId, label }) => {
+      const scopeNote = scopeNotes.get(descriptorId);
+      return {
+        title: label,
+        url: `https://meshb.nlm.nih.gov/record/ui?ui=${descriptorId}`,
+        ...(scopeNote ? { snippet: scopeNote } : {}),
+        source: meshProvider.source,
+      };
+    });
+  },
+};
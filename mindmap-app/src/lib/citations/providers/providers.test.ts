@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createFixtureFetch } from '../fixtures';
+import type { CitationSearchContext } from '../types';
+import { meshProvider } from './mesh';
+import { pubMedProvider } from './pubmed';
+import { wikipediaProvider } from './wikipedia';
+
+/** Responses in the recorded-fixture format for the query "heart failure", cut down to a few made-up records. */
+const context: CitationSearchContext = {
+  fetch: createFixtureFetch(path.join(__dirname, 'fixtures')),
+  limit: 3,
+};
+
+describe('network providers against recorded fixtures', () => {
+  before(() => {
+    // The recordings were made with a different key; it must not affect which fixture is found.
+    process.env.NCBI_API_KEY = 'replay-key';
+  });
+
+  after(() => {
+    delete process.env.NCBI_API_KEY;
+  });
+
+  it('uses PubMed abstracts as snippets, keeping section labels', async () => {
+    const citations = await pubMedProvider.search('heart failure', context);
+    assert.deepEqual(
+      citations.map(({ title, url }) => ({ title, url })),
+      [
+        {
+          title: 'SGLT2 inhibitors in heart failure with reduced ejection fraction: a meta-analysis.',
+          url: 'https://pubmed.ncbi.nlm.nih.gov/90000001/',
+        },
+        { title: 'Heart failure: a letter.', url: 'https://pubmed.ncbi.nlm.nih.gov/90000002/' },
+      ],
+    );
+    assert.match(citations[0].snippet ?? '', /^BACKGROUND: Sodium-glucose .* RESULTS: In patients .* \(HR 0\.74\) & the benefit/);
+    assert.equal(citations[1].snippet, undefined);
+  });
+
+  it('uses MeSH scope notes as snippets', async () => {
+    const citations = await meshProvider.search('heart failure', context);
+    assert.deepEqual(citations, [
+      {
+        title: 'Heart Failure',
+        url: 'https://meshb.nlm.nih.gov/record/ui?ui=D006333',
+        snippet:
+          'A heterogeneous condition in which the heart is unable to pump out sufficient blood to meet the metabolic need of the body.',
+        source: 'MeSH',
+      },
+      { title: 'Heart Failure, Systolic', url: 'https://meshb.nlm.nih.gov/record/ui?ui=D054143', source: 'MeSH' },
+    ]);
+  });
+
+  it('uses the Wikipedia page summary', async () => {
+    const [citation] = await wikipediaProvider.search('heart failure', context);
+    assert.equal(citation.url, 'https://en.wikipedia.org/wiki/Heart_failure');
+    assert.match(citation.snippet ?? '', /^Heart failure is a syndrome/);
+  });
+
+  it('treats a missing recording as a provider failure', async () => {
+    await assert.rejects(pubMedProvider.search('no such recording', context));
+  });
+});
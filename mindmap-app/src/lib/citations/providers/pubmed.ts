@@ -0,0 +1,119 @@
+import { XMLParser } from 'fast-xml-parser';
+import { htmlToText } from '../../extractors/html';
+import { REVALIDATE_SECONDS, USER_AGENT } from '../http';
+import { truncate } from '../match';
+import type { CitationProvider } from '../types';
+
+const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+/** Abstracts are the evidence claims are checked against, so far more is kept than for local snippets. */
+const ABSTRACT_MAX_LENGTH = 1500;
+
+type ESearchResponse = {
+  esearchresult?: { idlist?: string[] };
+};
+
+/** Elements kept raw (`stopNodes`) because they may hold inline markup such as `<i>`. */
+type RawText = string | { ['#text']?: string; ['@_Label']?: string };
+
+type EFetchArticle = {
+  MedlineCitation?: {
+    PMID?: RawText;
+    Article?: {
+      ArticleTitle?: RawText;
+      Abstract?: { AbstractText?: RawText[] };
+    };
+  };
+};
+
+type EFetchResponse = {
+  PubmedArticleSet?: { PubmedArticle?: EFetchArticle[] };
+};
+
+function eutilsUrl(tool: 'esearch' | 'efetch', params: Record<string, string>): string {
+  const search = new URLSearchParams({ db: 'pubmed', retmode: 'json', tool: 'medmind-cartographer', ...params });
+  const apiKey = process.env.NCBI_API_KEY;
+  if (apiKey) {
+    search.set('api_key', apiKey);
+  }
+  return `${EUTILS_BASE}/${tool}.fcgi?${search.toString()}`;
+}
+
+function rawText(value: RawText | undefined): string {
+  const text = typeof value === 'string' ? value : (value?.['#text'] ?? '');
+  return htmlToText(text.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/** Structured abstracts keep their section labels: "BACKGROUND: … RESULTS: …". */
+function abstractText(sections: RawText[] = []): string {
+  return sections
+    .map((section) => {
+      const label = typeof section === 'string' ? undefined : section['@_Label'];
+      const text = rawText(section);
+      return label && text ? `${label}: ${text}` : text;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * PubMed via NCBI E-utilities: `esearch` for relevant PMIDs, then `efetch`
+ * for their titles and abstracts. The abstract becomes the snippet, since it
+ * is what claim checks hold a summary against; articles without one get none.
+ */
+export const pubMedProvider: CitationProvider = {
+  id: 'pubmed',
+  source: 'PubMed',
+  async search(query, { fetch, limit }) {
+    const headers = { 'User-Agent': USER_AGENT };
+
+    const searchResponse = await fetch(
+      eutilsUrl('esearch', { term: query, retmax: String(limit), sort: 'relevance' }),
+      { headers: { ...headers, Accept: 'application/json' }, next: { revalidate: REVALIDATE_SECONDS } },
+    );
+    if (!searchResponse.ok) {
+      return [];
+    }
+    const ids = ((await searchResponse.json()) as ESearchResponse).esearchresult?.idlist ?? [];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const fetchResponse = await fetch(eutilsUrl('efetch', { id: ids.join(','), retmode: 'xml', rettype: 'abstract' }), {
+      headers: { ...headers, Accept: 'application/xml' },
+      next: { revalidate: REVALIDATE_SECONDS },
+    });
+    if (!fetchResponse.ok) {
+      return [];
+    }
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      parseTagValue: false,
+      isArray: (name) => name === 'PubmedArticle' || name === 'AbstractText',
+      stopNodes: ['*.ArticleTitle', '*.AbstractText'],
+    });
+    const articles = (parser.parse(await fetchResponse.text()) as EFetchResponse).PubmedArticleSet?.PubmedArticle ?? [];
+    const byId = new Map(
+      articles.map((article) => [rawText(article.MedlineCitation?.PMID), article.MedlineCitation?.Article] as const),
+    );
+
+    return ids.flatMap((id) => {
+      const article = byId.get(id);
+      const title = rawText(article?.ArticleTitle);
+      if (!article || !title) {
+        return [];
+      }
+      const abstract = abstractText(article.Abstract?.AbstractText);
+      return [
+        {
+          title,
+          url: `https://pubmed.ncbi.nlm.nih.gov/${id}/`,
+          ...(abstract ? { snippet: truncate(abstract, ABSTRACT_MAX_LENGTH) } : {}),
+          source: pubMedProvider.source,
+        },
+      ];
+    });
+  },
+};
@@ -0,0 +1,36 @@
+import { REVALIDATE_SECONDS, USER_AGENT } from '../http';
+import type { CitationProvider } from '../types';
+
+export const wikipediaProvider: CitationProvider = {
+  id: 'wikipedia',
+  source: 'Wikipedia',
+  async search(query, { fetch }) {
+    const url = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(query)}`;
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'application/json',
+      },
+      next: { revalidate: REVALIDATE_SECONDS },
+    });
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json();
+
+    if (!data?.content_urls?.desktop?.page) {
+      return [];
+    }
+
+    return [
+      {
+        title: data.title ?? query,
+        url: data.content_urls.desktop.page,
+        snippet: data.extract ?? undefined,
+        source: wikipediaProvider.source,
+      },
+    ];
+  },
+};
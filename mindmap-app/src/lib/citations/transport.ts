@@ -0,0 +1,122 @@
+import type { FetchLike } from './types';
+
+/**
+ * Requests per second allowed per host. MedlinePlus asks clients to stay
+ * under 85 requests a minute and NCBI allows 3 a second without an API key
+ * (10 with one); other hosts use `CITATION_RATE_LIMIT`.
+ */
+function defaultHostRates(): Record<string, number> {
+  return {
+    'wsearch.nlm.nih.gov': 1,
+    'eutils.ncbi.nlm.nih.gov': process.env.NCBI_API_KEY ? 10 : 3,
+  };
+}
+
+const DEFAULT_RATE_LIMIT = 5;
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_RETRY_AFTER_MS = 10_000;
+
+export type TransportOptions = {
+  /** Requests per second for hosts without an entry in `hostRates`. */
+  rateLimit: number;
+  hostRates: Record<string, number>;
+  timeoutMs: number;
+  /** Extra attempts after a timeout, network error, 429 or 5xx. */
+  retries: number;
+};
+
+function readPositiveNumber(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+/** Transport settings from `CITATION_RATE_LIMIT`, `CITATION_TIMEOUT_MS` and `CITATION_RETRIES`. */
+export function getTransportOptions(): TransportOptions {
+  const retries = Number(process.env.CITATION_RETRIES);
+  return {
+    rateLimit: readPositiveNumber('CITATION_RATE_LIMIT', DEFAULT_RATE_LIMIT),
+    hostRates: defaultHostRates(),
+    timeoutMs: readPositiveNumber('CITATION_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES,
+  };
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function requestHost(input: Parameters<FetchLike>[0]): string {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  return new URL(url).hostname;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** `Retry-After` in milliseconds (seconds or an HTTP date), capped so one host can't stall a run. */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) && ms > 0 ? Math.min(ms, MAX_RETRY_AFTER_MS) : null;
+}
+
+function backoffMs(attempt: number): number {
+  const delay = BASE_BACKOFF_MS * 2 ** attempt;
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Wraps `fetch` for outbound citation lookups: requests to each host are
+ * spaced to its rate limit, every attempt is cut off after `timeoutMs`, and
+ * timeouts, network errors, 429s and 5xx responses are retried with
+ * exponential backoff (honouring `Retry-After`). Retries queue behind the
+ * same per-host limit, so a struggling service is never hammered. Once
+ * retries run out a 429 or 5xx becomes an error, so the registry records a
+ * provider failure rather than an empty (and cacheable) result.
+ */
+export function createResilientFetch(base: FetchLike, options: TransportOptions = getTransportOptions()): FetchLike {
+  const nextSlot = new Map<string, number>();
+
+  const waitForSlot = async (host: string) => {
+    const interval = 1000 / (options.hostRates[host] ?? options.rateLimit);
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(host) ?? 0);
+    nextSlot.set(host, slot + interval);
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  };
+
+  return async (input, init) => {
+    const host = requestHost(input);
+
+    for (let attempt = 0; ; attempt += 1) {
+      await waitForSlot(host);
+      const timeout = AbortSignal.timeout(options.timeoutMs);
+      const signal = init?.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+
+      let response: Response;
+      try {
+        response = await base(input, { ...init, signal });
+      } catch (error) {
+        if (init?.signal?.aborted || attempt >= options.retries) {
+          throw error;
+        }
+        await sleep(backoffMs(attempt));
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status)) {
+        return response;
+      }
+      await response.body?.cancel();
+      if (attempt >= options.retries) {
+        throw new Error(`${host} responded with ${response.status} after ${attempt + 1} attempts`);
+      }
+      await sleep(retryAfterMs(response) ?? backoffMs(attempt));
+    }
+  };
+}
@@ -0,0 +1,25 @@
+import type { Citation } from '../types';
+
+export type CitationProviderId = 'guidelines' | 'library' | 'medlineplus' | 'pubmed' | 'mesh' | 'wikipedia';
+
+/** `fetch` as the providers use it; swapped for a fixture-backed version to run offline. */
+export type FetchLike = typeof fetch;
+
+export type CitationSearchContext = {
+  fetch: FetchLike;
+  /** Most citations the provider should return. */
+  limit: number;
+};
+
+export interface CitationProvider {
+  id: CitationProviderId;
+  /** Value written to `Citation.source`, which also picks the badge shown in the UI. */
+  source: string;
+  search(query: string, context: CitationSearchContext): Promise<Citation[]>;
+}
+
+export type CitationProviderSettings = {
+  enabled: boolean;
+  /** Lower runs first. */
+  priority: number;
+};
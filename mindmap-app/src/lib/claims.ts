@@ -0,0 +1,36 @@
+import type { ClaimCheck, ClaimVerdict, MindMapNode, VerificationStatus } from './types';
+
+export const CLAIM_VERDICTS: ClaimVerdict[] = ['supported', 'contradicted', 'not-found'];
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  verified: 'Verified',
+  partial: 'Partly supported',
+  contradicted: 'Contradicted',
+  unverified: 'Needs review',
+};
+
+/**
+ * Rolls claim verdicts up into a node status: a single contradicted claim
+ * outweighs any support, every claim must be supported for `verified`, and
+ * a node with no checked claims is `unverified`.
+ */
+export function deriveVerificationStatus(claims: ClaimCheck[]): VerificationStatus {
+  if (claims.length === 0) return 'unverified';
+  if (claims.some((claim) => claim.verdict === 'contradicted')) return 'contradicted';
+  const supported = claims.filter((claim) => claim.verdict === 'supported').length;
+  if (supported === claims.length) return 'verified';
+  return supported > 0 ? 'partial' : 'unverified';
+}
+
+/** Status of a node, falling back to the `verified` flag for maps saved before claim checks. */
+export function nodeVerificationStatus(node: Pick<MindMapNode, 'verified' | 'verificationStatus'>): VerificationStatus {
+  return node.verificationStatus ?? (node.verified ? 'verified' : 'unverified');
+}
+
+/** True when the title or summary changed after the node was last verified. */
+export function isVerificationStale(node: Pick<MindMapNode, 'title' | 'summary' | 'verifiedContent'>): boolean {
+  return Boolean(
+    node.verifiedContent &&
+      (node.verifiedContent.title !== node.title || node.verifiedContent.summary !== node.summary),
+  );
+}
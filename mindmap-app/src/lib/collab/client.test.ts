@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, afterEach, before, describe, it } from 'node:test';
+import WebSocket from 'ws';
+import { setCollapsed } from '../collapse';
+import { normalizeEdges } from '../graph';
+import { placeUnpositionedNodes, relayout } from '../layout';
+import type { MindMapNode, MindMapPayload } from '../types';
+import { connectCollab, type CollabConnection } from './client';
+import { createCollabServer } from './server';
+import type { CollabStatus } from './types';
+
+function node(id: string, title: string, parentIds: string[] = []): MindMapNode {
+  return { id, title, summary: `${title} summary.`, parentIds, importance: 3, tags: [], citations: [], verified: false };
+}
+
+const nodes = [node('hf', 'Heart failure'), node('dx', 'Diagnosis', ['hf']), node('bnp', 'BNP', ['dx']), node('tx', 'Treatment', ['hf'])];
+const base: MindMapPayload = {
+  generatedAt: '2026-01-02T03:04:05.000Z',
+  sourceSummary: 'Heart failure overview.',
+  nodes,
+  edges: normalizeEdges(nodes, []),
+};
+
+function edit(payload: MindMapPayload, id: string, fields: Partial<MindMapNode>): MindMapPayload {
+  return { ...payload, nodes: payload.nodes.map((item) => (item.id === id ? { ...item, ...fields } : item)) };
+}
+
+function find(payload: MindMapPayload | null, id: string): MindMapNode | undefined {
+  return payload?.nodes.find((item) => item.id === id);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) assert.fail('timed out waiting for the session');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+type Participant = {
+  connection: CollabConnection;
+  /** The map as last handed to the app by `onRemoteChange`. */
+  remote: () => MindMapPayload | null;
+  status: () => CollabStatus | null;
+};
+
+const open: CollabConnection[] = [];
+
+function join(mapId: string, name: string, initial: MindMapPayload | null): Participant {
+  let remote: MindMapPayload | null = null;
+  let status: CollabStatus | null = null;
+  const connection = connectCollab({
+    mapId,
+    user: { name, color: '#4f46e5' },
+    initial: initial ? { payload: initial, name: 'Cardiology' } : null,
+    onRemoteChange: (payload) => {
+      remote = payload;
+    },
+    onPeersChange: () => {},
+    onStatusChange: (next) => {
+      status = next;
+    },
+  });
+  open.push(connection);
+  return { connection, remote: () => remote, status: () => status };
+}
+
+describe('collaboration client', () => {
+  const collab = createCollabServer();
+  const server = createServer((_request, response) => response.writeHead(404).end());
+  server.on('upgrade', (request, socket, head) => {
+    if (!collab.handleUpgrade(request, socket, head)) socket.destroy();
+  });
+  const globals = globalThis as { WebSocket?: unknown };
+  const browserWebSocket = globals.WebSocket;
+
+  before(async () => {
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    process.env.NEXT_PUBLIC_COLLAB_URL = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    globals.WebSocket = WebSocket;
+  });
+
+  afterEach(() => {
+    open.splice(0).forEach((connection) => connection.close());
+  });
+
+  after(async () => {
+    globals.WebSocket = browserWebSocket;
+    delete process.env.NEXT_PUBLIC_COLLAB_URL;
+    collab.close();
+    server.close();
+    await once(server, 'close');
+  });
+
+  it("replays a joiner's edits made before the first sync onto the room's map", async () => {
+    const alice = join('pre-sync', 'Alice', base);
+    await waitFor(() => alice.status() === 'connected');
+    alice.connection.update(edit(base, 'tx', { title: 'Therapy' }));
+
+    // Bob starts from a saved copy and edits it before the room has answered.
+    const bob = join('pre-sync', 'Bob', base);
+    bob.connection.update(edit(base, 'bnp', { summary: 'Rules out heart failure when low.' }));
+
+    await waitFor(() => find(alice.remote(), 'bnp')?.summary === 'Rules out heart failure when low.');
+    assert.equal(find(bob.remote(), 'tx')?.title, 'Therapy');
+    assert.equal(find(bob.remote(), 'bnp')?.summary, 'Rules out heart failure when low.');
+    assert.equal(find(alice.remote(), 'tx')?.title, 'Therapy');
+  });
+
+  it('keeps collapse state to each participant', async () => {
+    const alice = join('collapse', 'Alice', base);
+    await waitFor(() => alice.status() === 'connected');
+    const bob = join('collapse', 'Bob', null);
+    await waitFor(() => bob.remote() !== null);
+
+    let aliceMap = setCollapsed(base, ['hf'], true);
+    alice.connection.update(edit(aliceMap, 'hf', { title: 'Chronic heart failure' }));
+    await waitFor(() => find(bob.remote(), 'hf')?.title === 'Chronic heart failure');
+    assert.equal(find(bob.remote(), 'hf')?.collapsed, undefined);
+
+    const bobMap = setCollapsed(bob.remote() as MindMapPayload, ['dx'], true);
+    bob.connection.update(bobMap);
+    aliceMap = edit(aliceMap, 'tx', { title: 'Therapy' });
+    alice.connection.update(aliceMap);
+    await waitFor(() => find(bob.remote(), 'tx')?.title === 'Therapy');
+    assert.equal(find(bob.remote(), 'dx')?.collapsed, true);
+    assert.equal(find(bob.remote(), 'hf')?.collapsed, undefined);
+  });
+
+  it('keeps every node placed for a participant whose peer re-lays out around a collapsed branch', async () => {
+    const laidOut = relayout(base, 'radial');
+    const alice = join('relayout', 'Alice', laidOut);
+    await waitFor(() => alice.status() === 'connected');
+    const bob = join('relayout', 'Bob', null);
+    await waitFor(() => bob.remote() !== null);
+
+    // Alice has Diagnosis collapsed, Bob has everything expanded.
+    alice.connection.update(relayout(setCollapsed(laidOut, ['dx'], true), 'tree-lr'));
+    await waitFor(() => bob.remote()?.layout === 'tree-lr');
+    const bobMap = bob.remote() as MindMapPayload;
+    assert.ok(bobMap.nodes.every((item) => item.position));
+    assert.equal(placeUnpositionedNodes(bobMap), bobMap);
+  });
+});
@@ -0,0 +1,240 @@
+import * as Y from 'yjs';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import { replayOnto } from '../history';
+import type { MindMapPayload } from '../types';
+import { readMapName, readPayload, withLocalFields, writeMapName, writePayload } from './doc';
+import { MESSAGE_AWARENESS, MESSAGE_SYNC, collabPath } from './protocol';
+import type { CollabStatus, CollabUser, Peer, PresenceState } from './types';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const USER_STORAGE_KEY = 'mindmap-collab-user';
+
+export const PRESENCE_COLORS = ['#e11d48', '#d97706', '#16a34a', '#0891b2', '#7c3aed', '#db2777', '#4f46e5', '#65a30d'];
+
+/** Marks changes that arrived from the server, so they are not sent back. */
+const REMOTE = Symbol('remote');
+
+export type CollabConnection = {
+  /** Writes the local map into the shared document; only the fields that changed are sent. */
+  update: (payload: MindMapPayload) => void;
+  rename: (name: string) => void;
+  setPresence: (presence: Partial<PresenceState>) => void;
+  close: () => void;
+};
+
+export type CollabOptions = {
+  mapId: string;
+  user: CollabUser;
+  /**
+   * This browser's copy of the map: it seeds the room when that turns out to
+   * be empty after the first sync, and is the base edits made before then
+   * are replayed from. Null without a copy.
+   */
+  initial: { payload: MindMapPayload; name: string } | null;
+  /**
+   * Another participant changed the map, or the first sync brought in the
+   * room's map. Collapse state is this participant's own, carried over from
+   * the last `update`.
+   */
+  onRemoteChange: (payload: MindMapPayload, name: string | null) => void;
+  onPeersChange: (peers: Peer[]) => void;
+  onStatusChange: (status: CollabStatus) => void;
+};
+
+/** WebSocket URL of a map's room: `NEXT_PUBLIC_COLLAB_URL` when set, otherwise the app's own origin. */
+export function collabUrl(mapId: string): string {
+  const base =
+    process.env.NEXT_PUBLIC_COLLAB_URL?.replace(/\/$/, '') ||
+    `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}`;
+  return `${base}${collabPath(mapId)}`;
+}
+
+/** The name and colour this browser shows to others, picked once and kept in localStorage. */
+export function loadCollabUser(): CollabUser {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(USER_STORAGE_KEY) ?? 'null') as Partial<CollabUser> | null;
+    if (stored && typeof stored.name === 'string' && typeof stored.color === 'string') {
+      return { name: stored.name, color: stored.color };
+    }
+  } catch {
+    // Fall through to a fresh identity.
+  }
+  const index = Math.floor(Math.random() * PRESENCE_COLORS.length);
+  return { name: `Guest ${Math.floor(Math.random() * 900) + 100}`, color: PRESENCE_COLORS[index] };
+}
+
+export function saveCollabUser(user: CollabUser): void {
+  window.localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+}
+
+function toPeer(clientId: number, state: Record<string, unknown>): Peer | null {
+  const user = state.user as Partial<CollabUser> | undefined;
+  if (!user || typeof user.name !== 'string' || typeof user.color !== 'string') return null;
+  const cursor = state.cursor as PresenceState['cursor'] | undefined;
+  return {
+    clientId,
+    user: { name: user.name, color: user.color },
+    cursor: cursor && typeof cursor.x === 'number' && typeof cursor.y === 'number' ? cursor : null,
+    editingNodeId: typeof state.editingNodeId === 'string' ? state.editingNodeId : null,
+  };
+}
+
+/**
+ * Joins a map's room and keeps a local Yjs copy of it in sync. Edits made
+ * while the connection is down stay in the local copy and are merged when
+ * it reconnects. Edits made before the first sync are replayed onto the
+ * room's map, so a joiner keeps them without overwriting anyone else's.
+ */
+export function connectCollab(options: CollabOptions): CollabConnection {
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState({ user: options.user, cursor: null, editingNodeId: null } satisfies PresenceState);
+
+  let socket: WebSocket | null = null;
+  let synced = false;
+  let closed = false;
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Latest local map; until the first sync it waits to see whether the room already has one. */
+  let latest = options.initial?.payload ?? null;
+
+  const send = (message: Uint8Array) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(message);
+  };
+
+  const sendAwareness = (clientIds: number[]) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds));
+    send(encoding.toUint8Array(encoder));
+  };
+
+  const emitRemote = () => {
+    const payload = readPayload(doc);
+    if (payload) options.onRemoteChange(withLocalFields(payload, latest), readMapName(doc));
+  };
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE) {
+      if (synced) emitRemote();
+      return;
+    }
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    send(encoding.toUint8Array(encoder));
+  });
+
+  awareness.on(
+    'update',
+    ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+      if (origin !== REMOTE) sendAwareness([...added, ...updated, ...removed]);
+    },
+  );
+  awareness.on('change', () => {
+    if (closed) return;
+    const peers = [...awareness.getStates()]
+      .filter(([clientId]) => clientId !== doc.clientID)
+      .map(([clientId, state]) => toPeer(clientId, state))
+      .filter((peer): peer is Peer => peer !== null);
+    options.onPeersChange(peers);
+  });
+
+  const finishFirstSync = () => {
+    synced = true;
+    const { initial } = options;
+    if (!initial || !latest) {
+      emitRemote();
+      return;
+    }
+    const room = readPayload(doc);
+    if (room === null) {
+      writePayload(doc, latest);
+      writeMapName(doc, initial.name);
+      return;
+    }
+    // Only the changes made since joining are written, on top of whatever the room holds now.
+    if (latest !== initial.payload) writePayload(doc, replayOnto(room, initial.payload, latest));
+    emitRemote();
+  };
+
+  const onMessage = (event: MessageEvent<ArrayBuffer>) => {
+    const decoder = decoding.createDecoder(new Uint8Array(event.data));
+    const type = decoding.readVarUint(decoder);
+    if (type === MESSAGE_SYNC) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      const syncType = syncProtocol.readSyncMessage(decoder, encoder, doc, REMOTE);
+      if (encoding.length(encoder) > 1) send(encoding.toUint8Array(encoder));
+      if (syncType === syncProtocol.messageYjsSyncStep2) {
+        if (!synced) finishFirstSync();
+        attempts = 0;
+        options.onStatusChange('connected');
+      }
+    } else if (type === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), REMOTE);
+    }
+  };
+
+  const connect = () => {
+    options.onStatusChange('connecting');
+    const current = new WebSocket(collabUrl(options.mapId));
+    current.binaryType = 'arraybuffer';
+    socket = current;
+
+    current.onopen = () => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, doc);
+      send(encoding.toUint8Array(encoder));
+      sendAwareness([doc.clientID]);
+    };
+    current.onmessage = onMessage;
+    current.onclose = () => {
+      if (socket !== current) return;
+      socket = null;
+      // Everyone else's presence is unknown until the next sync.
+      awarenessProtocol.removeAwarenessStates(
+        awareness,
+        [...awareness.getStates().keys()].filter((clientId) => clientId !== doc.clientID),
+        REMOTE,
+      );
+      if (closed) return;
+      options.onStatusChange('disconnected');
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts);
+      attempts += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    update(payload) {
+      // A joiner without a copy of the map has nothing of it to edit before the first sync.
+      if (!synced && !options.initial) return;
+      latest = payload;
+      if (synced) writePayload(doc, payload);
+    },
+    rename(name) {
+      if (synced) writeMapName(doc, name);
+    },
+    setPresence(presence) {
+      const state = awareness.getLocalState();
+      if (state) awareness.setLocalState({ ...state, ...presence });
+    },
+    close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      awarenessProtocol.removeAwarenessStates(awareness, [doc.clientID], 'local');
+      socket?.close();
+      socket = null;
+      awareness.destroy();
+      doc.destroy();
+    },
+  };
+}
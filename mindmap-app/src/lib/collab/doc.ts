@@ -0,0 +1,150 @@
+import * as Y from 'yjs';
+import type { MindMapEdge, MindMapNode, MindMapPayload } from '../types';
+
+/*
+ * A shared map lives in a Y.Doc as:
+ * - `nodes`: node id -> Y.Map of that node's fields, so concurrent edits to
+ *   different fields of one node (a title here, a position there) both survive
+ * - `order`: node ids in map order; may hold duplicates after concurrent edits
+ * - `edges`: edge id -> edge
+ * - `meta`: the remaining payload fields and the map's name
+ * Field values are plain JSON; the last writer wins per field. Collapse
+ * state is left out: each participant folds branches for themselves.
+ */
+const NODES = 'nodes';
+const ORDER = 'order';
+const EDGES = 'edges';
+const META = 'meta';
+
+const PAYLOAD_META_FIELDS = ['generatedAt', 'sourceSummary', 'layout'] as const;
+const NAME_FIELD = 'name';
+/** Node fields that only affect one participant's view and stay out of the document. */
+const LOCAL_NODE_FIELDS = ['collapsed'] as const;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sharedFields(node: Record<string, unknown>): Record<string, unknown> {
+  const fields = { ...node };
+  LOCAL_NODE_FIELDS.forEach((key) => delete fields[key]);
+  return fields;
+}
+
+/** Sets the fields that changed and deletes the ones `fields` no longer has. */
+function writeFields(shared: Y.Map<unknown>, fields: Record<string, unknown>, managed?: readonly string[]) {
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (!sameValue(shared.get(key), value)) shared.set(key, value);
+  });
+  [...shared.keys()].forEach((key) => {
+    if ((managed ? managed.includes(key) : true) && fields[key] === undefined) shared.delete(key);
+  });
+}
+
+/**
+ * Writes `payload` into the shared document as the smallest set of field
+ * changes, in one transaction. Writing the map the document already holds
+ * changes nothing and sends nothing.
+ */
+export function writePayload(doc: Y.Doc, payload: MindMapPayload, origin?: unknown): void {
+  const nodes = doc.getMap<Y.Map<unknown>>(NODES);
+  const order = doc.getArray<string>(ORDER);
+  const edges = doc.getMap<MindMapEdge>(EDGES);
+  const meta = doc.getMap<unknown>(META);
+
+  doc.transact(() => {
+    const nodeIds = new Set(payload.nodes.map((node) => node.id));
+    [...nodes.keys()].forEach((id) => {
+      if (!nodeIds.has(id)) nodes.delete(id);
+    });
+    payload.nodes.forEach((node) => {
+      let shared = nodes.get(node.id);
+      if (!shared) {
+        shared = new Y.Map<unknown>();
+        nodes.set(node.id, shared);
+      }
+      writeFields(shared, sharedFields(node));
+    });
+
+    const wanted = payload.nodes.map((node) => node.id);
+    if (!sameValue(order.toArray(), wanted)) {
+      order.delete(0, order.length);
+      order.insert(0, wanted);
+    }
+
+    const edgeIds = new Set(payload.edges.map((edge) => edge.id));
+    [...edges.keys()].forEach((id) => {
+      if (!edgeIds.has(id)) edges.delete(id);
+    });
+    payload.edges.forEach((edge) => {
+      if (!sameValue(edges.get(edge.id), edge)) edges.set(edge.id, edge);
+    });
+
+    writeFields(meta, { generatedAt: payload.generatedAt, sourceSummary: payload.sourceSummary, layout: payload.layout }, PAYLOAD_META_FIELDS);
+  }, origin);
+}
+
+/**
+ * The map held by the shared document, or null while it is empty. Edges
+ * whose nodes were deleted concurrently are left out.
+ */
+export function readPayload(doc: Y.Doc): MindMapPayload | null {
+  const meta = doc.getMap<unknown>(META);
+  const generatedAt = meta.get('generatedAt');
+  if (typeof generatedAt !== 'string') return null;
+
+  const nodes = doc.getMap<Y.Map<unknown>>(NODES);
+  const seen = new Set<string>();
+  const ids = doc
+    .getArray<string>(ORDER)
+    .toArray()
+    .filter((id) => {
+      if (seen.has(id) || !nodes.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  // Nodes added while another participant rewrote the order go last.
+  [...nodes.keys()].sort().forEach((id) => {
+    if (!seen.has(id)) ids.push(id);
+  });
+
+  const edges = [...doc.getMap<MindMapEdge>(EDGES).values()]
+    .filter((edge) => seen.has(edge.source) && seen.has(edge.target))
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const layout = meta.get('layout');
+
+  return {
+    nodes: ids.map((id) => sharedFields((nodes.get(id) as Y.Map<unknown>).toJSON()) as MindMapNode),
+    edges,
+    generatedAt,
+    sourceSummary: typeof meta.get('sourceSummary') === 'string' ? (meta.get('sourceSummary') as string) : '',
+    ...(typeof layout === 'string' ? { layout: layout as MindMapPayload['layout'] } : {}),
+  };
+}
+
+/** Gives a map read from the document this participant's own collapse state, taken from `local`. */
+export function withLocalFields(payload: MindMapPayload, local: MindMapPayload | null): MindMapPayload {
+  const localById = new Map(local?.nodes.map((node) => [node.id, node]));
+  return {
+    ...payload,
+    nodes: payload.nodes.map((node) => {
+      const own = localById.get(node.id);
+      const next = { ...node };
+      LOCAL_NODE_FIELDS.forEach((key) => {
+        if (own?.[key] !== undefined) next[key] = own[key];
+      });
+      return next;
+    }),
+  };
+}
+
+export function readMapName(doc: Y.Doc): string | null {
+  const name = doc.getMap<unknown>(META).get(NAME_FIELD);
+  return typeof name === 'string' ? name : null;
+}
+
+export function writeMapName(doc: Y.Doc, name: string, origin?: unknown): void {
+  const meta = doc.getMap<unknown>(META);
+  if (meta.get(NAME_FIELD) !== name) doc.transact(() => meta.set(NAME_FIELD, name), origin);
+}
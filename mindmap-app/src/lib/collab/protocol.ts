@@ -0,0 +1,15 @@
+/**
+ * Wire format shared by the collaboration server and its clients. It is the
+ * y-websocket protocol: each binary message starts with a varint type,
+ * followed by a y-protocols sync or awareness message. Any y-websocket
+ * client can join a room.
+ */
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+
+/** Rooms are addressed as `/api/collab/<map id>`. */
+export const COLLAB_PATH_PREFIX = '/api/collab/';
+
+export function collabPath(mapId: string): string {
+  return `${COLLAB_PATH_PREFIX}${encodeURIComponent(mapId)}`;
+}
@@ -0,0 +1,184 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { once } from 'node:events';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { connect, type Socket } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import WebSocket from 'ws';
+import * as Y from 'yjs';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import { MESSAGE_AWARENESS, MESSAGE_SYNC, collabPath } from './protocol';
+import { createCollabServer } from './server';
+
+const REMOTE = Symbol('remote');
+
+type Participant = {
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  close: () => Promise<void>;
+};
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) assert.fail('timed out waiting for the room');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** A minimal y-websocket client: sync steps 1 and 2, updates and awareness. */
+async function joinRoom(port: number, mapId: string, name: string): Promise<Participant> {
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState({ user: { name, color: '#4f46e5' } });
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${collabPath(mapId)}`);
+  let synced = false;
+
+  const sendAwareness = (clientIds: number[]) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds));
+    socket.send(encoding.toUint8Array(encoder));
+  };
+
+  socket.on('message', (data: Buffer) => {
+    const decoder = decoding.createDecoder(new Uint8Array(data));
+    const type = decoding.readVarUint(decoder);
+    if (type === MESSAGE_SYNC) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      const syncType = syncProtocol.readSyncMessage(decoder, encoder, doc, REMOTE);
+      if (encoding.length(encoder) > 1) socket.send(encoding.toUint8Array(encoder));
+      if (syncType === syncProtocol.messageYjsSyncStep2) synced = true;
+    } else if (type === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), REMOTE);
+    }
+  });
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE) return;
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    socket.send(encoding.toUint8Array(encoder));
+  });
+
+  await once(socket, 'open');
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, doc);
+  socket.send(encoding.toUint8Array(encoder));
+  sendAwareness([doc.clientID]);
+  await waitFor(() => synced);
+
+  return {
+    doc,
+    awareness,
+    async close() {
+      socket.close();
+      await once(socket, 'close');
+      awareness.destroy();
+      doc.destroy();
+    },
+  };
+}
+
+/** Completes the WebSocket handshake by hand, so the test can write frames no `ws` client would send. */
+async function rawUpgrade(port: number, mapId: string): Promise<Socket> {
+  const socket = connect(port, '127.0.0.1');
+  await once(socket, 'connect');
+  socket.write(
+    [
+      `GET ${collabPath(mapId)} HTTP/1.1`,
+      'Host: 127.0.0.1',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+      'Sec-WebSocket-Version: 13',
+      '',
+      '',
+    ].join('\r\n'),
+  );
+  const [response] = (await once(socket, 'data')) as [Buffer];
+  assert.match(response.toString('latin1'), /^HTTP\/1\.1 101 /);
+  return socket;
+}
+
+describe('collaboration server', () => {
+  const collab = createCollabServer();
+  const server = createServer((_request, response) => response.writeHead(404).end());
+  server.on('upgrade', (request, socket, head) => {
+    if (!collab.handleUpgrade(request, socket, head)) socket.destroy();
+  });
+  let port = 0;
+
+  before(async () => {
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    collab.close();
+    server.close();
+    await once(server, 'close');
+  });
+
+  it('relays edits and presence between participants', async () => {
+    const alice = await joinRoom(port, 'cardiology', 'Alice');
+    alice.doc.getMap('nodes').set('hf', 'Heart failure');
+    const bob = await joinRoom(port, 'cardiology', 'Bob');
+
+    assert.equal(bob.doc.getMap('nodes').get('hf'), 'Heart failure');
+    bob.doc.getMap('nodes').set('tx', 'Treatment');
+    await waitFor(() => alice.doc.getMap('nodes').get('tx') === 'Treatment');
+    await waitFor(() => bob.awareness.getStates().has(alice.doc.clientID));
+    await waitFor(() => alice.awareness.getStates().has(bob.doc.clientID));
+
+    await alice.close();
+    await waitFor(() => !bob.awareness.getStates().has(alice.doc.clientID));
+    await bob.close();
+  });
+
+  it('drops the room with its last participant', async () => {
+    const first = await joinRoom(port, 'transient', 'Alice');
+    first.doc.getMap('nodes').set('hf', 'Heart failure');
+    await first.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const second = await joinRoom(port, 'transient', 'Bob');
+    assert.equal(second.doc.getMap('nodes').size, 0);
+    await second.close();
+  });
+
+  it('disconnects a client sending an unmasked frame and keeps serving', async () => {
+    const bob = await joinRoom(port, 'cardiology', 'Bob');
+    const socket = await rawUpgrade(port, 'cardiology');
+    // A binary frame without the mask bit, which clients must always set.
+    socket.write(Buffer.from([0x82, 0x01, MESSAGE_SYNC]));
+    await once(socket, 'close');
+
+    const alice = await joinRoom(port, 'cardiology', 'Alice');
+    alice.doc.getMap('nodes').set('hf', 'Heart failure');
+    await waitFor(() => bob.doc.getMap('nodes').get('hf') === 'Heart failure');
+    await alice.close();
+    await bob.close();
+  });
+
+  it('disconnects a client announcing an oversized frame and keeps serving', async () => {
+    const socket = await rawUpgrade(port, 'cardiology');
+    // Masked binary frame header claiming 32 MiB, above the server's payload limit.
+    const header = Buffer.alloc(14);
+    header[0] = 0x82;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(32 * 1024 * 1024), 2);
+    socket.write(header);
+    await once(socket, 'close');
+
+    const alice = await joinRoom(port, 'cardiology', 'Alice');
+    await alice.close();
+  });
+});
@@ -0,0 +1,181 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import { isValidMapId } from '../storage/types';
+import { COLLAB_PATH_PREFIX, MESSAGE_AWARENESS, MESSAGE_SYNC } from './protocol';
+
+const PING_INTERVAL_MS = 30_000;
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+type Room = {
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  /** Awareness client ids each connection has announced, removed when it disconnects. */
+  connections: Map<WebSocket, Set<number>>;
+};
+
+export type CollabServer = {
+  /**
+   * Takes over an HTTP upgrade to `/api/collab/<map id>`. Returns false for
+   * any other path so the caller can pass it on (e.g. to Next's HMR socket).
+   */
+  handleUpgrade: (request: IncomingMessage, socket: Duplex, head: Buffer) => boolean;
+  close: () => void;
+};
+
+function send(connection: WebSocket, message: Uint8Array) {
+  if (connection.readyState !== connection.OPEN) return;
+  connection.send(message, (error) => {
+    if (error) connection.close();
+  });
+}
+
+function awarenessMessage(awareness: awarenessProtocol.Awareness, clientIds: number[]): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds));
+  return encoding.toUint8Array(encoder);
+}
+
+function toBytes(data: RawData): Uint8Array {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Relays Yjs documents between the participants of each map. Rooms live in
+ * memory and are dropped when their last participant leaves; every client
+ * keeps its own saved copy, and the first one to rejoin seeds the room again.
+ */
+export function createCollabServer(): CollabServer {
+  const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Room>();
+
+  const openRoom = (mapId: string): Room => {
+    const existing = rooms.get(mapId);
+    if (existing) return existing;
+
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    // The server relays presence but is not a participant itself.
+    awareness.setLocalState(null);
+    const room: Room = { doc, awareness, connections: new Map() };
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      const message = encoding.toUint8Array(encoder);
+      room.connections.forEach((_, connection) => {
+        if (connection !== origin) send(connection, message);
+      });
+    });
+
+    awareness.on(
+      'update',
+      ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+        const owned = room.connections.get(origin as WebSocket);
+        if (owned) {
+          added.forEach((clientId) => owned.add(clientId));
+          removed.forEach((clientId) => owned.delete(clientId));
+        }
+        const message = awarenessMessage(awareness, [...added, ...updated, ...removed]);
+        room.connections.forEach((_, connection) => send(connection, message));
+      },
+    );
+
+    rooms.set(mapId, room);
+    return room;
+  };
+
+  const leaveRoom = (mapId: string, room: Room, connection: WebSocket) => {
+    const owned = room.connections.get(connection);
+    if (!owned) return;
+    room.connections.delete(connection);
+    awarenessProtocol.removeAwarenessStates(room.awareness, [...owned], null);
+    if (room.connections.size === 0) {
+      room.awareness.destroy();
+      room.doc.destroy();
+      rooms.delete(mapId);
+    }
+  };
+
+  const onMessage = (room: Room, connection: WebSocket, data: Uint8Array) => {
+    try {
+      const decoder = decoding.createDecoder(data);
+      const encoder = encoding.createEncoder();
+      const type = decoding.readVarUint(decoder);
+      if (type === MESSAGE_SYNC) {
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, connection);
+        // Only a sync step 1 needs an answer; the encoder then holds more than the message type.
+        if (encoding.length(encoder) > 1) send(connection, encoding.toUint8Array(encoder));
+      } else if (type === MESSAGE_AWARENESS) {
+        awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), connection);
+      }
+    } catch (error) {
+      console.warn('Dropping malformed collaboration message', error);
+      connection.close(1003, 'Malformed message');
+    }
+  };
+
+  const join = (mapId: string, connection: WebSocket) => {
+    const room = openRoom(mapId);
+    room.connections.set(connection, new Set());
+
+    let alive = true;
+    const ping = setInterval(() => {
+      if (!alive) {
+        connection.terminate();
+        return;
+      }
+      alive = false;
+      connection.ping();
+    }, PING_INTERVAL_MS);
+    connection.on('pong', () => {
+      alive = true;
+    });
+    connection.on('message', (data) => onMessage(room, connection, toBytes(data)));
+    connection.on('close', () => {
+      clearInterval(ping);
+      leaveRoom(mapId, room, connection);
+    });
+    // Protocol violations (unmasked or oversized frames) arrive here; without a listener they would crash the server.
+    connection.on('error', (error) => {
+      console.warn('Dropping collaboration connection', error);
+      clearInterval(ping);
+      leaveRoom(mapId, room, connection);
+      connection.terminate();
+    });
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(connection, encoding.toUint8Array(encoder));
+    const present = [...room.awareness.getStates().keys()];
+    if (present.length > 0) send(connection, awarenessMessage(room.awareness, present));
+  };
+
+  return {
+    handleUpgrade(request, socket, head) {
+      const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+      if (!pathname.startsWith(COLLAB_PATH_PREFIX)) return false;
+      const mapId = pathname.slice(COLLAB_PATH_PREFIX.length);
+      if (!isValidMapId(mapId)) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return true;
+      }
+      sockets.handleUpgrade(request, socket, head, (connection) => join(mapId, connection));
+      return true;
+    },
+    close() {
+      sockets.clients.forEach((connection) => connection.terminate());
+      sockets.close();
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export type CollabUser = {
+  name: string;
+  color: string;
+};
+
+/** What each participant shares with the others through Yjs awareness. */
+export type PresenceState = {
+  user: CollabUser;
+  /** Pointer position in canvas (flow) coordinates, or null when the pointer is off the canvas. */
+  cursor: { x: number; y: number } | null;
+  /** Node open in the participant's node editor. */
+  editingNodeId: string | null;
+};
+
+export type Peer = PresenceState & {
+  clientId: number;
+};
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
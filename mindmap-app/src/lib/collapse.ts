@@ -0,0 +1,140 @@
+import { ancestorIds } from './graph';
+import type { MindMapPayload } from './types';
+
+function hierarchyChildren(payload: MindMapPayload): Map<string, string[]> {
+  const ids = new Set(payload.nodes.map((node) => node.id));
+  const children = new Map<string, string[]>();
+  payload.nodes.forEach((node) => {
+    node.parentIds.forEach((parentId) => {
+      if (ids.has(parentId) && parentId !== node.id) {
+        children.set(parentId, [...(children.get(parentId) ?? []), node.id]);
+      }
+    });
+  });
+  return children;
+}
+
+function rootIds(payload: MindMapPayload): string[] {
+  const ids = new Set(payload.nodes.map((node) => node.id));
+  return payload.nodes
+    .filter((node) => !node.parentIds.some((parentId) => ids.has(parentId) && parentId !== node.id))
+    .map((node) => node.id);
+}
+
+function reachable(children: Map<string, string[]>, start: string[], stopAt: Set<string>): Set<string> {
+  const found = new Set<string>();
+  const stack = [...start];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (found.has(id)) continue;
+    found.add(id);
+    if (!stopAt.has(id)) stack.push(...(children.get(id) ?? []));
+  }
+  return found;
+}
+
+/** Number of direct children of each node that has any. */
+export function childCounts(payload: MindMapPayload): Map<string, number> {
+  return new Map([...hierarchyChildren(payload)].map(([id, children]) => [id, children.length]));
+}
+
+/**
+ * Nodes hidden by collapsed branches. A node with several parents stays
+ * visible as long as one of them is visible and expanded.
+ */
+export function hiddenByCollapse(payload: MindMapPayload): Set<string> {
+  const collapsed = new Set(payload.nodes.filter((node) => node.collapsed).map((node) => node.id));
+  if (collapsed.size === 0) return new Set();
+
+  const children = hierarchyChildren(payload);
+  const visible = reachable(children, rootIds(payload), collapsed);
+  const hidden = new Set<string>();
+  collapsed.forEach((id) => {
+    if (!visible.has(id)) return;
+    reachable(children, children.get(id) ?? [], new Set()).forEach((below) => {
+      if (!visible.has(below)) hidden.add(below);
+    });
+  });
+  return hidden;
+}
+
+/** For each collapsed node, how many nodes its collapse hides, for the badge on the node. */
+export function collapsedDescendantCounts(payload: MindMapPayload, hidden: Set<string>): Map<string, number> {
+  const children = hierarchyChildren(payload);
+  return new Map(
+    payload.nodes
+      .filter((node) => node.collapsed && !hidden.has(node.id))
+      .map((node) => {
+        const below = reachable(children, children.get(node.id) ?? [], new Set());
+        return [node.id, [...below].filter((id) => hidden.has(id)).length];
+      }),
+  );
+}
+
+/** The map without hidden nodes and their edges, which is what the layouts arrange. */
+export function visiblePayload(payload: MindMapPayload): MindMapPayload {
+  const hidden = hiddenByCollapse(payload);
+  if (hidden.size === 0) return payload;
+  return {
+    ...payload,
+    nodes: payload.nodes.filter((node) => !hidden.has(node.id)),
+    edges: payload.edges.filter((edge) => !hidden.has(edge.source) && !hidden.has(edge.target)),
+  };
+}
+
+/** Shortest distance of each node from a root; roots are at depth 0. */
+export function nodeDepths(payload: MindMapPayload): Map<string, number> {
+  const children = hierarchyChildren(payload);
+  const depths = new Map<string, number>();
+  let level = rootIds(payload);
+  for (let depth = 0; level.length > 0; depth += 1) {
+    const next: string[] = [];
+    level.forEach((id) => {
+      if (depths.has(id)) return;
+      depths.set(id, depth);
+      next.push(...(children.get(id) ?? []));
+    });
+    level = next;
+  }
+  // Nodes only reachable through a cycle count as roots, as in the layouts.
+  payload.nodes.forEach((node) => {
+    if (!depths.has(node.id)) depths.set(node.id, 0);
+  });
+  return depths;
+}
+
+/** Collapses or expands the given nodes; leaves are never collapsed. Returns the payload unchanged when nothing changes. */
+export function setCollapsed(payload: MindMapPayload, nodeIds: string[], collapsed: boolean): MindMapPayload {
+  const targets = new Set(nodeIds);
+  const children = hierarchyChildren(payload);
+  let changed = false;
+  const nodes = payload.nodes.map((node) => {
+    if (!targets.has(node.id) || Boolean(node.collapsed) === collapsed) return node;
+    if (collapsed && !children.has(node.id)) return node;
+    changed = true;
+    if (collapsed) return { ...node, collapsed: true };
+    const rest = { ...node };
+    delete rest.collapsed;
+    return rest;
+  });
+  return changed ? { ...payload, nodes } : payload;
+}
+
+/**
+ * Shows `depth` levels below the roots and collapses everything deeper.
+ * `Infinity` expands the whole map and 0 leaves only the roots.
+ */
+export function expandToDepth(payload: MindMapPayload, depth: number): MindMapPayload {
+  const depths = nodeDepths(payload);
+  const children = hierarchyChildren(payload);
+  const parents = payload.nodes.filter((node) => children.has(node.id));
+  const deep = parents.filter((node) => (depths.get(node.id) ?? 0) >= depth).map((node) => node.id);
+  const shallow = parents.filter((node) => (depths.get(node.id) ?? 0) < depth).map((node) => node.id);
+  return setCollapsed(setCollapsed(payload, shallow, false), deep, true);
+}
+
+/** Expands whatever hides `nodeId`, so it can be shown on the canvas. */
+export function revealNode(payload: MindMapPayload, nodeId: string): MindMapPayload {
+  if (!hiddenByCollapse(payload).has(nodeId)) return payload;
+  return setCollapsed(payload, [...ancestorIds(payload, nodeId)], false);
+}
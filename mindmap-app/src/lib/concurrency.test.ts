@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order with at most `limit` calls in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay, index) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight -= 1;
+      return index;
+    });
+    assert.deepEqual(results, [0, 1, 2, 3]);
+    assert.equal(peak, 2);
+  });
+
+  it('starts no further calls once the signal aborts', async () => {
+    const abort = new AbortController();
+    const started: number[] = [];
+    await assert.rejects(
+      mapWithConcurrency(
+        [1, 2, 3, 4],
+        1,
+        async (item) => {
+          started.push(item);
+          if (item === 2) abort.abort(new Error('client left'));
+        },
+        abort.signal,
+      ),
+      /client left/,
+    );
+    assert.deepEqual(started, [1, 2]);
+  });
+});
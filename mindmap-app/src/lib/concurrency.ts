@@ -0,0 +1,28 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight and returns
+ * the results in input order. A rejected call rejects the whole run, so
+ * workers that should not abort the batch must catch their own errors.
+ * Once `signal` aborts no further calls start; the run waits for the ones in
+ * flight and then rejects with the abort reason.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  signal?.throwIfAborted();
+  return results;
+}
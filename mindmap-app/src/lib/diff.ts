@@ -0,0 +1,70 @@
+export type DiffSegment = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Word-level diff of two strings using a longest-common-subsequence table.
+ * Whitespace runs are kept as their own tokens so joining the `equal` and
+ * `added` segments reproduces `after` exactly. Adjacent segments of the same
+ * type are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i]);
+      i += 1;
+    } else {
+      push('added', b[j]);
+      j += 1;
+    }
+  }
+  while (i < a.length) {
+    push('removed', a[i]);
+    i += 1;
+  }
+  while (j < b.length) {
+    push('added', b[j]);
+    j += 1;
+  }
+
+  return segments;
+}
+
+export function diffTags(before: string[], after: string[]): { kept: string[]; added: string[]; removed: string[] } {
+  return {
+    kept: after.filter((tag) => before.includes(tag)),
+    added: after.filter((tag) => !before.includes(tag)),
+    removed: before.filter((tag) => !after.includes(tag)),
+  };
+}
@@ -0,0 +1,82 @@
+import { completeStructured, validateExpansion, type LlmProvider } from './llm';
+import type { ExpandNodeRequest, MindMapNode, NodeExpansion } from './types';
+
+/**
+ * Asks the model for the next level of detail under one node. The ancestors
+ * keep the new concepts in scope, and the source passages keep them
+ * anchored to the user's notes. New IDs are prefixed with the expanded
+ * node's ID so they don't collide with the rest of the map.
+ */
+export async function proposeExpansion(request: ExpandNodeRequest, llm: LlmProvider): Promise<NodeExpansion> {
+  const { node, ancestors, existingChildren, passages } = request;
+  const path = [...ancestors.map((ancestor) => ancestor.title), node.title].join(' > ');
+  const ancestorsText =
+    ancestors.length > 0
+      ? ancestors.map((ancestor) => `- ${ancestor.title}: ${ancestor.summary}`).join('\n')
+      : 'None (this is a top-level concept).';
+  const passagesText =
+    passages.length > 0 ? passages.map((passage) => `"""\n${passage}\n"""`).join('\n') : 'No source passages available.';
+  const childrenText = existingChildren.length > 0 ? existingChildren.join(', ') : 'None';
+
+  const prompt = `You are expanding one node of a medical study mind map into more detailed sub-concepts.
+
+Map path: ${path}
+
+Node to expand:
+Title: ${node.title}
+Summary: ${node.summary}
+Tags: ${node.tags.join(', ') || 'None'}
+
+Ancestors (broadest first):
+${ancestorsText}
+
+Children it already has (do not repeat these): ${childrenText}
+
+Relevant source passages:
+${passagesText}
+
+Produce 3 to 7 new sub-concepts that break "${node.title}" down further: mechanisms, subtypes, specific drugs or tests, thresholds, complications. Prefer what the source passages support; add standard textbook detail only where the passages are silent.
+
+Rules:
+- New nodes that sit directly under "${node.title}" have empty parentIds; a deeper node lists the ID of one of the new nodes as its parent.
+- Summaries are <= 35 words and clinically precise.
+- Importance is 1 to 5 and no higher than ${node.importance}.
+- IDs are unique slugs.
+- Edges are optional cross-links between the new nodes.
+
+Respond with JSON:
+{
+  "nodes": Array<{
+    "id": string,
+    "title": string,
+    "summary": string,
+    "parentIds": string[],
+    "importance": 1 | 2 | 3 | 4 | 5,
+    "tags": string[]
+  }>,
+  "edges": Array<{ "source": string, "target": string, "label"?: string }>
+}`;
+
+  const parsed = await completeStructured(
+    llm,
+    { feature: 'expansion', input: prompt, metadata: { node: node.id } },
+    validateExpansion,
+  );
+
+  const prefixed = (id: string) => `${node.id}--${id}`;
+  const nodes: MindMapNode[] = parsed.nodes.map((child) => ({
+    id: prefixed(child.id),
+    title: child.title,
+    summary: child.summary,
+    parentIds: (child.parentIds ?? []).map(prefixed),
+    importance: Math.min(node.importance, child.importance ?? 3),
+    tags: child.tags ?? [],
+    citations: [],
+    verified: false,
+  }));
+
+  return {
+    nodes,
+    edges: parsed.edges.map((edge) => ({ ...edge, source: prefixed(edge.source), target: prefixed(edge.target) })),
+  };
+}
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  JSON_EXPORT_FORMAT,
+  buildOutline,
+  fileBaseName,
+  serializeMindMap,
+  toFreeMind,
+  toMarkdown,
+  toMermaidGraph,
+  toMermaidMindmap,
+  toOpml,
+} from './export';
+import type { MindMapNode, MindMapPayload } from './types';
+
+function node(id: string, title: string, parentIds: string[] = [], extra: Partial<MindMapNode> = {}): MindMapNode {
+  return { id, title, summary: `${title} summary`, parentIds, importance: 3, tags: [], citations: [], verified: false, ...extra };
+}
+
+const guideline = { title: 'ESC HF guideline', url: 'https://example.org/esc', source: 'guidelines' };
+
+const payload: MindMapPayload = {
+  generatedAt: '2026-01-02T03:04:05.000Z',
+  sourceSummary: 'Heart failure overview.',
+  nodes: [
+    node('hf', 'Heart failure', [], { importance: 5, tags: ['core'], citations: [guideline] }),
+    node('dx', 'Diagnosis', ['hf'], { citations: [guideline] }),
+    node('bnp', 'BNP & "NT-proBNP"', ['dx']),
+    node('tx', 'Treatment', ['hf']),
+  ],
+  edges: [
+    { id: 'h-hf-dx', source: 'hf', target: 'dx', kind: 'hierarchy' },
+    { id: 'h-dx-bnp', source: 'dx', target: 'bnp', kind: 'hierarchy' },
+    { id: 'h-hf-tx', source: 'hf', target: 'tx', kind: 'hierarchy' },
+    { id: 'x-bnp-tx', source: 'bnp', target: 'tx', kind: 'cross-link', label: 'guides' },
+  ],
+};
+
+describe('buildOutline', () => {
+  it('nests nodes under their first parent in payload order', () => {
+    const [root] = buildOutline(payload);
+    assert.equal(root.node.id, 'hf');
+    assert.deepEqual(
+      root.children.map((child) => child.node.id),
+      ['dx', 'tx'],
+    );
+    assert.equal(root.children[0].children[0].node.id, 'bnp');
+  });
+
+  it('surfaces nodes on a parent cycle instead of dropping them', () => {
+    const outline = buildOutline({ ...payload, nodes: [node('a', 'A', ['b']), node('b', 'B', ['a'])], edges: [] });
+    assert.deepEqual(
+      outline.map((item) => item.node.id),
+      ['a'],
+    );
+    assert.equal(outline[0].children[0].node.id, 'b');
+  });
+});
+
+describe('serializers', () => {
+  it('wraps the payload in a versioned JSON envelope', () => {
+    const document = JSON.parse(serializeMindMap(payload, 'Cardiology', 'json').content);
+    assert.equal(document.format, JSON_EXPORT_FORMAT);
+    assert.equal(document.name, 'Cardiology');
+    assert.deepEqual(document.payload, payload);
+  });
+
+  it('writes Markdown with shared footnotes and related concepts', () => {
+    const markdown = toMarkdown(payload, 'Cardiology');
+    assert.match(markdown, /^# Cardiology\n/);
+    assert.match(markdown, /^- \*\*Heart failure\*\* — Heart failure summary\[\^1\]$/m);
+    assert.match(markdown, /^ {2}- \*\*Diagnosis\*\* — Diagnosis summary\[\^1\]$/m);
+    assert.match(markdown, /^- BNP & "NT-proBNP" → Treatment \(guides\)$/m);
+    assert.equal(markdown.match(/^\[\^1\]:/gm)?.length, 1);
+  });
+
+  it('escapes XML in OPML and FreeMind', () => {
+    assert.match(toOpml(payload, 'Cardiology'), /text="BNP &amp; &quot;NT-proBNP&quot;"/);
+    const freeMind = toFreeMind(payload, 'Cardiology');
+    assert.match(freeMind, /<node ID="bnp" TEXT="BNP &amp; &quot;NT-proBNP&quot;">/);
+    assert.match(freeMind, /<arrowlink DESTINATION="tx" MIDDLE_LABEL="guides"\/>/);
+  });
+
+  it('wraps several roots under the map name where one root is required', () => {
+    const twoRoots = { ...payload, nodes: [node('a', 'A'), node('b', 'B')], edges: [] };
+    assert.match(toFreeMind(twoRoots, 'Cardiology'), /^ {2}<node ID="export-root" TEXT="Cardiology">/m);
+    assert.match(toMermaidMindmap(twoRoots, 'Cardiology'), /^ {2}n0\(\("Cardiology"\)\)$/m);
+  });
+
+  it('draws cross-links dotted in the Mermaid graph', () => {
+    const graph = toMermaidGraph(payload);
+    assert.match(graph, /^ {2}n2\["BNP & #quot;NT-proBNP#quot;"\]$/m);
+    assert.match(graph, /^ {2}n2 -\.->\|"guides"\| n3$/m);
+    assert.match(graph, /^ {2}n0 --> n1$/m);
+  });
+});
+
+describe('fileBaseName', () => {
+  it('slugs Latin names', () => {
+    assert.equal(fileBaseName('  Heart Failure: HFrEF vs HFpEF! '), 'heart-failure-hfref-vs-hfpef');
+  });
+
+  it('keeps letters of non-Latin scripts', () => {
+    assert.equal(fileBaseName('Сердечная недостаточность'), 'сердечная-недостаточность');
+    assert.equal(fileBaseName('心力衰竭 概要'), '心力衰竭-概要');
+    assert.equal(fileBaseName('β-Blockers'), 'β-blockers');
+  });
+
+  it('falls back to a default name', () => {
+    assert.equal(fileBaseName('???'), 'mind-map');
+    assert.equal(serializeMindMap(payload, '', 'mermaid-graph').fileName, 'mind-map-graph.mmd');
+  });
+});
@@ -0,0 +1,318 @@
+import type { Citation, MindMapNode, MindMapPayload } from './types';
+
+export type ExportFormat = 'json' | 'markdown' | 'opml' | 'freemind' | 'mermaid-mindmap' | 'mermaid-graph';
+
+/** Envelope written by the JSON export so imports can recognise and version it. */
+export const JSON_EXPORT_FORMAT = 'medmind-cartographer';
+export const JSON_EXPORT_VERSION = 1;
+
+export type JsonExport = {
+  format: typeof JSON_EXPORT_FORMAT;
+  version: number;
+  name: string;
+  payload: MindMapPayload;
+};
+
+export type ExportedFile = {
+  fileName: string;
+  mimeType: string;
+  content: string;
+};
+
+export type OutlineNode = {
+  node: MindMapNode;
+  children: OutlineNode[];
+};
+
+/**
+ * Turns the node graph into a tree for the outline formats. A node with
+ * several parents is placed under the first one that exists; nodes whose
+ * parents are all missing (or only reachable through a cycle) become roots.
+ * Sibling order follows the payload's node order.
+ */
+export function buildOutline(payload: MindMapPayload): OutlineNode[] {
+  const ids = new Set(payload.nodes.map((node) => node.id));
+  const children = new Map<string, MindMapNode[]>();
+  const roots: MindMapNode[] = [];
+
+  payload.nodes.forEach((node) => {
+    const parentId = node.parentIds.find((id) => id !== node.id && ids.has(id));
+    if (parentId) {
+      children.set(parentId, [...(children.get(parentId) ?? []), node]);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const placed = new Set<string>();
+  const build = (node: MindMapNode): OutlineNode => {
+    placed.add(node.id);
+    return {
+      node,
+      children: (children.get(node.id) ?? []).filter((child) => !placed.has(child.id)).map(build),
+    };
+  };
+
+  const outline = roots.map(build);
+  // Anything left over sits on a parent cycle; surface it at the top level
+  // rather than dropping it.
+  payload.nodes.forEach((node) => {
+    if (!placed.has(node.id)) {
+      outline.push(build(node));
+    }
+  });
+  return outline;
+}
+
+/** Wraps several roots under one titled node for formats that need a single root. */
+function singleRoot(outline: OutlineNode[], title: string): OutlineNode {
+  if (outline.length === 1) return outline[0];
+  return {
+    node: {
+      id: 'export-root',
+      title,
+      summary: '',
+      parentIds: [],
+      importance: 5,
+      tags: [],
+      citations: [],
+      verified: false,
+    },
+    children: outline,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+export function toJson(payload: MindMapPayload, name: string): string {
+  const document: JsonExport = { format: JSON_EXPORT_FORMAT, version: JSON_EXPORT_VERSION, name, payload };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Nested bullet outline. Each node is a bold title followed by its summary;
+ * citations become numbered footnotes shared across nodes by URL.
+ */
+export function toMarkdown(payload: MindMapPayload, name: string): string {
+  const footnotes: Citation[] = [];
+  const footnoteIndex = new Map<string, number>();
+  const footnoteFor = (citation: Citation) => {
+    const key = citation.url || citation.title;
+    let index = footnoteIndex.get(key);
+    if (index === undefined) {
+      footnotes.push(citation);
+      index = footnotes.length;
+      footnoteIndex.set(key, index);
+    }
+    return `[^${index}]`;
+  };
+
+  const lines: string[] = [`# ${singleLine(name)}`, ''];
+  if (payload.sourceSummary) {
+    lines.push(singleLine(payload.sourceSummary), '');
+  }
+
+  const write = (item: OutlineNode, depth: number) => {
+    const { node } = item;
+    const markers = node.citations.map(footnoteFor).join('');
+    const summary = singleLine(node.summary);
+    lines.push(`${'  '.repeat(depth)}- **${singleLine(node.title)}**${summary ? ` — ${summary}` : ''}${markers}`);
+    if (node.tags.length > 0) {
+      lines.push(`${'  '.repeat(depth + 1)}_${node.tags.map(singleLine).join(', ')}_`);
+    }
+    item.children.forEach((child) => write(child, depth + 1));
+  };
+  buildOutline(payload).forEach((item) => write(item, 0));
+
+  const crossLinks = payload.edges.filter((edge) => edge.kind === 'cross-link');
+  if (crossLinks.length > 0) {
+    const titles = new Map(payload.nodes.map((node) => [node.id, singleLine(node.title)]));
+    lines.push('', '## Related concepts', '');
+    crossLinks.forEach((edge) => {
+      const label = edge.label ? ` (${singleLine(edge.label)})` : '';
+      lines.push(`- ${titles.get(edge.source) ?? edge.source} → ${titles.get(edge.target) ?? edge.target}${label}`);
+    });
+  }
+
+  if (footnotes.length > 0) {
+    lines.push('');
+    footnotes.forEach((citation, index) => {
+      const link = citation.url ? `[${singleLine(citation.title)}](${citation.url})` : singleLine(citation.title);
+      lines.push(`[^${index + 1}]: ${link} — ${citation.source}`);
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** OPML 2.0 outline; summaries go in `_note`, tags and importance in custom attributes. */
+export function toOpml(payload: MindMapPayload, name: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(name)}</title>`,
+    `    <dateCreated>${new Date(payload.generatedAt).toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  const write = (item: OutlineNode, depth: number) => {
+    const { node } = item;
+    const indent = '  '.repeat(depth + 2);
+    const attributes = [
+      `text="${escapeXml(node.title)}"`,
+      node.summary ? `_note="${escapeXml(node.summary)}"` : '',
+      node.tags.length > 0 ? `category="${escapeXml(node.tags.join(','))}"` : '',
+      `importance="${node.importance}"`,
+      node.citations[0]?.url ? `url="${escapeXml(node.citations[0].url)}"` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    if (item.children.length === 0) {
+      lines.push(`${indent}<outline ${attributes}/>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attributes}>`);
+    item.children.forEach((child) => write(child, depth + 1));
+    lines.push(`${indent}</outline>`);
+  };
+  buildOutline(payload).forEach((item) => write(item, 0));
+
+  lines.push('  </body>', '</opml>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * FreeMind 1.0 `.mm` document. FreeMind needs a single root, so maps with
+ * several roots are wrapped under a node named after the map. Summaries are
+ * stored as notes and cross-links as arrow links.
+ */
+export function toFreeMind(payload: MindMapPayload, name: string): string {
+  const crossLinks = payload.edges.filter((edge) => edge.kind === 'cross-link');
+  const lines = ['<map version="1.0.1">'];
+
+  const write = (item: OutlineNode, depth: number) => {
+    const { node } = item;
+    const indent = '  '.repeat(depth + 1);
+    const link = node.citations[0]?.url ? ` LINK="${escapeXml(node.citations[0].url)}"` : '';
+    lines.push(`${indent}<node ID="${escapeXml(node.id)}" TEXT="${escapeXml(node.title)}"${link}>`);
+    if (node.summary) {
+      lines.push(
+        `${indent}  <richcontent TYPE="NOTE"><html><head/><body><p>${escapeXml(node.summary)}</p></body></html></richcontent>`,
+      );
+    }
+    crossLinks
+      .filter((edge) => edge.source === node.id)
+      .forEach((edge) => {
+        const label = edge.label ? ` MIDDLE_LABEL="${escapeXml(edge.label)}"` : '';
+        lines.push(`${indent}  <arrowlink DESTINATION="${escapeXml(edge.target)}"${label}/>`);
+      });
+    node.tags.forEach((tag) => {
+      lines.push(`${indent}  <attribute NAME="tag" VALUE="${escapeXml(tag)}"/>`);
+    });
+    lines.push(`${indent}  <attribute NAME="importance" VALUE="${node.importance}"/>`);
+    item.children.forEach((child) => write(child, depth + 1));
+    lines.push(`${indent}</node>`);
+  };
+  write(singleRoot(buildOutline(payload), name), 0);
+
+  lines.push('</map>');
+  return `${lines.join('\n')}\n`;
+}
+
+/** Mermaid labels are quoted, so only quotes and line breaks need escaping. */
+function mermaidLabel(value: string): string {
+  return singleLine(value).replace(/"/g, '#quot;');
+}
+
+/** Indentation-based Mermaid `mindmap`; the root is drawn as a circle. */
+export function toMermaidMindmap(payload: MindMapPayload, name: string): string {
+  const lines = ['mindmap'];
+  let counter = 0;
+
+  const write = (item: OutlineNode, depth: number) => {
+    const id = `n${counter}`;
+    counter += 1;
+    const label = mermaidLabel(item.node.title);
+    lines.push(`${'  '.repeat(depth + 1)}${depth === 0 ? `${id}(("${label}"))` : `${id}["${label}"]`}`);
+    item.children.forEach((child) => write(child, depth + 1));
+  };
+  write(singleRoot(buildOutline(payload), name), 0);
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** Mermaid flowchart keeping every edge: hierarchy edges solid, cross-links dotted. */
+export function toMermaidGraph(payload: MindMapPayload): string {
+  const ids = new Map(payload.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['graph LR'];
+
+  payload.nodes.forEach((node) => {
+    lines.push(`  ${ids.get(node.id)}["${mermaidLabel(node.title)}"]`);
+  });
+  payload.edges.forEach((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+    const arrow = edge.kind === 'cross-link' ? '-.->' : '-->';
+    const label = edge.label ? `|"${mermaidLabel(edge.label)}"|` : '';
+    lines.push(`  ${source} ${arrow}${label} ${target}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  opml: { extension: 'opml', mimeType: 'text/x-opml' },
+  freemind: { extension: 'mm', mimeType: 'application/x-freemind' },
+  'mermaid-mindmap': { extension: 'mmd', mimeType: 'text/plain' },
+  'mermaid-graph': { extension: 'mmd', mimeType: 'text/plain' },
+};
+
+/** File-name slug of a map name; letters of any script are kept. */
+export function fileBaseName(name: string): string {
+  const slug = name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'mind-map';
+}
+
+export function serializeMindMap(payload: MindMapPayload, name: string, format: ExportFormat): ExportedFile {
+  const content = (() => {
+    switch (format) {
+      case 'json':
+        return toJson(payload, name);
+      case 'markdown':
+        return toMarkdown(payload, name);
+      case 'opml':
+        return toOpml(payload, name);
+      case 'freemind':
+        return toFreeMind(payload, name);
+      case 'mermaid-mindmap':
+        return toMermaidMindmap(payload, name);
+      case 'mermaid-graph':
+        return toMermaidGraph(payload);
+    }
+  })();
+
+  const { extension, mimeType } = FORMAT_DETAILS[format];
+  const suffix = format === 'mermaid-graph' ? '-graph' : '';
+  return { fileName: `${fileBaseName(name)}${suffix}.${extension}`, mimeType, content };
+}
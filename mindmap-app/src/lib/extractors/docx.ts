@@ -0,0 +1,10 @@
+import mammoth from 'mammoth';
+import { singlePage, type SourceExtractor } from './types';
+
+export const docxExtractor: SourceExtractor = {
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  async extract(data) {
+    const result = await mammoth.extractRawText({ buffer: data });
+    return singlePage(result.value);
+  },
+};
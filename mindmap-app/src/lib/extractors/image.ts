@@ -0,0 +1,25 @@
+import { createWorker } from 'tesseract.js';
+import { singlePage, type SourceExtractor } from './types';
+
+/**
+ * OCR runs in-process with Tesseract, so the image itself never leaves the
+ * server. Languages come from `OCR_LANGUAGES` (default `eng`). Their trained
+ * data is read from `OCR_LANG_PATH` when set; otherwise tesseract.js
+ * downloads it from the jsDelivr CDN on first use and caches it in the
+ * working directory, so offline deployments must set `OCR_LANG_PATH`.
+ */
+export const imageExtractor: SourceExtractor = {
+  mimeTypes: ['image/png', 'image/jpeg'],
+  async extract(data) {
+    const languages = (process.env.OCR_LANGUAGES ?? 'eng').split('+').filter(Boolean);
+    const langPath = process.env.OCR_LANG_PATH;
+    const worker = await createWorker(languages, undefined, langPath ? { langPath } : {});
+
+    try {
+      const result = await worker.recognize(data);
+      return singlePage(result.data.text);
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
@@ -0,0 +1,20 @@
+import { docxExtractor } from './docx';
+import { htmlExtractor } from './html';
+import { imageExtractor } from './image';
+import { pdfExtractor } from './pdf';
+import { textExtractor } from './text';
+import type { SourceExtractor } from './types';
+
+export type { ExtractedSource, SourceExtractor } from './types';
+
+const registry = new Map<string, SourceExtractor>();
+
+export function registerExtractor(extractor: SourceExtractor) {
+  extractor.mimeTypes.forEach((mimeType) => registry.set(mimeType, extractor));
+}
+
+[pdfExtractor, docxExtractor, textExtractor, htmlExtractor, imageExtractor].forEach(registerExtractor);
+
+export function getExtractor(mimeType: string): SourceExtractor | undefined {
+  return registry.get(mimeType);
+}
@@ -0,0 +1,31 @@
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { SourceExtractor } from './types';
+
+export const pdfExtractor: SourceExtractor = {
+  mimeTypes: ['application/pdf'],
+  async extract(data) {
+    const uintArray = new Uint8Array(data);
+    const pdf = await pdfjsLib.getDocument({ data: uintArray }).promise;
+    const pages: string[] = [];
+
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const pageText = content.items
+          .map((item) => {
+            if (typeof item === 'string') return item;
+            const textItem = item as TextItem;
+            return textItem.str ?? '';
+          })
+          .join(' ');
+        pages.push(pageText);
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    return { text: pages.join('\n').trim(), pages, paged: true };
+  },
+};
@@ -0,0 +1,9 @@
+import { singlePage, type SourceExtractor } from './types';
+
+/** Plain text and Markdown are passed through as-is; the model reads Markdown fine. */
+export const textExtractor: SourceExtractor = {
+  mimeTypes: ['text/plain', 'text/markdown'],
+  async extract(data) {
+    return singlePage(data.toString('utf8'));
+  },
+};
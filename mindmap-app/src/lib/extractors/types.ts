@@ -0,0 +1,20 @@
+/**
+ * Text pulled out of a source document, page by page. Formats without pages
+ * return a single page and `paged: false`, so grounding reports passages
+ * without page numbers.
+ */
+export type ExtractedSource = {
+  text: string;
+  pages: string[];
+  paged: boolean;
+};
+
+export interface SourceExtractor {
+  mimeTypes: string[];
+  extract(data: Buffer): Promise<ExtractedSource>;
+}
+
+export function singlePage(text: string): ExtractedSource {
+  const trimmed = text.trim();
+  return { text: trimmed, pages: trimmed ? [trimmed] : [], paged: false };
+}
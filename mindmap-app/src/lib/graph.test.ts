@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mergeExpansion, normalizeEdges } from './graph';
+import type { MindMapNode, MindMapPayload } from './types';
+
+function node(id: string, title: string, parentIds: string[] = []): MindMapNode {
+  return { id, title, summary: `${title} summary.`, parentIds, importance: 3, tags: [], citations: [], verified: false };
+}
+
+function map(nodes: MindMapNode[]): MindMapPayload {
+  return { generatedAt: '2026-01-02T03:04:05.000Z', sourceSummary: '', nodes, edges: normalizeEdges(nodes, []) };
+}
+
+const payload = map([node('hf', 'Heart failure'), node('tx', 'Treatment', ['hf']), node('bb', 'β-blockers', ['tx'])]);
+
+describe('mergeExpansion', () => {
+  it('adds new concepts under the expanded node', () => {
+    const merged = mergeExpansion(payload, 'tx', {
+      nodes: [node('diuretics', 'Diuretics'), node('loop', 'Loop diuretics', ['diuretics'])],
+      edges: [],
+    });
+    assert.deepEqual(
+      merged.nodes.slice(3).map((item) => [item.id, item.parentIds]),
+      [
+        ['diuretics', ['tx']],
+        ['loop', ['diuretics']],
+      ],
+    );
+    assert.ok(merged.edges.some((edge) => edge.kind === 'hierarchy' && edge.source === 'tx' && edge.target === 'diuretics'));
+  });
+
+  it('links to a concept the map already has instead of adding it again', () => {
+    const merged = mergeExpansion(payload, 'hf', { nodes: [node('beta', 'β-Blockers')], edges: [] });
+    assert.equal(merged.nodes.length, 3);
+    assert.ok(merged.edges.some((edge) => edge.kind === 'cross-link' && edge.source === 'hf' && edge.target === 'bb'));
+  });
+
+  it('keeps Greek-letter concepts apart', () => {
+    const merged = mergeExpansion(payload, 'tx', { nodes: [node('bb', 'α-blockers')], edges: [] });
+    assert.deepEqual(
+      merged.nodes.map((item) => item.id),
+      ['hf', 'tx', 'bb', 'bb-2'],
+    );
+  });
+
+  it('never matches titles without a concept key', () => {
+    const withSymbol = map([...payload.nodes, node('q', '???', ['hf'])]);
+    const merged = mergeExpansion(withSymbol, 'tx', {
+      nodes: [node('plus', '+'), node('minus', '–')],
+      edges: [],
+    });
+    assert.deepEqual(
+      merged.nodes.slice(4).map((item) => [item.id, item.parentIds]),
+      [
+        ['plus', ['tx']],
+        ['minus', ['tx']],
+      ],
+    );
+    assert.ok(!merged.edges.some((edge) => edge.kind === 'cross-link'));
+  });
+});
@@ -0,0 +1,372 @@
+import { conceptKey } from './merge';
+import type { MindMapEdge, MindMapEdgeKind, MindMapNode, MindMapPayload, NodeExpansion } from './types';
+
+type EdgeInput = {
+  source: string;
+  target: string;
+  label?: string;
+};
+
+/** Deterministic ID so the same relationship keeps its ID across regenerations. */
+export function edgeId(kind: MindMapEdgeKind, source: string, target: string): string {
+  return `${kind}:${source}->${target}`;
+}
+
+/**
+ * Builds the edge list for a set of nodes: one `hierarchy` edge per
+ * parent/child link in `parentIds`, plus model-provided edges. A provided edge
+ * between the same parent and child only lends its label to the hierarchy
+ * edge; anything else becomes a `cross-link`. Edges touching unknown nodes,
+ * self-loops and repeated pairs are dropped.
+ */
+export function normalizeEdges(nodes: Pick<MindMapNode, 'id' | 'parentIds'>[], providedEdges: EdgeInput[]): MindMapEdge[] {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges = new Map<string, MindMapEdge>();
+
+  nodes.forEach((node) => {
+    node.parentIds.forEach((parentId) => {
+      if (!nodeIds.has(parentId) || parentId === node.id) return;
+      const id = edgeId('hierarchy', parentId, node.id);
+      if (!edges.has(id)) {
+        edges.set(id, { id, source: parentId, target: node.id, kind: 'hierarchy' });
+      }
+    });
+  });
+
+  providedEdges.forEach((edge) => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target) || edge.source === edge.target) return;
+    const label = edge.label?.trim() || undefined;
+
+    const hierarchy = edges.get(edgeId('hierarchy', edge.source, edge.target));
+    if (hierarchy) {
+      if (label && !hierarchy.label) {
+        hierarchy.label = label;
+      }
+      return;
+    }
+
+    const id = edgeId('cross-link', edge.source, edge.target);
+    const existing = edges.get(id);
+    if (existing) {
+      if (label && !existing.label) {
+        existing.label = label;
+      }
+      return;
+    }
+    edges.set(id, { id, source: edge.source, target: edge.target, kind: 'cross-link', ...(label ? { label } : {}) });
+  });
+
+  return [...edges.values()];
+}
+
+/** Removes nodes along with their edges and any `parentIds` that pointed at them. */
+export function removeNodes(payload: MindMapPayload, nodeIds: string[]): MindMapPayload {
+  const removed = new Set(nodeIds);
+  return {
+    ...payload,
+    nodes: payload.nodes
+      .filter((node) => !removed.has(node.id))
+      .map((node) =>
+        node.parentIds.some((parentId) => removed.has(parentId))
+          ? { ...node, parentIds: node.parentIds.filter((parentId) => !removed.has(parentId)) }
+          : node,
+      ),
+    edges: payload.edges.filter((edge) => !removed.has(edge.source) && !removed.has(edge.target)),
+  };
+}
+
+/** Removes edges; removing a hierarchy edge also unlinks the child from that parent. */
+export function removeEdges(payload: MindMapPayload, edgeIds: string[]): MindMapPayload {
+  const removed = payload.edges.filter((edge) => edgeIds.includes(edge.id));
+  const unlinked = removed.filter((edge) => edge.kind === 'hierarchy');
+  return {
+    ...payload,
+    nodes: payload.nodes.map((node) => {
+      const dropped = unlinked.filter((edge) => edge.target === node.id).map((edge) => edge.source);
+      return dropped.length > 0 ? { ...node, parentIds: node.parentIds.filter((id) => !dropped.includes(id)) } : node;
+    }),
+    edges: payload.edges.filter((edge) => !edgeIds.includes(edge.id)),
+  };
+}
+
+/** Adds a cross-link unless the two nodes are already connected in that direction. */
+export function addCrossLink(payload: MindMapPayload, source: string, target: string, label?: string): MindMapPayload {
+  if (source === target || payload.edges.some((edge) => edge.source === source && edge.target === target)) {
+    return payload;
+  }
+  const id = edgeId('cross-link', source, target);
+  return {
+    ...payload,
+    edges: [...payload.edges, { id, source, target, kind: 'cross-link', ...(label ? { label } : {}) }],
+  };
+}
+
+/**
+ * Rebuilds hierarchy edges from `parentIds` after parents changed. Labels of
+ * parent links that survive are kept; hierarchy edges whose link is gone are
+ * dropped rather than turned into cross-links.
+ */
+function syncHierarchyEdges(nodes: MindMapNode[], edges: MindMapEdge[]): MindMapEdge[] {
+  const parentsOf = new Map(nodes.map((node) => [node.id, node.parentIds]));
+  return normalizeEdges(
+    nodes,
+    edges.filter((edge) => edge.kind === 'cross-link' || parentsOf.get(edge.target)?.includes(edge.source)),
+  );
+}
+
+/** IDs of every node below `nodeId` through `parentIds`, not including itself. */
+export function descendantIds(payload: MindMapPayload, nodeId: string): Set<string> {
+  const children = new Map<string, string[]>();
+  payload.nodes.forEach((node) => {
+    node.parentIds.forEach((parentId) => children.set(parentId, [...(children.get(parentId) ?? []), node.id]));
+  });
+  const found = new Set<string>();
+  const stack = [...(children.get(nodeId) ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === nodeId || found.has(id)) continue;
+    found.add(id);
+    stack.push(...(children.get(id) ?? []));
+  }
+  return found;
+}
+
+/** IDs of every node above `nodeId` through `parentIds`, not including itself. */
+export function ancestorIds(payload: MindMapPayload, nodeId: string): Set<string> {
+  const parents = new Map(payload.nodes.map((node) => [node.id, node.parentIds]));
+  const found = new Set<string>();
+  const stack = [...(parents.get(nodeId) ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === nodeId || found.has(id) || !parents.has(id)) continue;
+    found.add(id);
+    stack.push(...(parents.get(id) ?? []));
+  }
+  return found;
+}
+
+/** A blank node for the user to fill in; it has no position so the layout places it. */
+export function createBlankNode(parentIds: string[], importance: number): MindMapNode {
+  return {
+    id: `node-${crypto.randomUUID().slice(0, 8)}`,
+    title: 'New concept',
+    summary: '',
+    parentIds,
+    importance: Math.max(1, Math.min(5, importance)),
+    tags: [],
+    citations: [],
+    verified: false,
+  };
+}
+
+/** Adds `node` along with the hierarchy edges for its `parentIds`. */
+export function addNode(payload: MindMapPayload, node: MindMapNode): MindMapPayload {
+  const nodes = [...payload.nodes, node];
+  return { ...payload, nodes, edges: syncHierarchyEdges(nodes, payload.edges) };
+}
+
+export type DeleteMode = 'node' | 'subtree';
+
+/**
+ * Deletes nodes. In `node` mode their children move up to the deleted
+ * node's parents; in `subtree` mode every descendant goes too, except
+ * descendants that still have a parent outside the deleted subtree.
+ */
+export function deleteNodes(payload: MindMapPayload, nodeIds: string[], mode: DeleteMode): MindMapPayload {
+  const targets = new Set(nodeIds);
+
+  if (mode === 'subtree') {
+    const removed = new Set(targets);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      payload.nodes.forEach((node) => {
+        if (
+          !removed.has(node.id) &&
+          node.parentIds.length > 0 &&
+          node.parentIds.every((parentId) => removed.has(parentId))
+        ) {
+          removed.add(node.id);
+          changed = true;
+        }
+      });
+    }
+    return removeNodes(payload, [...removed]);
+  }
+
+  const byId = new Map(payload.nodes.map((node) => [node.id, node]));
+  // Parents a deleted node hands to its children, skipping parents that are deleted as well.
+  const inheritedParents = (id: string, seen: Set<string>): string[] =>
+    (byId.get(id)?.parentIds ?? []).flatMap((parentId) => {
+      if (seen.has(parentId)) return [];
+      return targets.has(parentId) ? inheritedParents(parentId, new Set(seen).add(parentId)) : [parentId];
+    });
+
+  const nodes = payload.nodes
+    .filter((node) => !targets.has(node.id))
+    .map((node) => {
+      if (!node.parentIds.some((parentId) => targets.has(parentId))) return node;
+      const parentIds = node.parentIds.flatMap((parentId) =>
+        targets.has(parentId) ? inheritedParents(parentId, new Set([parentId])) : [parentId],
+      );
+      return { ...node, parentIds: [...new Set(parentIds)].filter((parentId) => parentId !== node.id) };
+    });
+  const edges = payload.edges.filter((edge) => !targets.has(edge.source) && !targets.has(edge.target));
+  return { ...payload, nodes, edges: syncHierarchyEdges(nodes, edges) };
+}
+
+/**
+ * Makes `parentId` the only parent of `nodeId`, or turns it into a root when
+ * `parentId` is null. Refused (payload returned unchanged) when the new
+ * parent is the node itself or one of its descendants. The node loses its
+ * position so it is placed next to its new parent.
+ */
+export function reparentNode(payload: MindMapPayload, nodeId: string, parentId: string | null): MindMapPayload {
+  const node = payload.nodes.find((candidate) => candidate.id === nodeId);
+  if (!node || parentId === nodeId) return payload;
+  if (parentId !== null && (descendantIds(payload, nodeId).has(parentId) || !payload.nodes.some((n) => n.id === parentId))) {
+    return payload;
+  }
+  if (parentId !== null && node.parentIds.length === 1 && node.parentIds[0] === parentId) return payload;
+
+  const nodes = payload.nodes.map((candidate) => {
+    if (candidate.id !== nodeId) return candidate;
+    const moved: MindMapNode = { ...candidate, parentIds: parentId ? [parentId] : [] };
+    delete moved.position;
+    return moved;
+  });
+  return { ...payload, nodes, edges: syncHierarchyEdges(nodes, payload.edges) };
+}
+
+/**
+ * Folds `mergedId` into `keptId`: the kept node gains the other's tags,
+ * citations, source passages and parents, takes the higher importance, and
+ * inherits its children and cross-links. The kept title and summary win;
+ * a different summary from the merged node is appended so nothing is lost.
+ */
+export function mergeNodes(payload: MindMapPayload, keptId: string, mergedId: string): MindMapPayload {
+  const kept = payload.nodes.find((node) => node.id === keptId);
+  const merged = payload.nodes.find((node) => node.id === mergedId);
+  if (!kept || !merged || keptId === mergedId) return payload;
+
+  const repoint = (id: string) => (id === mergedId ? keptId : id);
+  const summary =
+    merged.summary.trim() && merged.summary.trim() !== kept.summary.trim()
+      ? [kept.summary.trim(), merged.summary.trim()].filter(Boolean).join(' ')
+      : kept.summary;
+  const citations = [...kept.citations];
+  merged.citations.forEach((citation) => {
+    if (!citations.some((existing) => existing.url === citation.url)) citations.push(citation);
+  });
+  const sourceSpans =
+    kept.sourceSpans || merged.sourceSpans
+      ? [...(kept.sourceSpans ?? []), ...(merged.sourceSpans ?? [])].filter(
+          (span, index, spans) =>
+            spans.findIndex((other) => other.page === span.page && other.start === span.start) === index,
+        )
+      : undefined;
+  const descendants = new Set([...descendantIds(payload, keptId), ...descendantIds(payload, mergedId)]);
+
+  const combined: MindMapNode = {
+    ...kept,
+    summary,
+    importance: Math.max(kept.importance, merged.importance),
+    tags: [...new Set([...kept.tags, ...merged.tags])],
+    citations,
+    parentIds: [...new Set([...kept.parentIds, ...merged.parentIds])].filter(
+      (parentId) => parentId !== keptId && parentId !== mergedId && !descendants.has(parentId),
+    ),
+    ...(sourceSpans ? { sourceSpans } : {}),
+  };
+
+  const nodes = payload.nodes
+    .filter((node) => node.id !== mergedId)
+    .map((node) => {
+      if (node.id === keptId) return combined;
+      if (!node.parentIds.includes(mergedId)) return node;
+      return { ...node, parentIds: [...new Set(node.parentIds.map(repoint))] };
+    });
+  const edges = payload.edges.map((edge) => ({ ...edge, source: repoint(edge.source), target: repoint(edge.target) }));
+  return { ...payload, nodes, edges: syncHierarchyEdges(nodes, edges) };
+}
+
+/** Sets or, when `label` is blank, removes an edge label. */
+export function setEdgeLabel(payload: MindMapPayload, edgeId: string, label: string): MindMapPayload {
+  const trimmed = label.trim();
+  return {
+    ...payload,
+    edges: payload.edges.map((edge) => {
+      if (edge.id !== edgeId) return edge;
+      const next: MindMapEdge = { ...edge, label };
+      if (!trimmed) delete next.label;
+      return next;
+    }),
+  };
+}
+
+/**
+ * Merges nodes generated by expanding `parentId` into the map. Expansion
+ * roots go under `parentId`. A new node naming a concept the map already has
+ * is not added again: the expanded node gets a cross-link to the existing
+ * one, which also takes any new children. Titles without a concept key (see
+ * `conceptKey`) never match. Clashing IDs are suffixed.
+ */
+export function mergeExpansion(payload: MindMapPayload, parentId: string, expansion: NodeExpansion): MindMapPayload {
+  if (!payload.nodes.some((node) => node.id === parentId)) return payload;
+
+  const existingByKey = new Map(
+    payload.nodes.flatMap((node) => {
+      const key = conceptKey(node.title);
+      return key ? [[key, node.id] as const] : [];
+    }),
+  );
+  const usedIds = new Set(payload.nodes.map((node) => node.id));
+  const idMap = new Map<string, string>();
+  const added: MindMapNode[] = [];
+  const links: MindMapEdge[] = [];
+
+  expansion.nodes.forEach((node) => {
+    const key = conceptKey(node.title);
+    const existingId = key ? existingByKey.get(key) : undefined;
+    if (existingId) {
+      idMap.set(node.id, existingId);
+      return;
+    }
+    let id = node.id;
+    for (let suffix = 2; usedIds.has(id); suffix += 1) {
+      id = `${node.id}-${suffix}`;
+    }
+    usedIds.add(id);
+    idMap.set(node.id, id);
+    if (key) existingByKey.set(key, id);
+    added.push(node);
+  });
+
+  const remap = (id: string) => idMap.get(id) ?? id;
+  const nodes = [
+    ...payload.nodes,
+    ...added.map((node) => {
+      const parentIds = node.parentIds.map(remap).filter((id) => id !== remap(node.id));
+      return { ...node, id: remap(node.id), parentIds: parentIds.length > 0 ? [...new Set(parentIds)] : [parentId] };
+    }),
+  ];
+
+  expansion.nodes.forEach((node) => {
+    const target = remap(node.id);
+    if (node.parentIds.length === 0 && target !== parentId && !added.includes(node)) {
+      links.push({ id: edgeId('cross-link', parentId, target), source: parentId, target, kind: 'cross-link' });
+    }
+  });
+  expansion.edges.forEach((edge) => {
+    const source = remap(edge.source);
+    const target = remap(edge.target);
+    links.push({ id: edgeId('cross-link', source, target), source, target, kind: 'cross-link', ...(edge.label ? { label: edge.label } : {}) });
+  });
+
+  const connected = new Set(payload.edges.map((edge) => `${edge.source}->${edge.target}`));
+  const edges = [
+    ...payload.edges,
+    ...links.filter((link) => !connected.has(`${link.source}->${link.target}`)),
+  ];
+  return { ...payload, nodes, edges: syncHierarchyEdges(nodes, edges) };
+}
@@ -0,0 +1,123 @@
+import type { SourceSpan } from './types';
+
+type NormalizedPage = {
+  text: string;
+  /** Index in the original page text of each character of `text`. */
+  offsets: number[];
+};
+
+/** Words at each end of a quote used to re-anchor it when the middle doesn't match exactly. */
+const ANCHOR_WORDS = 6;
+
+const CHARACTER_FOLDS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+};
+
+/**
+ * Lower-cases, folds typographic quotes and dashes, and collapses whitespace
+ * runs (PDF text items are joined with spaces, so line breaks and double
+ * spaces rarely survive in a model's quote) while remembering where each
+ * remaining character came from.
+ */
+function normalize(text: string): NormalizedPage {
+  let normalized = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      pendingSpace = normalized.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      normalized += ' ';
+      offsets.push(index - 1);
+      pendingSpace = false;
+    }
+    normalized += (CHARACTER_FOLDS[char] ?? char).toLowerCase();
+    offsets.push(index);
+  }
+
+  return { text: normalized, offsets };
+}
+
+function anchors(quote: string): { head: string; tail: string } | null {
+  const words = quote.split(' ');
+  if (words.length < ANCHOR_WORDS * 2) return null;
+  return { head: words.slice(0, ANCHOR_WORDS).join(' '), tail: words.slice(-ANCHOR_WORDS).join(' ') };
+}
+
+export type SourceIndex = {
+  /** Finds where a quote from the model occurs in the source, or null when it doesn't. */
+  locate(quote: string): SourceSpan | null;
+  /** Locates every quote, dropping the ones that can't be found and duplicate spans. */
+  ground(quotes: string[]): SourceSpan[];
+};
+
+/**
+ * Indexes extracted source pages so node quotes can be traced back to a page
+ * and character range. Quotes match ignoring case and whitespace; a long
+ * quote whose middle was paraphrased still matches when its first and last
+ * few words appear close together on one page. `paged` controls whether
+ * spans carry a page number (single-page formats like pasted text don't).
+ */
+export function createSourceIndex(pages: string[], paged: boolean): SourceIndex {
+  const normalizedPages = pages.map(normalize);
+
+  const spanAt = (pageIndex: number, start: number, end: number): SourceSpan => {
+    const { offsets } = normalizedPages[pageIndex];
+    const originalStart = offsets[start];
+    const originalEnd = offsets[end - 1] + 1;
+    return {
+      ...(paged ? { page: pageIndex + 1 } : {}),
+      start: originalStart,
+      end: originalEnd,
+      text: pages[pageIndex].slice(originalStart, originalEnd).replace(/\s+/g, ' ').trim(),
+    };
+  };
+
+  const locate = (quote: string): SourceSpan | null => {
+    const needle = normalize(quote).text.replace(/^["']+|["'.…]+$/g, '');
+    if (!needle) return null;
+
+    for (let pageIndex = 0; pageIndex < normalizedPages.length; pageIndex += 1) {
+      const start = normalizedPages[pageIndex].text.indexOf(needle);
+      if (start !== -1) {
+        return spanAt(pageIndex, start, start + needle.length);
+      }
+    }
+
+    const anchor = anchors(needle);
+    if (!anchor) return null;
+    for (let pageIndex = 0; pageIndex < normalizedPages.length; pageIndex += 1) {
+      const { text } = normalizedPages[pageIndex];
+      const head = text.indexOf(anchor.head);
+      if (head === -1) continue;
+      const tail = text.indexOf(anchor.tail, head + anchor.head.length);
+      if (tail !== -1 && tail + anchor.tail.length - head <= needle.length * 1.5) {
+        return spanAt(pageIndex, head, tail + anchor.tail.length);
+      }
+    }
+    return null;
+  };
+
+  return {
+    locate,
+    ground(quotes) {
+      const spans: SourceSpan[] = [];
+      quotes.forEach((quote) => {
+        const span = locate(quote);
+        if (span && !spans.some((existing) => existing.page === span.page && existing.start === span.start)) {
+          spans.push(span);
+        }
+      });
+      return spans;
+    },
+  };
+}
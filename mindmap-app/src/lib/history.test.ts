@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeEdges } from './graph';
+import {
+  COALESCE_WINDOW_MS,
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  createCommand,
+  jumpTo,
+  presentPayload,
+  recordCommand,
+  redo,
+  replayOnto,
+  undo,
+  type HistoryState,
+} from './history';
+import type { MindMapNode, MindMapPayload } from './types';
+
+function node(id: string, title: string, parentIds: string[] = []): MindMapNode {
+  return { id, title, summary: `${title} summary.`, parentIds, importance: 3, tags: [], citations: [], verified: false };
+}
+
+function map(nodes: MindMapNode[]): MindMapPayload {
+  return { generatedAt: '2026-01-02T03:04:05.000Z', sourceSummary: 'Overview.', nodes, edges: normalizeEdges(nodes, []) };
+}
+
+function edit(payload: MindMapPayload, id: string, fields: Partial<MindMapNode>): MindMapPayload {
+  return { ...payload, nodes: payload.nodes.map((item) => (item.id === id ? { ...item, ...fields } : item)) };
+}
+
+const base = map([node('hf', 'Heart failure'), node('tx', 'Treatment', ['hf'])]);
+
+/** Records `payloads` as consecutive title edits, `timestamps` apart. */
+function typing(payloads: MindMapPayload[], timestamps: number[], coalesceKey?: string): HistoryState {
+  let state = EMPTY_HISTORY;
+  payloads.slice(1).forEach((after, index) => {
+    const command = createCommand('edit', 'Edit title', payloads[index], after, coalesceKey);
+    state = recordCommand(state, { ...command, timestamp: timestamps[index] });
+  });
+  return state;
+}
+
+describe('recordCommand', () => {
+  const steps = [base, edit(base, 'hf', { title: 'H' }), edit(base, 'hf', { title: 'HF' }), edit(base, 'hf', { title: 'HFrEF' })];
+
+  it('coalesces commands with the same key inside the window', () => {
+    const state = typing(steps, [1000, 1000 + COALESCE_WINDOW_MS, 1000 + COALESCE_WINDOW_MS * 2], 'title:hf');
+    assert.equal(state.past.length, 1);
+    assert.equal(state.past[0].before, base);
+    assert.equal(state.past[0].after, steps[3]);
+  });
+
+  it('keeps commands apart after the window or without a key', () => {
+    assert.equal(typing(steps, [1000, 1000 + COALESCE_WINDOW_MS + 1, 1000 + COALESCE_WINDOW_MS * 3], 'title:hf').past.length, 3);
+    assert.equal(typing(steps, [1000, 1001, 1002]).past.length, 3);
+  });
+
+  it('clears the redo stack and keeps at most HISTORY_LIMIT commands', () => {
+    const payloads = Array.from({ length: HISTORY_LIMIT + 3 }, (_, index) => edit(base, 'hf', { title: `v${index}` }));
+    let state = typing(payloads, payloads.map((_, index) => index * COALESCE_WINDOW_MS * 2));
+    assert.equal(state.past.length, HISTORY_LIMIT);
+    assert.equal(state.past[0].before, payloads[2]);
+
+    state = (undo(state) as { state: HistoryState }).state;
+    assert.equal(state.future.length, 1);
+    state = recordCommand(state, createCommand('edit', 'Edit title', payloads[1], base));
+    assert.equal(state.future.length, 0);
+  });
+});
+
+describe('undo and redo', () => {
+  const first = edit(base, 'hf', { title: 'HF' });
+  const second = edit(first, 'tx', { summary: 'GDMT.' });
+  const state = typing([base, first, second], [0, COALESCE_WINDOW_MS * 2]);
+
+  it('restores the map before and after each command', () => {
+    const undone = undo(state);
+    assert.equal(undone?.payload, first);
+    const undoneTwice = undo(undone!.state);
+    assert.equal(undoneTwice?.payload, base);
+    assert.equal(undo(undoneTwice!.state), null);
+
+    const redone = redo(undoneTwice!.state);
+    assert.equal(redone?.payload, first);
+    assert.equal(presentPayload(redone!.state), first);
+    assert.equal(redo(state), null);
+  });
+
+  it('jumps to any command or back to the start', () => {
+    const start = jumpTo(state, null);
+    assert.equal(start?.payload, base);
+    assert.equal(start?.state.future.length, 2);
+    assert.equal(presentPayload(start!.state), base);
+
+    const forward = jumpTo(start!.state, state.past[1].id);
+    assert.equal(forward?.payload, second);
+    assert.equal(forward?.state.past.length, 2);
+    assert.equal(jumpTo(state, 'missing'), null);
+  });
+});
+
+describe('replayOnto', () => {
+  it("reverts only the user's own fields and keeps concurrent edits", () => {
+    const mine = edit(base, 'hf', { title: 'HFrEF' });
+    // Someone else changed another field of the same node and added a node.
+    const current = map([{ ...mine.nodes[0], summary: 'Reduced ejection fraction.' }, mine.nodes[1], node('dx', 'Diagnosis', ['hf'])]);
+
+    const undone = replayOnto(current, mine, base);
+    assert.deepEqual(
+      undone.nodes.map((item) => [item.id, item.title, item.summary]),
+      [
+        ['hf', 'Heart failure', 'Reduced ejection fraction.'],
+        ['tx', 'Treatment', 'Treatment summary.'],
+        ['dx', 'Diagnosis', 'Diagnosis summary.'],
+      ],
+    );
+    assert.equal(undone.edges.length, current.edges.length);
+  });
+
+  it('replays added and deleted nodes and edges', () => {
+    const added = map([...base.nodes, node('dx', 'Diagnosis', ['hf'])]);
+    const current = edit(added, 'tx', { title: 'Therapy' });
+
+    const undone = replayOnto(current, added, base);
+    assert.deepEqual(
+      undone.nodes.map((item) => item.title),
+      ['Heart failure', 'Therapy'],
+    );
+    assert.ok(!undone.edges.some((edge) => edge.target === 'dx'));
+
+    const redone = replayOnto(undone, base, added);
+    assert.deepEqual(
+      redone.nodes.map((item) => item.title),
+      ['Heart failure', 'Therapy', 'Diagnosis'],
+    );
+    assert.ok(redone.edges.some((edge) => edge.target === 'dx'));
+  });
+
+  it('removes fields the replayed change removed', () => {
+    const moved = edit(base, 'hf', { position: { x: 10, y: 20 } });
+    assert.equal(replayOnto(moved, moved, base).nodes[0].position, undefined);
+  });
+});
@@ -0,0 +1,180 @@
+import type { MindMapPayload } from './types';
+
+export type HistoryKind =
+  | 'edit'
+  | 'autocorrect'
+  | 'connect'
+  | 'delete'
+  | 'move'
+  | 'layout'
+  | 'add'
+  | 'reparent'
+  | 'merge'
+  | 'expand'
+  | 'collapse';
+
+/**
+ * One undoable change. Commands keep the map before and after the change;
+ * nodes and edges that were not touched are shared between the two, so a
+ * command costs little more than the objects it replaced.
+ */
+export type HistoryCommand = {
+  id: string;
+  kind: HistoryKind;
+  label: string;
+  before: MindMapPayload;
+  after: MindMapPayload;
+  timestamp: number;
+  /** Commands with the same key recorded within the coalesce window merge into one. */
+  coalesceKey?: string;
+};
+
+export type HistoryState = {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+};
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+export const HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1500;
+
+let commandCounter = 0;
+
+export function createCommand(
+  kind: HistoryKind,
+  label: string,
+  before: MindMapPayload,
+  after: MindMapPayload,
+  coalesceKey?: string,
+): HistoryCommand {
+  commandCounter += 1;
+  return { id: `cmd-${Date.now()}-${commandCounter}`, kind, label, before, after, timestamp: Date.now(), coalesceKey };
+}
+
+/**
+ * Pushes a command and clears the redo stack. A command whose `coalesceKey`
+ * matches the latest one within {@link COALESCE_WINDOW_MS} extends it instead,
+ * so a burst of keystrokes in one field undoes as a single step.
+ */
+export function recordCommand(state: HistoryState, command: HistoryCommand): HistoryState {
+  const last = state.past[state.past.length - 1];
+  if (
+    last &&
+    command.coalesceKey &&
+    last.coalesceKey === command.coalesceKey &&
+    command.timestamp - last.timestamp <= COALESCE_WINDOW_MS
+  ) {
+    const merged: HistoryCommand = { ...last, after: command.after, timestamp: command.timestamp };
+    return { past: [...state.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...state.past, command].slice(-HISTORY_LIMIT), future: [] };
+}
+
+export function undo(state: HistoryState): { state: HistoryState; payload: MindMapPayload } | null {
+  const last = state.past[state.past.length - 1];
+  if (!last) return null;
+  return {
+    state: { past: state.past.slice(0, -1), future: [last, ...state.future] },
+    payload: last.before,
+  };
+}
+
+export function redo(state: HistoryState): { state: HistoryState; payload: MindMapPayload } | null {
+  const next = state.future[0];
+  if (!next) return null;
+  return {
+    state: { past: [...state.past, next], future: state.future.slice(1) },
+    payload: next.after,
+  };
+}
+
+/**
+ * Undoes or redoes until `commandId` is the latest applied command, or back
+ * to the initial map when `commandId` is null. Returns null when the command
+ * is not in the history.
+ */
+export function jumpTo(
+  state: HistoryState,
+  commandId: string | null,
+): { state: HistoryState; payload: MindMapPayload } | null {
+  if (commandId === null) {
+    const first = state.past[0];
+    if (!first) return null;
+    return { state: { past: [], future: [...state.past, ...state.future] }, payload: first.before };
+  }
+  const pastIndex = state.past.findIndex((command) => command.id === commandId);
+  if (pastIndex !== -1) {
+    const undone = state.past.slice(pastIndex + 1);
+    if (undone.length === 0) return { state, payload: state.past[pastIndex].after };
+    return {
+      state: { past: state.past.slice(0, pastIndex + 1), future: [...undone, ...state.future] },
+      payload: state.past[pastIndex].after,
+    };
+  }
+  const futureIndex = state.future.findIndex((command) => command.id === commandId);
+  if (futureIndex !== -1) {
+    return {
+      state: {
+        past: [...state.past, ...state.future.slice(0, futureIndex + 1)],
+        future: state.future.slice(futureIndex + 1),
+      },
+      payload: state.future[futureIndex].after,
+    };
+  }
+  return null;
+}
+
+/** The map the history considers current: the result of the latest applied command. */
+export function presentPayload(state: HistoryState): MindMapPayload | null {
+  return state.past[state.past.length - 1]?.after ?? state.future[0]?.before ?? null;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function replayById<T extends { id: string }>(current: T[], from: T[], to: T[], merge: (item: T, was: T, now: T) => T): T[] {
+  const fromById = new Map(from.map((item) => [item.id, item]));
+  const toById = new Map(to.map((item) => [item.id, item]));
+  const result = current
+    .filter((item) => !(fromById.has(item.id) && !toById.has(item.id)))
+    .map((item) => {
+      const was = fromById.get(item.id);
+      const now = toById.get(item.id);
+      return was && now && was !== now ? merge(item, was, now) : item;
+    });
+  const present = new Set(result.map((item) => item.id));
+  to.forEach((item) => {
+    if (!fromById.has(item.id) && !present.has(item.id)) result.push(item);
+  });
+  return result;
+}
+
+/**
+ * Applies the change from `from` to `to` on top of `current`, field by
+ * field. In a shared session `current` also holds other people's edits made
+ * since `from`; replaying only the difference lets undo and redo revert the
+ * user's own changes without discarding theirs.
+ */
+export function replayOnto(current: MindMapPayload, from: MindMapPayload, to: MindMapPayload): MindMapPayload {
+  const nodes = replayById(current.nodes, from.nodes, to.nodes, (node, was, now) => {
+    const next = { ...node } as Record<string, unknown>;
+    const wasFields = was as Record<string, unknown>;
+    const nowFields = now as Record<string, unknown>;
+    new Set([...Object.keys(wasFields), ...Object.keys(nowFields)]).forEach((key) => {
+      if (sameValue(wasFields[key], nowFields[key])) return;
+      if (nowFields[key] === undefined) delete next[key];
+      else next[key] = nowFields[key];
+    });
+    return next as typeof node;
+  });
+  const edges = replayById(current.edges, from.edges, to.edges, (_, __, now) => now);
+  return {
+    ...current,
+    nodes,
+    edges,
+    ...(from.layout !== to.layout ? { layout: to.layout } : {}),
+    ...(from.sourceSummary !== to.sourceSummary ? { sourceSummary: to.sourceSummary } : {}),
+  };
+}
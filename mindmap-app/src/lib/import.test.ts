@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toFreeMind, toJson, toMarkdown, toOpml } from './export';
+import { normalizeEdges } from './graph';
+import { ImportError, parseImport, type ImportedMindMap } from './import';
+import type { MindMapNode, MindMapPayload } from './types';
+
+function node(id: string, title: string, parentIds: string[], extra: Partial<MindMapNode> = {}): MindMapNode {
+  return { id, title, summary: `${title} summary.`, parentIds, importance: 3, tags: [], citations: [], verified: false, ...extra };
+}
+
+const guideline = { title: 'ESC HF guideline', url: 'https://example.org/esc', source: 'guidelines' };
+
+const nodes: MindMapNode[] = [
+  node('heart-failure', 'Heart failure', [], { importance: 5, tags: ['core'], citations: [guideline] }),
+  node('diagnosis', 'Diagnosis', ['heart-failure'], { importance: 4, tags: ['diagnostic', 'labs'] }),
+  node('bnp', 'BNP & NT-proBNP', ['diagnosis'], { importance: 3, citations: [guideline] }),
+  node('treatment', 'Treatment', ['heart-failure'], { importance: 4 }),
+];
+
+const payload: MindMapPayload = {
+  generatedAt: '2026-01-02T03:04:05.000Z',
+  sourceSummary: 'Heart failure overview.',
+  nodes,
+  edges: normalizeEdges(nodes, [{ source: 'bnp', target: 'treatment', label: 'guides' }]),
+};
+
+/** The parts of a map every outline format keeps: titles, nesting, summaries, tags and cross-links. */
+function outlineShape({ payload: imported }: ImportedMindMap) {
+  const titles = new Map(imported.nodes.map((item) => [item.id, item.title]));
+  return {
+    nodes: imported.nodes.map((item) => ({
+      title: item.title,
+      summary: item.summary,
+      tags: item.tags,
+      parents: item.parentIds.map((id) => titles.get(id)),
+    })),
+    crossLinks: imported.edges
+      .filter((edge) => edge.kind === 'cross-link')
+      .map((edge) => `${titles.get(edge.source)} → ${titles.get(edge.target)} (${edge.label ?? ''})`),
+  };
+}
+
+const expectedShape = outlineShape({ name: '', format: 'json', payload });
+
+function importErrorLines(fileName: string, content: string): Array<number | undefined> {
+  try {
+    parseImport(fileName, content);
+  } catch (error) {
+    assert.ok(error instanceof ImportError);
+    return error.issues.map((issue) => issue.line);
+  }
+  assert.fail('expected an ImportError');
+}
+
+describe('round trips through the exporters', () => {
+  it('restores a JSON export exactly', () => {
+    const imported = parseImport('cardiology.json', toJson(payload, 'Cardiology'));
+    assert.equal(imported.name, 'Cardiology');
+    assert.deepEqual(imported.payload, payload);
+  });
+
+  it('keeps the outline, importance and first citation through OPML', () => {
+    const imported = parseImport('cardiology.opml', toOpml(payload, 'Cardiology'));
+    assert.equal(imported.name, 'Cardiology');
+    assert.deepEqual(outlineShape(imported), { ...expectedShape, crossLinks: [] });
+    assert.deepEqual(
+      imported.payload.nodes.map((item) => item.importance),
+      nodes.map((item) => item.importance),
+    );
+    assert.equal(imported.payload.nodes[0].citations[0].url, guideline.url);
+  });
+
+  it('keeps the outline, importance and cross-links through FreeMind', () => {
+    const imported = parseImport('cardiology.mm', toFreeMind(payload, 'Cardiology'));
+    assert.deepEqual(outlineShape(imported), expectedShape);
+    assert.deepEqual(
+      imported.payload.nodes.map((item) => item.importance),
+      nodes.map((item) => item.importance),
+    );
+  });
+
+  it('keeps the outline, footnote citations and cross-links through Markdown', () => {
+    const imported = parseImport('cardiology.md', toMarkdown(payload, 'Cardiology'));
+    // The title heading is read back as the root of the outline, carrying the map summary.
+    assert.equal(imported.name, 'Cardiology');
+    assert.deepEqual(outlineShape(imported), {
+      ...expectedShape,
+      nodes: [
+        { title: 'Cardiology', summary: payload.sourceSummary, tags: [], parents: [] },
+        ...expectedShape.nodes.map((item) => ({ ...item, parents: item.parents.length > 0 ? item.parents : ['Cardiology'] })),
+      ],
+    });
+    assert.deepEqual(imported.payload.nodes[1].citations, [guideline]);
+    assert.deepEqual(imported.payload.nodes[3].citations, [guideline]);
+  });
+
+  it('keeps non-Latin titles distinct', () => {
+    const russian: MindMapPayload = {
+      ...payload,
+      nodes: [node('a', 'Сердечная недостаточность', []), node('b', 'Лечение', ['a'])],
+      edges: [],
+    };
+    const imported = parseImport('map.md', toMarkdown(russian, 'Кардиология'));
+    assert.deepEqual(
+      imported.payload.nodes.map((item) => item.id),
+      ['кардиология', 'сердечная-недостаточность', 'лечение'],
+    );
+  });
+});
+
+describe('error lines', () => {
+  it('reports JSON syntax errors by line', () => {
+    assert.deepEqual(importErrorLines('map.json', '{\n  "nodes": [\n    {"title": "A",}\n  ]\n}'), [3]);
+  });
+
+  it('reports JSON structural errors at the offending value', () => {
+    const document = JSON.parse(toJson(payload, 'Cardiology'));
+    document.payload.nodes[2].importance = 9;
+    document.payload.edges.push({ source: 'bnp', target: 'missing' });
+    const content = JSON.stringify(document, null, 2);
+    const lines = content.split('\n');
+    const importanceLine = lines.findIndex((line) => line.includes('"importance": 9')) + 1;
+    // The edge object opens two lines above its target.
+    const edgeLine = lines.findIndex((line) => line.includes('"target": "missing"')) - 1;
+    assert.deepEqual(importErrorLines('map.json', content), [importanceLine, edgeLine]);
+  });
+
+  it('reports XML and Markdown problems by line', () => {
+    assert.deepEqual(
+      importErrorLines('map.opml', '<opml version="2.0">\n<body>\n<outline text="A">\n<outline importance="7" text="B"/>\n</outline>\n</body>\n</opml>'),
+      [4],
+    );
+    assert.deepEqual(importErrorLines('map.md', '# Map\n\n- Item[^1]\n'), [3]);
+  });
+});
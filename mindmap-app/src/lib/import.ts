@@ -0,0 +1,910 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { CLAIM_VERDICTS, deriveVerificationStatus } from './claims';
+import { JSON_EXPORT_FORMAT } from './export';
+import { normalizeEdges } from './graph';
+import { LAYOUT_LABELS } from './layout';
+import type {
+  Citation,
+  ClaimCheck,
+  ClaimVerdict,
+  LayoutAlgorithm,
+  MindMapNode,
+  MindMapPayload,
+  SourceSpan,
+} from './types';
+
+export type ImportFormat = 'json' | 'opml' | 'freemind' | 'markdown';
+
+/** A problem found while importing; `line` is 1-based when the parser can tell. */
+export type ImportIssue = {
+  line?: number;
+  message: string;
+};
+
+export class ImportError extends Error {
+  constructor(
+    readonly format: ImportFormat | null,
+    readonly issues: ImportIssue[],
+  ) {
+    super(
+      issues.length === 1
+        ? formatImportIssue(issues[0])
+        : `Import failed with ${issues.length} problems.`,
+    );
+    this.name = 'ImportError';
+    this.issues = [...issues].sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+  }
+}
+
+export function formatImportIssue(issue: ImportIssue): string {
+  return issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message;
+}
+
+export type ImportedMindMap = {
+  name: string;
+  format: ImportFormat;
+  payload: MindMapPayload;
+};
+
+export const IMPORT_FILE_ACCEPT = '.json,.opml,.mm,.md,.markdown,.txt';
+
+const IMPORTED_SOURCE = 'Imported';
+
+/**
+ * Intermediate node shared by the outline formats. `key` is whatever the
+ * source format uses to refer to the node (a FreeMind ID, a Markdown title)
+ * and is only used to resolve cross-links.
+ */
+type DraftNode = {
+  key?: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  importance?: number;
+  citations: Citation[];
+  parent: number | null;
+  depth: number;
+};
+
+type DraftLink = {
+  source: string;
+  target: string;
+  label?: string;
+  line?: number;
+};
+
+function fileStem(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '') || 'Imported map';
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\p{M}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || 'node'
+  );
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function defaultImportance(depth: number): number {
+  return Math.max(1, 5 - depth);
+}
+
+function parseImportance(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(number) && number >= 1 && number <= 5 ? number : null;
+}
+
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Turns draft nodes into a payload. IDs are slugs of the titles, made unique
+ * with a numeric suffix; cross-links are resolved through the draft keys and
+ * reported against their source line when the target is unknown.
+ */
+function buildPayload(drafts: DraftNode[], links: DraftLink[], sourceSummary: string): {
+  payload: MindMapPayload;
+  issues: ImportIssue[];
+} {
+  const used = new Set<string>();
+  const ids = drafts.map((draft) => {
+    const base = slugify(draft.title);
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix += 1) {
+      id = `${base}-${suffix}`;
+    }
+    used.add(id);
+    return id;
+  });
+
+  const nodes: MindMapNode[] = drafts.map((draft, index) => ({
+    id: ids[index],
+    title: draft.title,
+    summary: draft.summary,
+    parentIds: draft.parent === null ? [] : [ids[draft.parent]],
+    importance: draft.importance ?? defaultImportance(draft.depth),
+    tags: draft.tags,
+    citations: draft.citations,
+    verified: false,
+  }));
+
+  const byKey = new Map<string, string>();
+  drafts.forEach((draft, index) => {
+    if (draft.key !== undefined && !byKey.has(draft.key)) {
+      byKey.set(draft.key, ids[index]);
+    }
+  });
+
+  const issues: ImportIssue[] = [];
+  const providedEdges = links.flatMap((link) => {
+    const source = byKey.get(link.source);
+    const target = byKey.get(link.target);
+    if (!source || !target) {
+      issues.push({ line: link.line, message: `link refers to unknown node "${!source ? link.source : link.target}"` });
+      return [];
+    }
+    return [{ source, target, label: link.label }];
+  });
+
+  return {
+    payload: {
+      nodes,
+      edges: normalizeEdges(nodes, providedEdges),
+      generatedAt: new Date().toISOString(),
+      sourceSummary,
+    },
+    issues,
+  };
+}
+
+// ----- JSON -----
+
+function jsonSyntaxLine(content: string, error: unknown): number | undefined {
+  const message = error instanceof Error ? error.message : '';
+  const line = message.match(/line (\d+)/);
+  if (line) return Number(line[1]);
+  const position = message.match(/position (\d+)/);
+  return position ? lineAt(content, Number(position[1])) : undefined;
+}
+
+/**
+ * 1-based line of every value in a JSON document, keyed by its path as used
+ * in import messages (`nodes[0].title`, `''` for the document itself). Only
+ * called on content `JSON.parse` has accepted, so the scan can trust the syntax.
+ */
+function jsonValueLines(content: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let position = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (position < content.length && /[ \t\r\n]/.test(content[position])) {
+      if (content[position] === '\n') line += 1;
+      position += 1;
+    }
+  };
+  const readString = (): string => {
+    const start = position;
+    position += 1;
+    while (content[position] !== '"') {
+      position += content[position] === '\\' ? 2 : 1;
+    }
+    position += 1;
+    return JSON.parse(content.slice(start, position)) as string;
+  };
+  const readValue = (path: string) => {
+    skipWhitespace();
+    lines.set(path, line);
+    const open = content[position];
+    if (open === '{' || open === '[') {
+      const close = open === '{' ? '}' : ']';
+      position += 1;
+      skipWhitespace();
+      for (let index = 0; content[position] !== close; index += 1) {
+        if (open === '{') {
+          const key = readString();
+          skipWhitespace();
+          position += 1;
+          readValue(path ? `${path}.${key}` : key);
+        } else {
+          readValue(`${path}[${index}]`);
+        }
+        skipWhitespace();
+        if (content[position] === ',') {
+          position += 1;
+          skipWhitespace();
+        }
+      }
+      position += 1;
+    } else if (open === '"') {
+      readString();
+    } else {
+      while (position < content.length && !/[\s,\]}]/.test(content[position])) position += 1;
+    }
+  };
+
+  readValue('');
+  return lines;
+}
+
+/** Line of the value at `path`, or of its nearest enclosing value when the path is absent. */
+function lineForPath(lines: Map<string, number>, path: string): number | undefined {
+  for (let current = path; ; ) {
+    const line = lines.get(current);
+    if (line !== undefined) return line;
+    const parent = current.replace(/\[\d+\]$|(^|\.)[^.[\]]+$/, '');
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+type JsonIssueReporter = (path: string, message: string) => void;
+
+function readCitations(value: unknown, path: string, report: JsonIssueReporter): Citation[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    report(path, 'must be an array');
+    return [];
+  }
+  return value.flatMap((raw, index) => {
+    if (!isRecord(raw) || typeof raw.title !== 'string' || typeof raw.url !== 'string') {
+      report(`${path}[${index}]`, 'must have a string title and url');
+      return [];
+    }
+    return [
+      {
+        title: raw.title,
+        url: raw.url,
+        ...(typeof raw.snippet === 'string' ? { snippet: raw.snippet } : {}),
+        source: typeof raw.source === 'string' && raw.source ? raw.source : IMPORTED_SOURCE,
+      },
+    ];
+  });
+}
+
+/**
+ * Accepts the JSON export envelope, a saved map (`{ payload }`) or a bare
+ * payload. Missing optional fields get defaults; anything present but of the
+ * wrong shape is reported by JSON path and line.
+ */
+function parseJson(content: string, fileName: string): ImportedMindMap {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    throw new ImportError('json', [
+      {
+        line: jsonSyntaxLine(content, error),
+        message: `invalid JSON (${error instanceof Error ? error.message : 'parse error'})`,
+      },
+    ]);
+  }
+
+  const lines = jsonValueLines(content);
+  let name = fileStem(fileName);
+  let payload: unknown = document;
+  let payloadPath = '';
+  if (isRecord(document) && isRecord(document.payload)) {
+    if (document.format !== undefined && document.format !== JSON_EXPORT_FORMAT) {
+      throw new ImportError('json', [
+        { line: lines.get('format'), message: `unsupported export format "${String(document.format)}"` },
+      ]);
+    }
+    if (typeof document.name === 'string' && document.name.trim()) {
+      name = document.name.trim();
+    }
+    payload = document.payload;
+    payloadPath = 'payload';
+  }
+
+  if (!isRecord(payload) || !Array.isArray(payload.nodes)) {
+    throw new ImportError('json', [{ line: lines.get(payloadPath), message: 'expected an object with a "nodes" array' }]);
+  }
+
+  const issues: ImportIssue[] = [];
+  const report: JsonIssueReporter = (path, message) => {
+    issues.push({
+      line: lineForPath(lines, payloadPath ? `${payloadPath}.${path}` : path),
+      message: `${path}: ${message}`,
+    });
+  };
+  const seen = new Set<string>();
+  const nodes: MindMapNode[] = [];
+  /** Index in `payload.nodes` of each accepted node, for reporting. */
+  const sourceIndexes: number[] = [];
+
+  payload.nodes.forEach((raw, index) => {
+    const path = `nodes[${index}]`;
+    if (!isRecord(raw)) {
+      report(path, 'must be an object');
+      return;
+    }
+    if (typeof raw.title !== 'string' || !raw.title.trim()) {
+      report(`${path}.title`, 'must be a non-empty string');
+      return;
+    }
+
+    const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : slugify(raw.title);
+    if (seen.has(id)) {
+      report(`${path}.id`, `duplicate id "${id}"`);
+      return;
+    }
+    seen.add(id);
+
+    let importance = 3;
+    if (raw.importance !== undefined) {
+      const parsed = parseImportance(raw.importance);
+      if (parsed === null) {
+        report(`${path}.importance`, 'must be an integer from 1 to 5');
+      } else {
+        importance = parsed;
+      }
+    }
+
+    const parentIds = Array.isArray(raw.parentIds)
+      ? raw.parentIds.filter((parentId): parentId is string => typeof parentId === 'string')
+      : [];
+    const tags = Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+    const citations = readCitations(raw.citations, `${path}.citations`, report);
+    const sourceSpans = Array.isArray(raw.sourceSpans)
+      ? raw.sourceSpans.filter(
+          (span): span is SourceSpan =>
+            isRecord(span) &&
+            typeof span.start === 'number' &&
+            typeof span.end === 'number' &&
+            typeof span.text === 'string' &&
+            (span.page === undefined || typeof span.page === 'number'),
+        )
+      : undefined;
+    const claims = Array.isArray(raw.claims)
+      ? raw.claims.filter(
+          (claim): claim is ClaimCheck =>
+            isRecord(claim) &&
+            typeof claim.claim === 'string' &&
+            CLAIM_VERDICTS.includes(claim.verdict as ClaimVerdict) &&
+            (claim.evidence === undefined || typeof claim.evidence === 'string') &&
+            (claim.citation === undefined || (isRecord(claim.citation) && typeof claim.citation.url === 'string')),
+        )
+      : undefined;
+    const verificationStatus = claims ? deriveVerificationStatus(claims) : undefined;
+    const position =
+      isRecord(raw.position) && typeof raw.position.x === 'number' && typeof raw.position.y === 'number'
+        ? { x: raw.position.x, y: raw.position.y }
+        : undefined;
+
+    sourceIndexes.push(index);
+    nodes.push({
+      id,
+      title: raw.title.trim(),
+      summary: typeof raw.summary === 'string' ? raw.summary : '',
+      parentIds,
+      importance,
+      tags,
+      citations,
+      verified: verificationStatus ? verificationStatus === 'verified' : raw.verified === true && citations.length > 0,
+      ...(claims && verificationStatus ? { claims, verificationStatus } : {}),
+      ...(isRecord(raw.verifiedContent) &&
+      typeof raw.verifiedContent.title === 'string' &&
+      typeof raw.verifiedContent.summary === 'string'
+        ? { verifiedContent: { title: raw.verifiedContent.title, summary: raw.verifiedContent.summary } }
+        : {}),
+      ...(raw.autoCorrected === true ? { autoCorrected: true } : {}),
+      ...(position ? { position } : {}),
+      ...(raw.collapsed === true ? { collapsed: true } : {}),
+      ...(sourceSpans ? { sourceSpans } : {}),
+    });
+  });
+
+  nodes.forEach((node, index) => {
+    node.parentIds.forEach((parentId) => {
+      if (!seen.has(parentId)) {
+        report(`nodes[${sourceIndexes[index]}].parentIds`, `unknown node "${parentId}"`);
+      }
+    });
+  });
+
+  const providedEdges: Array<{ source: string; target: string; label?: string }> = [];
+  if (payload.edges !== undefined && !Array.isArray(payload.edges)) {
+    report('edges', 'must be an array');
+  }
+  (Array.isArray(payload.edges) ? payload.edges : []).forEach((raw, index) => {
+    if (!isRecord(raw) || typeof raw.source !== 'string' || typeof raw.target !== 'string') {
+      report(`edges[${index}]`, 'must have string source and target');
+      return;
+    }
+    if (!seen.has(raw.source) || !seen.has(raw.target)) {
+      report(`edges[${index}]`, 'refers to an unknown node');
+      return;
+    }
+    providedEdges.push({
+      source: raw.source,
+      target: raw.target,
+      label: typeof raw.label === 'string' ? raw.label : undefined,
+    });
+  });
+
+  if (nodes.length === 0 && issues.length === 0) {
+    issues.push({
+      line: lineForPath(lines, payloadPath ? `${payloadPath}.nodes` : 'nodes'),
+      message: 'the map has no nodes',
+    });
+  }
+  if (issues.length > 0) {
+    throw new ImportError('json', issues);
+  }
+
+  return {
+    name,
+    format: 'json',
+    payload: {
+      nodes,
+      edges: normalizeEdges(nodes, providedEdges),
+      generatedAt: typeof payload.generatedAt === 'string' ? payload.generatedAt : new Date().toISOString(),
+      sourceSummary: typeof payload.sourceSummary === 'string' ? payload.sourceSummary : '',
+      ...(typeof payload.layout === 'string' && payload.layout in LAYOUT_LABELS
+        ? { layout: payload.layout as LayoutAlgorithm }
+        : {}),
+    },
+  };
+}
+
+// ----- XML (OPML, FreeMind) -----
+
+type XmlElement = Record<string, unknown>;
+
+function validateXml(content: string, format: ImportFormat) {
+  const result = XMLValidator.validate(content);
+  if (result !== true) {
+    throw new ImportError(format, [{ line: result.err.line, message: result.err.msg }]);
+  }
+}
+
+/**
+ * Line numbers of every `<tag` opening in document order. The parser does
+ * not report positions, but a pre-order walk over elements of one tag visits
+ * them in the same order, so the n-th element visited sits on the n-th line here.
+ */
+function tagLines(content: string, tag: string): number[] {
+  const withoutComments = content.replace(/<!--[\s\S]*?-->/g, (comment) => comment.replace(/[^\n]/g, ' '));
+  const lines: number[] = [];
+  const pattern = new RegExp(`<${tag}[\\s/>]`, 'g');
+  for (let match = pattern.exec(withoutComments); match; match = pattern.exec(withoutComments)) {
+    lines.push(lineAt(withoutComments, match.index));
+  }
+  return lines;
+}
+
+/** Elements without attributes or children parse to an empty string; treat them as empty elements. */
+function asElements(value: unknown): XmlElement[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map((item) => (isRecord(item) ? item : {}));
+}
+
+function attribute(element: XmlElement, name: string): string | undefined {
+  const value = element[`@_${name}`];
+  return value === undefined ? undefined : String(value);
+}
+
+function stripHtml(value: string): string {
+  return collapseWhitespace(
+    value
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&amp;/g, '&'),
+  );
+}
+
+function createXmlParser(arrayTags: string[], stopNodes: string[] = []) {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    parseAttributeValue: false,
+    isArray: (name) => arrayTags.includes(name),
+    stopNodes,
+  });
+}
+
+function linkCitation(title: string, url: string | undefined): Citation[] {
+  return url ? [{ title, url, source: IMPORTED_SOURCE }] : [];
+}
+
+/** OPML outlines: `text` (or `title`), `_note` as summary, `category` as comma-separated tags. */
+function parseOpml(content: string, fileName: string): ImportedMindMap {
+  validateXml(content, 'opml');
+  const document = createXmlParser(['outline']).parse(content) as XmlElement;
+  const opml = isRecord(document.opml) ? document.opml : null;
+  const body = opml && isRecord(opml.body) ? opml.body : null;
+  if (!opml || !body) {
+    throw new ImportError('opml', [{ message: 'expected an <opml> document with a <body>' }]);
+  }
+
+  const head = isRecord(opml.head) ? opml.head : {};
+  const lines = tagLines(content, 'outline');
+  const issues: ImportIssue[] = [];
+  const drafts: DraftNode[] = [];
+  let visited = 0;
+
+  const visit = (element: XmlElement, parent: number | null, depth: number) => {
+    const line = lines[visited];
+    visited += 1;
+    const title = collapseWhitespace(attribute(element, 'text') ?? attribute(element, 'title') ?? '');
+    const importanceRaw = attribute(element, 'importance');
+    const importance = importanceRaw === undefined ? undefined : parseImportance(importanceRaw);
+
+    if (!title) {
+      issues.push({ line, message: '<outline> has no text' });
+    }
+    if (importance === null) {
+      issues.push({ line, message: 'importance must be an integer from 1 to 5' });
+    }
+
+    const index = drafts.length;
+    drafts.push({
+      title,
+      summary: collapseWhitespace(attribute(element, '_note') ?? ''),
+      tags: (attribute(element, 'category') ?? '')
+        .split(',')
+        .map((tag) => tag.trim().replace(/^\//, ''))
+        .filter(Boolean),
+      importance: importance ?? undefined,
+      citations: linkCitation(title, attribute(element, 'url') ?? attribute(element, 'htmlUrl')),
+      parent,
+      depth,
+    });
+    asElements(element.outline).forEach((child) => visit(child, index, depth + 1));
+  };
+  asElements(body.outline).forEach((element) => visit(element, null, 0));
+
+  if (drafts.length === 0) {
+    issues.push({ message: 'the outline has no entries' });
+  }
+  if (issues.length > 0) {
+    throw new ImportError('opml', issues);
+  }
+
+  const { payload } = buildPayload(drafts, [], '');
+  return {
+    name: typeof head.title === 'string' && head.title.trim() ? head.title.trim() : fileStem(fileName),
+    format: 'opml',
+    payload,
+  };
+}
+
+/**
+ * FreeMind `.mm`: `TEXT` (or a NODE richcontent) as title, the NOTE as
+ * summary, `LINK` as a citation, `tag`/`importance` attributes, and
+ * `arrowlink`s as cross-links.
+ */
+function parseFreeMind(content: string, fileName: string): ImportedMindMap {
+  validateXml(content, 'freemind');
+  const document = createXmlParser(['node', 'richcontent', 'arrowlink', 'attribute'], ['*.richcontent']).parse(
+    content,
+  ) as XmlElement;
+  const map = isRecord(document.map) ? document.map : null;
+  if (!map) {
+    throw new ImportError('freemind', [{ message: 'expected a FreeMind <map> document' }]);
+  }
+
+  const lines = tagLines(content, 'node');
+  const issues: ImportIssue[] = [];
+  const drafts: DraftNode[] = [];
+  const links: DraftLink[] = [];
+  let visited = 0;
+
+  const visit = (element: XmlElement, parent: number | null, depth: number) => {
+    const line = lines[visited];
+    visited += 1;
+    const richContent = asElements(element.richcontent);
+    const richText = (type: string) => {
+      const match = richContent.find((item) => attribute(item, 'TYPE') === type);
+      return match ? stripHtml(String(match['#text'] ?? '')) : '';
+    };
+
+    const title = collapseWhitespace(attribute(element, 'TEXT') ?? '') || richText('NODE');
+    if (!title) {
+      issues.push({ line, message: '<node> has no TEXT' });
+    }
+
+    const attributes = asElements(element.attribute);
+    const tags = attributes
+      .filter((item) => attribute(item, 'NAME')?.toLowerCase() === 'tag')
+      .map((item) => attribute(item, 'VALUE')?.trim() ?? '')
+      .filter(Boolean);
+    const importanceRaw = attributes.find((item) => attribute(item, 'NAME')?.toLowerCase() === 'importance');
+    const importance = importanceRaw ? parseImportance(attribute(importanceRaw, 'VALUE')) : undefined;
+    if (importance === null) {
+      issues.push({ line, message: 'importance must be an integer from 1 to 5' });
+    }
+
+    const key = attribute(element, 'ID');
+    asElements(element.arrowlink).forEach((arrow) => {
+      const destination = attribute(arrow, 'DESTINATION');
+      if (!key || !destination) {
+        issues.push({ line, message: '<arrowlink> needs a DESTINATION on a node with an ID' });
+        return;
+      }
+      links.push({ source: key, target: destination, label: attribute(arrow, 'MIDDLE_LABEL'), line });
+    });
+
+    const index = drafts.length;
+    drafts.push({
+      key,
+      title,
+      summary: richText('NOTE'),
+      tags,
+      importance: importance ?? undefined,
+      citations: linkCitation(title, attribute(element, 'LINK')),
+      parent,
+      depth,
+    });
+    asElements(element.node).forEach((child) => visit(child, index, depth + 1));
+  };
+  asElements(map.node).forEach((element) => visit(element, null, 0));
+
+  if (drafts.length === 0) {
+    issues.push({ message: 'the map has no nodes' });
+  }
+
+  const { payload, issues: linkIssues } = buildPayload(drafts, links, '');
+  issues.push(...linkIssues);
+  if (issues.length > 0) {
+    throw new ImportError('freemind', issues);
+  }
+
+  return { name: drafts[0]?.title || fileStem(fileName), format: 'freemind', payload };
+}
+
+// ----- Markdown -----
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]]+)\]:\s*(.*)$/;
+const FOOTNOTE_REFERENCE = /\[\^([^\]]+)\]/g;
+const TAG_LINE = /^\s*_([^_].*)_\s*$/;
+const CROSS_LINK = /^\s*[-*+]\s+(.+?)\s*(?:→|->)\s*(.+?)(?:\s+\(([^)]*)\))?\s*$/;
+const RELATED_HEADING = /^related concepts$/i;
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '    ').length;
+}
+
+function parseFootnote(text: string): Citation {
+  const link = text.match(/^\[([^\]]+)\]\(([^)\s]+)\)\s*(?:[—–-]\s*(.+))?$/);
+  if (link) {
+    return { title: link[1].trim(), url: link[2], source: link[3]?.trim() || IMPORTED_SOURCE };
+  }
+  const url = text.match(/https?:\/\/\S+/)?.[0] ?? '';
+  return { title: collapseWhitespace(text.replace(url, '')) || url, url, source: IMPORTED_SOURCE };
+}
+
+/**
+ * Headings and (nested) list items become nodes: list items hang under the
+ * nearest preceding heading, headings under the nearest shallower heading.
+ * `**Title** — summary` splits an item into title and summary, a following
+ * `_a, b_` line sets tags, `[^n]` markers resolve to footnote citations, and
+ * a "Related concepts" section of `A → B (label)` lines adds cross-links —
+ * the shape produced by the Markdown export. Other text is appended to the
+ * preceding node's summary (or the map summary before the first node).
+ */
+function parseMarkdown(content: string, fileName: string): ImportedMindMap {
+  const lines = content.split(/\r?\n/);
+  const issues: ImportIssue[] = [];
+  const drafts: DraftNode[] = [];
+  const links: DraftLink[] = [];
+  const footnotes = new Map<string, Citation>();
+  const references: Array<{ node: number; id: string; line: number }> = [];
+  const headings: Array<{ level: number; node: number }> = [];
+  let listStack: Array<{ indent: number; node: number }> = [];
+  let sourceSummary = '';
+  let lastNode: number | null = null;
+  let lastLineWasNode = false;
+  let startsWithHeading: boolean | null = null;
+  let inRelated = false;
+  let inFence = false;
+
+  const addNode = (text: string, parent: number | null, depth: number, line: number) => {
+    const stripped = text.replace(FOOTNOTE_REFERENCE, (_match, id: string) => {
+      references.push({ node: drafts.length, id, line });
+      return '';
+    });
+    const bold = stripped.match(/^\*\*(.+?)\*\*\s*(?:[—–:]\s*(.*))?$/);
+    const [title, summary] = bold
+      ? [bold[1], bold[2] ?? '']
+      : (() => {
+          const separator = stripped.search(/\s[—–]\s/);
+          return separator === -1 ? [stripped, ''] : [stripped.slice(0, separator), stripped.slice(separator + 3)];
+        })();
+
+    if (!collapseWhitespace(title)) {
+      issues.push({ line, message: 'empty heading or list item' });
+      lastLineWasNode = false;
+      return;
+    }
+    drafts.push({
+      key: collapseWhitespace(title),
+      title: collapseWhitespace(title),
+      summary: collapseWhitespace(summary),
+      tags: [],
+      citations: [],
+      parent,
+      depth,
+    });
+    lastNode = drafts.length - 1;
+    lastLineWasNode = true;
+  };
+
+  lines.forEach((raw, index) => {
+    const line = index + 1;
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence || !raw.trim()) {
+      lastLineWasNode = false;
+      return;
+    }
+
+    const footnote = raw.match(FOOTNOTE_DEFINITION);
+    if (footnote) {
+      footnotes.set(footnote[1], parseFootnote(footnote[2].trim()));
+      lastLineWasNode = false;
+      return;
+    }
+
+    const heading = raw.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      inRelated = RELATED_HEADING.test(heading[2].trim());
+      listStack = [];
+      if (inRelated) return;
+
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      const parent = headings[headings.length - 1]?.node ?? null;
+      startsWithHeading ??= drafts.length === 0;
+      addNode(heading[2], parent, headings.length, line);
+      if (lastLineWasNode) {
+        headings.push({ level, node: drafts.length - 1 });
+      }
+      return;
+    }
+
+    if (inRelated) {
+      const link = raw.match(CROSS_LINK);
+      if (!link) {
+        issues.push({ line, message: 'expected a related concept as "- Source → Target (label)"' });
+        return;
+      }
+      links.push({
+        source: collapseWhitespace(link[1]),
+        target: collapseWhitespace(link[2]),
+        label: link[3]?.trim() || undefined,
+        line,
+      });
+      return;
+    }
+
+    const item = raw.match(LIST_ITEM);
+    if (item) {
+      const indent = indentWidth(item[1]);
+      while (listStack.length > 0 && listStack[listStack.length - 1].indent >= indent) {
+        listStack.pop();
+      }
+      const heading = headings[headings.length - 1];
+      const parent = listStack[listStack.length - 1]?.node ?? heading?.node ?? null;
+      addNode(item[2], parent, headings.length + listStack.length, line);
+      if (lastLineWasNode) {
+        listStack.push({ indent, node: drafts.length - 1 });
+      }
+      return;
+    }
+
+    const tags = raw.match(TAG_LINE);
+    if (tags && lastLineWasNode && lastNode !== null) {
+      drafts[lastNode].tags = tags[1]
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+      lastLineWasNode = false;
+      return;
+    }
+
+    const text = collapseWhitespace(raw);
+    if (lastNode === null) {
+      sourceSummary = collapseWhitespace(`${sourceSummary} ${text}`);
+    } else {
+      drafts[lastNode].summary = collapseWhitespace(`${drafts[lastNode].summary} ${text}`);
+    }
+    lastLineWasNode = false;
+  });
+
+  references.forEach((reference) => {
+    const citation = footnotes.get(reference.id);
+    if (!citation) {
+      issues.push({ line: reference.line, message: `footnote [^${reference.id}] is not defined` });
+      return;
+    }
+    const draft = drafts[reference.node];
+    if (draft && !draft.citations.some((existing) => existing.url === citation.url && existing.title === citation.title)) {
+      draft.citations.push(citation);
+    }
+  });
+
+  if (drafts.length === 0) {
+    issues.push({ message: 'no headings or list items found' });
+  }
+
+  const { payload, issues: linkIssues } = buildPayload(drafts, links, sourceSummary);
+  issues.push(...linkIssues);
+  if (issues.length > 0) {
+    throw new ImportError('markdown', issues);
+  }
+
+  return { name: startsWithHeading ? drafts[0].title : fileStem(fileName), format: 'markdown', payload };
+}
+
+// ----- Entry point -----
+
+/** Picks a parser from the file extension, falling back to sniffing the content. */
+export function detectImportFormat(fileName: string, content: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  switch (extension) {
+    case 'json':
+      return 'json';
+    case 'opml':
+      return 'opml';
+    case 'mm':
+      return 'freemind';
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+  }
+
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'json';
+  if (/^(<\?xml[^>]*>\s*)?<opml[\s>]/.test(start)) return 'opml';
+  if (/^(<\?xml[^>]*>\s*)?<map[\s>]/.test(start)) return 'freemind';
+  if (extension === 'txt' || /^(#|[-*+]\s)/m.test(start)) return 'markdown';
+  return null;
+}
+
+/**
+ * Parses an exported or third-party map. Throws `ImportError` listing every
+ * problem found (with line numbers where the format allows) rather than
+ * importing a partial map.
+ */
+export function parseImport(fileName: string, content: string): ImportedMindMap {
+  const format = detectImportFormat(fileName, content);
+  switch (format) {
+    case 'json':
+      return parseJson(content, fileName);
+    case 'opml':
+      return parseOpml(content, fileName);
+    case 'freemind':
+      return parseFreeMind(content, fileName);
+    case 'markdown':
+      return parseMarkdown(content, fileName);
+    default:
+      throw new ImportError(null, [
+        { message: 'Unrecognised file. Import JSON, OPML, FreeMind (.mm) or Markdown outlines.' },
+      ]);
+  }
+}
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setCollapsed, visiblePayload } from './collapse';
+import { normalizeEdges } from './graph';
+import { LAYOUT_LABELS, computeLayout, placeUnpositionedNodes, relayout, type LayoutAlgorithm } from './layout';
+import type { MindMapNode, MindMapPayload } from './types';
+
+function node(id: string, parentIds: string[] = [], position?: { x: number; y: number }): MindMapNode {
+  return {
+    id,
+    title: id,
+    summary: '',
+    parentIds,
+    importance: 3,
+    tags: [],
+    citations: [],
+    verified: false,
+    ...(position ? { position } : {}),
+  };
+}
+
+function map(nodes: MindMapNode[], layout?: LayoutAlgorithm): MindMapPayload {
+  return {
+    generatedAt: '2026-01-02T03:04:05.000Z',
+    sourceSummary: '',
+    nodes,
+    edges: normalizeEdges(nodes, [{ source: 'bnp', target: 'tx', label: 'guides' }]),
+    ...(layout ? { layout } : {}),
+  };
+}
+
+const tree = map([node('hf'), node('dx', ['hf']), node('bnp', ['dx']), node('echo', ['dx']), node('tx', ['hf'])]);
+const algorithms = Object.keys(LAYOUT_LABELS) as LayoutAlgorithm[];
+
+describe('computeLayout', () => {
+  algorithms.forEach((algorithm) => {
+    it(`places every node apart, deterministically (${algorithm})`, () => {
+      const positions = computeLayout(tree, algorithm);
+      assert.deepEqual([...positions.keys()].sort(), ['bnp', 'dx', 'echo', 'hf', 'tx']);
+      const distinct = new Set([...positions.values()].map(({ x, y }) => `${Math.round(x)},${Math.round(y)}`));
+      assert.equal(distinct.size, 5);
+      assert.deepEqual(computeLayout(tree, algorithm), positions);
+    });
+  });
+
+  it('runs trees left to right and org charts top down', () => {
+    const treeLr = computeLayout(tree, 'tree-lr');
+    assert.ok((treeLr.get('dx')?.x ?? 0) > (treeLr.get('hf')?.x ?? 0));
+    const orgChart = computeLayout(tree, 'org-chart');
+    assert.ok((orgChart.get('dx')?.y ?? 0) > (orgChart.get('hf')?.y ?? 0));
+  });
+
+  it('puts deeper nodes on wider rings in the radial layout', () => {
+    const radial = computeLayout(tree, 'radial');
+    const root = radial.get('hf') as { x: number; y: number };
+    const child = radial.get('dx') as { x: number; y: number };
+    const grandchild = radial.get('bnp') as { x: number; y: number };
+    const distance = (point: { x: number; y: number }) => Math.hypot(point.x - root.x, point.y - root.y);
+    assert.ok(distance(grandchild) > distance(child));
+  });
+});
+
+describe('relayout', () => {
+  it('repositions every visible node and records the algorithm', () => {
+    const moved = map(tree.nodes.map((item) => ({ ...item, position: { x: 1, y: 1 } })));
+    const result = relayout(moved, 'org-chart');
+    assert.equal(result.layout, 'org-chart');
+    const positions = computeLayout(tree, 'org-chart');
+    result.nodes.forEach((item) => assert.deepEqual(item.position, positions.get(item.id)));
+  });
+
+  it('moves collapsed branches along with their nearest visible ancestor', () => {
+    const before = relayout(tree, 'radial');
+    const result = relayout(setCollapsed(before, ['dx'], true), 'tree-lr');
+    const position = (payload: MindMapPayload, id: string) =>
+      payload.nodes.find((item) => item.id === id)?.position as { x: number; y: number };
+    const layout = computeLayout(visiblePayload(setCollapsed(tree, ['dx'], true)), 'tree-lr');
+    assert.deepEqual(position(result, 'dx'), layout.get('dx'));
+    ['bnp', 'echo'].forEach((id) => {
+      assert.equal(layout.has(id), false);
+      const offset = (payload: MindMapPayload) => ({
+        x: position(payload, id).x - position(payload, 'dx').x,
+        y: position(payload, id).y - position(payload, 'dx').y,
+      });
+      assert.ok(Math.abs(offset(result).x - offset(before).x) < 1e-6);
+      assert.ok(Math.abs(offset(result).y - offset(before).y) < 1e-6);
+    });
+  });
+
+  it('leaves hidden nodes that never had a position unplaced', () => {
+    const result = relayout(setCollapsed(tree, ['dx'], true), 'tree-lr');
+    const unplaced = result.nodes.filter((item) => !item.position).map((item) => item.id);
+    assert.deepEqual(unplaced, ['bnp', 'echo']);
+  });
+});
+
+describe('placeUnpositionedNodes', () => {
+  const placed = relayout(tree, 'tree-lr');
+
+  it('returns the map unchanged when every visible node is placed', () => {
+    assert.equal(placeUnpositionedNodes(placed), placed);
+  });
+
+  it('keeps placed nodes where they are and puts a new node next to its moved parent', () => {
+    const moved = {
+      ...placed,
+      nodes: [
+        ...placed.nodes.map((item) => (item.id === 'dx' ? { ...item, position: { x: 5000, y: 5000 } } : item)),
+        node('nppb', ['dx']),
+      ],
+    };
+    const result = placeUnpositionedNodes(moved);
+    moved.nodes.slice(0, -1).forEach((item, index) => assert.deepEqual(result.nodes[index].position, item.position));
+    assert.deepEqual(result.nodes.at(-1)?.position, { x: 5380, y: 5000 });
+  });
+
+  it('grows new nodes in the direction of the layout and steps past their siblings', () => {
+    const grow = (layout: LayoutAlgorithm) => {
+      const base = relayout(tree, layout);
+      const hf = base.nodes.find((item) => item.id === 'hf')?.position as { x: number; y: number };
+      const result = placeUnpositionedNodes({ ...base, nodes: [...base.nodes, node('new1', ['echo']), node('new2', ['echo'])] });
+      const [first, second] = result.nodes.slice(-2).map((item) => item.position as { x: number; y: number });
+      const echo = result.nodes.find((item) => item.id === 'echo')?.position as { x: number; y: number };
+      return { hf, echo, first, second };
+    };
+
+    const lr = grow('tree-lr');
+    assert.ok(lr.first.x > lr.echo.x && lr.first.y === lr.echo.y);
+    assert.ok(lr.second.x === lr.first.x && lr.second.y > lr.first.y);
+
+    const org = grow('org-chart');
+    assert.ok(org.first.y > org.echo.y && org.first.x === org.echo.x);
+    assert.ok(org.second.y === org.first.y && org.second.x > org.first.x);
+
+    const radial = grow('radial');
+    const distance = (point: { x: number; y: number }) => Math.hypot(point.x - radial.hf.x, point.y - radial.hf.y);
+    assert.ok(distance(radial.first) > distance(radial.echo));
+    assert.notDeepEqual(radial.second, radial.first);
+  });
+
+  it('adds a node to a large force-directed map without laying it out again', () => {
+    const nodes = [node('root', [], { x: 0, y: 0 })];
+    for (let index = 1; index < 2000; index += 1) {
+      nodes.push(node(`n${index}`, [`n${Math.floor(index / 4)}`.replace(/^n0$/, 'root')], { x: index * 300, y: 0 }));
+    }
+    const large = map([...nodes, node('added', ['n7'])], 'force');
+    const started = performance.now();
+    const result = placeUnpositionedNodes(large);
+    assert.ok(performance.now() - started < 250);
+    assert.ok(result.nodes.every((item) => item.position));
+  });
+
+  it('lays out a map that has no positions yet in full', () => {
+    const fresh = map(tree.nodes, 'org-chart');
+    const layout = computeLayout(fresh, 'org-chart');
+    placeUnpositionedNodes(fresh).nodes.forEach((item) => assert.deepEqual(item.position, layout.get(item.id)));
+  });
+
+  it('leaves nodes in collapsed branches unplaced until they are shown', () => {
+    const collapsed = setCollapsed({ ...placed, nodes: [...placed.nodes, node('nppb', ['dx'])] }, ['dx'], true);
+    const result = placeUnpositionedNodes(collapsed);
+    assert.equal(result, collapsed);
+    const expanded = placeUnpositionedNodes(setCollapsed(result, ['dx'], false));
+    assert.ok(expanded.nodes.every((item) => item.position));
+  });
+});
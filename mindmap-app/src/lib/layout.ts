@@ -0,0 +1,335 @@
+import dagre from 'dagre';
+import { visiblePayload } from './collapse';
+import type { LayoutAlgorithm, MindMapNode, MindMapPayload } from './types';
+
+export type { LayoutAlgorithm };
+
+const NODE_WIDTH = 260;
+const NODE_HEIGHT = 160;
+
+/** Gap between siblings and between ranks of the dagre layouts. */
+const TREE_SPACING = {
+  LR: { nodesep: 40, ranksep: 120 },
+  TB: { nodesep: 60, ranksep: 100 },
+} as const;
+/** Distance between the rings of the radial layout. */
+const RING_SPACING = 340;
+const FORCE_ITERATIONS = 150;
+/** Ideal edge length of the force-directed layout. */
+const FORCE_SPRING_LENGTH = 320;
+
+export const DEFAULT_LAYOUT: LayoutAlgorithm = 'tree-lr';
+
+export const LAYOUT_LABELS: Record<LayoutAlgorithm, string> = {
+  'tree-lr': 'Left-to-right tree',
+  radial: 'Radial mind map',
+  'org-chart': 'Top-down org chart',
+  force: 'Force-directed',
+};
+
+type Point = { x: number; y: number };
+
+/** Top-left canvas positions keyed by node id, as React Flow expects them. */
+export type LayoutPositions = Map<string, Point>;
+
+function treeChildren(payload: MindMapPayload): { roots: string[]; children: Map<string, string[]> } {
+  const ids = new Set(payload.nodes.map((node) => node.id));
+  const children = new Map<string, string[]>();
+  const roots: string[] = [];
+  payload.nodes.forEach((node) => {
+    const parentId = node.parentIds.find((id) => ids.has(id) && id !== node.id);
+    if (parentId) {
+      children.set(parentId, [...(children.get(parentId) ?? []), node.id]);
+    } else {
+      roots.push(node.id);
+    }
+  });
+  return { roots, children };
+}
+
+function dagreLayout(payload: MindMapPayload, rankdir: 'LR' | 'TB'): LayoutPositions {
+  const graph = new dagre.graphlib.Graph();
+  graph.setDefaultEdgeLabel(() => ({}));
+  graph.setGraph({ rankdir, ...TREE_SPACING[rankdir] });
+
+  payload.nodes.forEach((node) => {
+    graph.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT });
+  });
+  payload.edges.forEach((edge) => {
+    if (edge.kind === 'hierarchy' && graph.hasNode(edge.source) && graph.hasNode(edge.target)) {
+      graph.setEdge(edge.source, edge.target);
+    }
+  });
+
+  dagre.layout(graph);
+
+  return new Map(
+    payload.nodes.map((node) => {
+      const { x, y } = graph.node(node.id);
+      return [node.id, { x: x - NODE_WIDTH / 2, y: y - NODE_HEIGHT / 2 }];
+    }),
+  );
+}
+
+/**
+ * Places roots around the centre and each subtree in an angular wedge sized
+ * by its leaf count, one ring per depth. A node reachable from several
+ * parents sits under the first one, and cycles are cut where they close.
+ */
+function radialLayout(payload: MindMapPayload): LayoutPositions {
+  const { roots, children } = treeChildren(payload);
+  const visited = new Set<string>();
+  const leaves = new Map<string, number>();
+
+  const countLeaves = (id: string): number => {
+    visited.add(id);
+    const kids = (children.get(id) ?? []).filter((child) => !visited.has(child));
+    children.set(id, kids);
+    const count = kids.length === 0 ? 1 : kids.reduce((sum, child) => sum + countLeaves(child), 0);
+    leaves.set(id, count);
+    return count;
+  };
+  roots.forEach(countLeaves);
+  // Nodes only reachable through a cycle have no root; lay them out as extra roots.
+  payload.nodes.forEach((node) => {
+    if (!visited.has(node.id)) {
+      roots.push(node.id);
+      countLeaves(node.id);
+    }
+  });
+
+  const centres = new Map<string, Point>();
+  const place = (id: string, depth: number, start: number, end: number) => {
+    const angle = (start + end) / 2;
+    const radius = depth * RING_SPACING;
+    centres.set(id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+    let cursor = start;
+    (children.get(id) ?? []).forEach((child) => {
+      const span = ((end - start) * (leaves.get(child) ?? 1)) / (leaves.get(id) ?? 1);
+      place(child, depth + 1, cursor, cursor + span);
+      cursor += span;
+    });
+  };
+
+  if (roots.length === 1) {
+    place(roots[0], 0, 0, Math.PI * 2);
+  } else {
+    // Several roots share the first ring around an empty centre.
+    const total = roots.reduce((sum, id) => sum + (leaves.get(id) ?? 1), 0);
+    let cursor = 0;
+    roots.forEach((id) => {
+      const span = (Math.PI * 2 * (leaves.get(id) ?? 1)) / total;
+      place(id, 1, cursor, cursor + span);
+      cursor += span;
+    });
+  }
+
+  return new Map(
+    [...centres].map(([id, centre]) => [id, { x: centre.x - NODE_WIDTH / 2, y: centre.y - NODE_HEIGHT / 2 }]),
+  );
+}
+
+/**
+ * Fruchterman–Reingold spring embedding over every edge, cross-links
+ * included, started from the radial layout so the result is deterministic.
+ */
+function forceLayout(payload: MindMapPayload): LayoutPositions {
+  const ids = payload.nodes.map((node) => node.id);
+  const index = new Map(ids.map((id, position) => [id, position]));
+  const start = radialLayout(payload);
+  const xs = ids.map((id) => start.get(id)?.x ?? 0);
+  const ys = ids.map((id) => start.get(id)?.y ?? 0);
+  const links = payload.edges
+    .map((edge) => [index.get(edge.source), index.get(edge.target)] as const)
+    .filter((link): link is readonly [number, number] => link[0] !== undefined && link[1] !== undefined);
+
+  const k = FORCE_SPRING_LENGTH;
+  let temperature = k;
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration += 1) {
+    const dx = new Array<number>(ids.length).fill(0);
+    const dy = new Array<number>(ids.length).fill(0);
+
+    for (let a = 0; a < ids.length; a += 1) {
+      for (let b = a + 1; b < ids.length; b += 1) {
+        const deltaX = xs[a] - xs[b] || 0.01;
+        const deltaY = ys[a] - ys[b] || 0.01;
+        const distanceSquared = deltaX * deltaX + deltaY * deltaY;
+        const repulsion = (k * k) / distanceSquared;
+        dx[a] += deltaX * repulsion;
+        dy[a] += deltaY * repulsion;
+        dx[b] -= deltaX * repulsion;
+        dy[b] -= deltaY * repulsion;
+      }
+    }
+
+    links.forEach(([a, b]) => {
+      const deltaX = xs[a] - xs[b];
+      const deltaY = ys[a] - ys[b];
+      const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY) || 0.01;
+      const attraction = distance / k;
+      dx[a] -= deltaX * attraction;
+      dy[a] -= deltaY * attraction;
+      dx[b] += deltaX * attraction;
+      dy[b] += deltaY * attraction;
+    });
+
+    for (let node = 0; node < ids.length; node += 1) {
+      const length = Math.sqrt(dx[node] * dx[node] + dy[node] * dy[node]);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        xs[node] += (dx[node] / length) * step;
+        ys[node] += (dy[node] / length) * step;
+      }
+    }
+    temperature *= 0.97;
+  }
+
+  return new Map(ids.map((id, position) => [id, { x: xs[position], y: ys[position] }]));
+}
+
+/** Positions for every node of the map under `algorithm`, ignoring any stored positions. */
+export function computeLayout(payload: MindMapPayload, algorithm: LayoutAlgorithm): LayoutPositions {
+  switch (algorithm) {
+    case 'radial':
+      return radialLayout(payload);
+    case 'org-chart':
+      return dagreLayout(payload, 'TB');
+    case 'force':
+      return forceLayout(payload);
+    case 'tree-lr':
+    default:
+      return dagreLayout(payload, 'LR');
+  }
+}
+
+/**
+ * Replaces every node position with a fresh layout of the visible nodes.
+ * Nodes inside collapsed branches move along with their nearest visible
+ * ancestor, so a branch collapsed only in this view keeps positions that
+ * fit the new layout for everyone else in a shared session.
+ */
+export function relayout(payload: MindMapPayload, algorithm: LayoutAlgorithm): MindMapPayload {
+  const positions = computeLayout(visiblePayload(payload), algorithm);
+  const byId = new Map(payload.nodes.map((node) => [node.id, node]));
+  const shiftOf = (node: MindMapNode, seen: Set<string>): Point | null => {
+    const position = positions.get(node.id);
+    if (position) return node.position ? { x: position.x - node.position.x, y: position.y - node.position.y } : null;
+    const parent = node.parentIds.map((id) => byId.get(id)).find((candidate) => candidate && !seen.has(candidate.id));
+    return parent ? shiftOf(parent, new Set(seen).add(parent.id)) : null;
+  };
+  return {
+    ...payload,
+    layout: algorithm,
+    nodes: payload.nodes.map((node) => {
+      const position = positions.get(node.id);
+      if (position) return { ...node, position };
+      const shift = node.position ? shiftOf(node, new Set([node.id])) : null;
+      return node.position && shift ? { ...node, position: { x: node.position.x + shift.x, y: node.position.y + shift.y } } : node;
+    }),
+  };
+}
+
+/**
+ * Where a new child goes relative to its parent under `algorithm`, and the
+ * step to the next free slot when a sibling already sits there. `outward`
+ * is the unit direction away from the parent's own parent, used by the
+ * layouts that grow in every direction.
+ */
+function childPlacement(algorithm: LayoutAlgorithm, outward: Point): { offset: Point; step: Point } {
+  switch (algorithm) {
+    case 'org-chart':
+      return {
+        offset: { x: 0, y: NODE_HEIGHT + TREE_SPACING.TB.ranksep },
+        step: { x: NODE_WIDTH + TREE_SPACING.TB.nodesep, y: 0 },
+      };
+    case 'radial':
+    case 'force': {
+      const across = Math.abs(outward.y) * NODE_WIDTH + Math.abs(outward.x) * NODE_HEIGHT + TREE_SPACING.LR.nodesep;
+      return {
+        offset: { x: outward.x * RING_SPACING, y: outward.y * RING_SPACING },
+        step: { x: -outward.y * across, y: outward.x * across },
+      };
+    }
+    case 'tree-lr':
+    default:
+      return {
+        offset: { x: NODE_WIDTH + TREE_SPACING.LR.ranksep, y: 0 },
+        step: { x: 0, y: NODE_HEIGHT + TREE_SPACING.LR.nodesep },
+      };
+  }
+}
+
+function overlaps(a: Point, b: Point): boolean {
+  return (
+    Math.abs(a.x - b.x) < NODE_WIDTH + TREE_SPACING.LR.nodesep / 2 &&
+    Math.abs(a.y - b.y) < NODE_HEIGHT + TREE_SPACING.LR.nodesep / 2
+  );
+}
+
+/**
+ * Gives positions to nodes that have none, leaving placed nodes where they
+ * are. A map with no positions at all gets a full layout. Otherwise each new
+ * node goes next to its parent in the direction the map's layout grows,
+ * stepping past siblings and other nodes already there, so adding a node
+ * costs a pass over the map rather than a whole layout. Nodes in collapsed
+ * branches wait until they are shown. Returns the payload unchanged when
+ * every visible node is placed.
+ */
+export function placeUnpositionedNodes(payload: MindMapPayload): MindMapPayload {
+  const visible = visiblePayload(payload);
+  if (visible.nodes.every((node) => node.position)) return payload;
+  const algorithm = payload.layout ?? DEFAULT_LAYOUT;
+  if (visible.nodes.every((node) => !node.position)) {
+    const layout = computeLayout(visible, algorithm);
+    return {
+      ...payload,
+      nodes: payload.nodes.map((node) => {
+        const position = layout.get(node.id);
+        return position ? { ...node, position } : node;
+      }),
+    };
+  }
+
+  const placed = new Map<string, Point>();
+  visible.nodes.forEach((node) => {
+    if (node.position) placed.set(node.id, node.position);
+  });
+  const occupied = [...placed.values()];
+
+  const byId = new Map(visible.nodes.map((node) => [node.id, node]));
+  const parentOf = (node: MindMapNode, seen: Set<string>) =>
+    node.parentIds.map((id) => byId.get(id)).find((candidate) => candidate && !seen.has(candidate.id));
+  const resolve = (node: MindMapNode, seen: Set<string>): Point => {
+    const existing = placed.get(node.id);
+    if (existing) return existing;
+    const parent = parentOf(node, seen);
+    let position: Point = { x: 0, y: 0 };
+    let step = childPlacement(algorithm, { x: 1, y: 0 }).step;
+    if (parent) {
+      const parentSeen = new Set(seen).add(node.id);
+      const parentPosition = resolve(parent, parentSeen);
+      const grandparent = parentOf(parent, new Set(parentSeen).add(parent.id));
+      const from = grandparent ? resolve(grandparent, new Set(parentSeen).add(parent.id)) : null;
+      const dx = from ? parentPosition.x - from.x : 1;
+      const dy = from ? parentPosition.y - from.y : 0;
+      const length = Math.sqrt(dx * dx + dy * dy) || 1;
+      const placement = childPlacement(algorithm, { x: dx / length, y: dy / length });
+      position = { x: parentPosition.x + placement.offset.x, y: parentPosition.y + placement.offset.y };
+      step = placement.step;
+    }
+    // Each occupied slot can block only a step or two, which bounds the search.
+    for (let attempt = 0; attempt <= occupied.length * 2 && occupied.some((other) => overlaps(position, other)); attempt += 1) {
+      position = { x: position.x + step.x, y: position.y + step.y };
+    }
+    placed.set(node.id, position);
+    occupied.push(position);
+    return position;
+  };
+
+  return {
+    ...payload,
+    nodes: payload.nodes.map((node) =>
+      node.position || !byId.has(node.id) ? node : { ...node, position: resolve(node, new Set([node.id])) },
+    ),
+  };
+}
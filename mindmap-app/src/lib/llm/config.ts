@@ -0,0 +1,53 @@
+import type { FeatureModelSettings, LlmFeature, LlmProviderName, ReasoningEffort } from './types';
+
+const DEFAULT_SETTINGS: Record<LlmFeature, FeatureModelSettings> = {
+  generation: { model: 'gpt-4o-mini', temperature: 0.2, reasoningEffort: 'medium' },
+  autocorrect: { model: 'gpt-4o-mini', temperature: 0.1 },
+  verification: { model: 'gpt-4o-mini', temperature: 0 },
+  expansion: { model: 'gpt-4o-mini', temperature: 0.2, reasoningEffort: 'medium' },
+  quiz: { model: 'gpt-4o-mini', temperature: 0.4, reasoningEffort: 'medium' },
+};
+
+const PROVIDER_NAMES: LlmProviderName[] = ['openai', 'openai-compatible', 'mock'];
+const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+
+export function getProviderName(): LlmProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!configured) {
+    return 'openai';
+  }
+  if (!PROVIDER_NAMES.includes(configured as LlmProviderName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+  return configured as LlmProviderName;
+}
+
+/**
+ * Resolves model settings for a feature. Each field can be overridden with
+ * `LLM_<FEATURE>_MODEL`, `LLM_<FEATURE>_TEMPERATURE` and
+ * `LLM_<FEATURE>_REASONING_EFFORT` (use `none` to omit reasoning).
+ */
+export function getFeatureSettings(feature: LlmFeature): FeatureModelSettings {
+  const prefix = `LLM_${feature.toUpperCase()}`;
+  const defaults = DEFAULT_SETTINGS[feature];
+  const model = process.env[`${prefix}_MODEL`]?.trim() || defaults.model;
+
+  const temperatureRaw = process.env[`${prefix}_TEMPERATURE`]?.trim();
+  const temperature = temperatureRaw ? Number(temperatureRaw) : defaults.temperature;
+  if (temperature !== undefined && Number.isNaN(temperature)) {
+    throw new Error(`${prefix}_TEMPERATURE must be a number.`);
+  }
+
+  const effortRaw = process.env[`${prefix}_REASONING_EFFORT`]?.trim().toLowerCase();
+  let reasoningEffort = defaults.reasoningEffort;
+  if (effortRaw === 'none') {
+    reasoningEffort = undefined;
+  } else if (effortRaw) {
+    if (!REASONING_EFFORTS.includes(effortRaw as ReasoningEffort)) {
+      throw new Error(`${prefix}_REASONING_EFFORT must be one of: none, ${REASONING_EFFORTS.join(', ')}.`);
+    }
+    reasoningEffort = effortRaw as ReasoningEffort;
+  }
+
+  return { model, temperature, reasoningEffort };
+}
@@ -0,0 +1,35 @@
+import { getProviderName } from './config';
+import { createMockProvider } from './mock';
+import { createOpenAiCompatibleProvider, createOpenAiProvider } from './openai';
+import type { LlmProvider } from './types';
+
+export { getFeatureSettings } from './config';
+export { safeParseJson } from './json';
+export { completeStructured } from './structured';
+export {
+  AiOutputValidationError,
+  autoCorrectionValidator,
+  claimCheckValidator,
+  quizValidator,
+  validateExpansion,
+  validateMindMapGraph,
+  type AiAutoCorrection,
+  type AiClaimCheck,
+  type AiMindMapExpansion,
+  type AiQuizQuestion,
+  type ValidationIssue,
+} from './validation';
+export type { FeatureModelSettings, LlmFeature, LlmProvider, LlmProviderName, LlmRequest } from './types';
+
+/** Creates the provider selected by `LLM_PROVIDER` (defaults to `openai`). */
+export function getLlmProvider(): LlmProvider {
+  switch (getProviderName()) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider();
+    case 'openai':
+    default:
+      return createOpenAiProvider();
+  }
+}
@@ -0,0 +1,12 @@
+export function safeParseJson<T>(input: string): T {
+  try {
+    return JSON.parse(input) as T;
+  } catch {
+    const start = input.indexOf('{');
+    const end = input.lastIndexOf('}');
+    if (start !== -1 && end !== -1 && end > start) {
+      return JSON.parse(input.slice(start, end + 1)) as T;
+    }
+    throw new Error('Failed to parse JSON from AI response');
+  }
+}
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createMockProvider, promptFingerprint } from './mock';
+import { completeStructured } from './structured';
+import {
+  autoCorrectionValidator,
+  claimCheckValidator,
+  quizValidator,
+  validateExpansion,
+  validateMindMapGraph,
+} from './validation';
+
+describe('mock provider', () => {
+  describe('built-in fixtures', () => {
+    before(() => {
+      delete process.env.LLM_MOCK_FIXTURES_DIR;
+    });
+
+    it('answers every feature with output that passes its validator', async () => {
+      const llm = createMockProvider();
+      const input = 'Heart failure notes';
+      await completeStructured(llm, { feature: 'generation', input }, validateMindMapGraph, { maxRepairs: 0 });
+      await completeStructured(llm, { feature: 'autocorrect', input }, autoCorrectionValidator(0), { maxRepairs: 0 });
+      await completeStructured(llm, { feature: 'verification', input }, claimCheckValidator(1), { maxRepairs: 0 });
+      await completeStructured(llm, { feature: 'expansion', input }, validateExpansion, { maxRepairs: 0 });
+      await completeStructured(llm, { feature: 'quiz', input }, quizValidator([0]), { maxRepairs: 0 });
+    });
+
+    it('is deterministic', async () => {
+      const llm = createMockProvider();
+      const first = await llm.complete({ feature: 'generation', input: 'a' });
+      const second = await llm.complete({ feature: 'generation', input: 'b' });
+      assert.equal(first, second);
+    });
+  });
+
+  describe('LLM_MOCK_FIXTURES_DIR', () => {
+    let dir: string;
+
+    before(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'llm-mock-'));
+      process.env.LLM_MOCK_FIXTURES_DIR = dir;
+      await writeFile(path.join(dir, 'autocorrect.json'), '{"from":"feature"}');
+      await writeFile(path.join(dir, `autocorrect.${promptFingerprint('pinned prompt')}.json`), '{"from":"fingerprint"}');
+    });
+
+    after(async () => {
+      delete process.env.LLM_MOCK_FIXTURES_DIR;
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('prefers a reply recorded for the exact prompt', async () => {
+      const reply = await createMockProvider().complete({ feature: 'autocorrect', input: 'pinned prompt' });
+      assert.equal(reply, '{"from":"fingerprint"}');
+    });
+
+    it('falls back to the feature fixture, then the built-in one', async () => {
+      const llm = createMockProvider();
+      assert.equal(await llm.complete({ feature: 'autocorrect', input: 'other prompt' }), '{"from":"feature"}');
+      const generation = JSON.parse(await llm.complete({ feature: 'generation', input: 'other prompt' }));
+      assert.ok(Array.isArray(generation.nodes));
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import autocorrectFixture from './fixtures/autocorrect.json';
+import generationFixture from './fixtures/generation.json';
+import expansionFixture from './fixtures/expansion.json';
+import quizFixture from './fixtures/quiz.json';
+import verificationFixture from './fixtures/verification.json';
+import type { LlmFeature, LlmProvider, LlmRequest } from './types';
+
+const BUILT_IN_FIXTURES: Record<LlmFeature, unknown> = {
+  generation: generationFixture,
+  autocorrect: autocorrectFixture,
+  verification: verificationFixture,
+  expansion: expansionFixture,
+  quiz: quizFixture,
+};
+
+export function promptFingerprint(input: string): string {
+  return createHash('sha256').update(input).digest('hex').slice(0, 16);
+}
+
+async function readFixture(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deterministic provider that never touches the network. With
+ * `LLM_MOCK_FIXTURES_DIR` set, a reply is read from
+ * `<feature>.<promptFingerprint>.json` (a recorded response for that exact
+ * prompt) or else `<feature>.json`; otherwise the built-in fixture is used.
+ */
+export function createMockProvider(): LlmProvider {
+  const fixturesDir = process.env.LLM_MOCK_FIXTURES_DIR;
+
+  return {
+    name: 'mock',
+    async complete(request: LlmRequest) {
+      if (fixturesDir) {
+        const candidates = [
+          path.join(fixturesDir, `${request.feature}.${promptFingerprint(request.input)}.json`),
+          path.join(fixturesDir, `${request.feature}.json`),
+        ];
+        for (const candidate of candidates) {
+          const contents = await readFixture(candidate);
+          if (contents !== null) {
+            return contents;
+          }
+        }
+      }
+      return JSON.stringify(BUILT_IN_FIXTURES[request.feature]);
+    },
+  };
+}
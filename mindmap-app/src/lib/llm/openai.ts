@@ -0,0 +1,91 @@
+import OpenAI from 'openai';
+import { getFeatureSettings } from './config';
+import type { LlmProvider, LlmRequest } from './types';
+
+const APPLICATION_NAME = 'agentic-3431c676';
+
+type AiResponseLike = {
+  output_text?: string | null;
+  output?: Array<{
+    content?: Array<{
+      text?: string;
+    }>;
+  }>;
+};
+
+const collectResponseText = (payload: AiResponseLike): string => {
+  if (payload.output_text) {
+    return payload.output_text;
+  }
+  if (payload.output && payload.output.length > 0) {
+    const segments = payload.output.flatMap((item) =>
+      (item.content ?? []).map((content) => content?.text).filter((segment): segment is string => typeof segment === 'string'),
+    );
+    if (segments.length > 0) {
+      return segments.join('\n');
+    }
+  }
+  return '';
+};
+
+export function createOpenAiProvider(): LlmProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('Missing OPENAI_API_KEY');
+  }
+  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+  return {
+    name: 'openai',
+    async complete(request: LlmRequest) {
+      const settings = getFeatureSettings(request.feature);
+      const response = await openai.responses.create({
+        model: settings.model,
+        ...(settings.reasoningEffort ? { reasoning: { effort: settings.reasoningEffort } } : {}),
+        temperature: settings.temperature,
+        input: request.input,
+        metadata: {
+          application: APPLICATION_NAME,
+          feature: request.feature,
+          ...request.metadata,
+        },
+      });
+
+      const outputText = collectResponseText(response as AiResponseLike);
+      if (!outputText) {
+        throw new Error('Empty AI response');
+      }
+      return outputText;
+    },
+  };
+}
+
+/**
+ * Talks to any server exposing the OpenAI Chat Completions API, such as
+ * Ollama (`http://localhost:11434/v1`) or llama.cpp's `llama-server`.
+ */
+export function createOpenAiCompatibleProvider(): LlmProvider {
+  const baseURL = process.env.LLM_BASE_URL;
+  if (!baseURL) {
+    throw new Error('Missing LLM_BASE_URL for the openai-compatible provider');
+  }
+  // Local servers usually ignore the key, but the client requires one.
+  const openai = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || 'not-needed' });
+
+  return {
+    name: 'openai-compatible',
+    async complete(request: LlmRequest) {
+      const settings = getFeatureSettings(request.feature);
+      const completion = await openai.chat.completions.create({
+        model: settings.model,
+        temperature: settings.temperature,
+        messages: [{ role: 'user', content: request.input }],
+      });
+
+      const outputText = completion.choices[0]?.message?.content ?? '';
+      if (!outputText) {
+        throw new Error('Empty AI response');
+      }
+      return outputText;
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_MAX_REPAIRS, completeStructured } from './structured';
+import type { LlmProvider, LlmRequest } from './types';
+import { AiOutputValidationError, autoCorrectionValidator, validateMindMapGraph } from './validation';
+
+/** Answers with `replies` in turn and records every request it was sent. */
+function scriptedProvider(replies: string[]): LlmProvider & { requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+  return {
+    name: 'mock',
+    requests,
+    async complete(request) {
+      requests.push(request);
+      return replies[Math.min(requests.length, replies.length) - 1];
+    },
+  };
+}
+
+const validGraph = JSON.stringify({
+  sourceSummary: 'Heart failure.',
+  nodes: [
+    { id: 'hf', title: 'Heart failure', summary: 'Pump failure.', parentIds: [] },
+    { id: 'tx', title: 'Treatment', summary: 'GDMT.', parentIds: ['hf'] },
+  ],
+  edges: [],
+});
+
+const request: LlmRequest = { feature: 'generation', input: 'Map these notes.', metadata: { chunk: '1/1' } };
+
+describe('completeStructured', () => {
+  it('returns the first reply that validates, with defaults filled in', async () => {
+    const llm = scriptedProvider([validGraph]);
+    const graph = await completeStructured(llm, request, validateMindMapGraph);
+    assert.equal(llm.requests.length, 1);
+    assert.equal(graph.nodes[0].importance, 3);
+    assert.deepEqual(graph.nodes[0].tags, []);
+  });
+
+  it('sends the problems back to the model and accepts the repaired reply', async () => {
+    const broken = JSON.stringify({
+      sourceSummary: '',
+      nodes: [{ id: 'tx', title: 'Treatment', summary: '', parentIds: ['missing'], importance: 9 }],
+    });
+    const llm = scriptedProvider(['not json', broken, validGraph]);
+    const graph = await completeStructured(llm, request, validateMindMapGraph);
+
+    assert.equal(graph.nodes.length, 2);
+    assert.equal(llm.requests.length, 3);
+    assert.match(llm.requests[1].input, /^Map these notes\.\n/);
+    assert.match(llm.requests[1].input, /- \$: response was not valid JSON/);
+    assert.match(llm.requests[2].input, /- \$\.nodes\[0\]\.parentIds\[0\]: references unknown node "missing"/);
+    assert.match(llm.requests[2].input, /- \$\.nodes\[0\]\.importance: must be an integer from 1 to 5/);
+    assert.doesNotMatch(llm.requests[2].input, /not valid JSON/);
+    assert.deepEqual(
+      llm.requests.map((sent) => sent.metadata),
+      [
+        { chunk: '1/1' },
+        { chunk: '1/1', repairAttempt: '1' },
+        { chunk: '1/1', repairAttempt: '2' },
+      ],
+    );
+  });
+
+  it('gives up after the last repair with the remaining issues', async () => {
+    const llm = scriptedProvider([JSON.stringify({ sourceSummary: '', nodes: [] })]);
+    await assert.rejects(completeStructured(llm, request, validateMindMapGraph), (error) => {
+      assert.ok(error instanceof AiOutputValidationError);
+      assert.equal(error.attempts, DEFAULT_MAX_REPAIRS + 1);
+      assert.deepEqual(error.issues, [{ path: '$.nodes', message: 'must be a non-empty array' }]);
+      assert.match(error.message, /after 3 attempt\(s\): \$\.nodes: must be a non-empty array/);
+      return true;
+    });
+    assert.equal(llm.requests.length, DEFAULT_MAX_REPAIRS + 1);
+  });
+
+  it('makes a single attempt with maxRepairs 0', async () => {
+    const llm = scriptedProvider(['{']);
+    await assert.rejects(completeStructured(llm, request, validateMindMapGraph, { maxRepairs: 0 }), AiOutputValidationError);
+    assert.equal(llm.requests.length, 1);
+  });
+});
+
+describe('autoCorrectionValidator', () => {
+  const reply = (citation: unknown) => ({
+    summary: 'Loop diuretics relieve congestion.',
+    rationale: [{ claim: 'Relieve congestion', citation, explanation: 'Stated in the guideline.' }],
+  });
+
+  it('accepts citation numbers in range and null', () => {
+    const validate = autoCorrectionValidator(2);
+    assert.deepEqual(validate(reply(2)), {
+      ok: true,
+      value: { summary: 'Loop diuretics relieve congestion.', rationale: [{ claim: 'Relieve congestion', citation: 2, explanation: 'Stated in the guideline.' }] },
+    });
+    assert.equal(validate(reply(null)).ok, true);
+  });
+
+  it('rejects citation numbers outside the citations offered', () => {
+    const validate = autoCorrectionValidator(2);
+    [0, 3, 1.5, '1'].forEach((citation) => {
+      assert.deepEqual(validate(reply(citation)), {
+        ok: false,
+        issues: [{ path: '$.rationale[0].citation', message: 'must be null or a citation number from 1 to 2' }],
+      });
+    });
+  });
+
+  it('only allows null when no citations were given', () => {
+    assert.deepEqual(autoCorrectionValidator(0)(reply(1)), {
+      ok: false,
+      issues: [{ path: '$.rationale[0].citation', message: 'must be null (no citations were given)' }],
+    });
+  });
+});
+
+describe('validateMindMapGraph', () => {
+  it('reports duplicate ids, cycles and a missing root', () => {
+    const result = validateMindMapGraph({
+      sourceSummary: '',
+      nodes: [
+        { id: 'a', title: 'A', summary: '', parentIds: ['b'] },
+        { id: 'b', title: 'B', summary: '', parentIds: ['a'] },
+        { id: 'b', title: 'B again', summary: '', parentIds: ['a'] },
+      ],
+    });
+    assert.equal(result.ok, false);
+    const messages = result.ok ? [] : result.issues.map((issue) => `${issue.path}: ${issue.message}`);
+    assert.ok(messages.includes('$.nodes[2].id: duplicate id "b"'));
+    assert.ok(messages.some((message) => message.startsWith('$.nodes: cycle in parentIds: ')));
+    assert.ok(messages.includes('$.nodes: no root node (a node with empty parentIds)'));
+  });
+});
@@ -0,0 +1,60 @@
+import { safeParseJson } from './json';
+import type { LlmProvider, LlmRequest } from './types';
+import { AiOutputValidationError, formatIssues, type ValidationIssue, type Validator } from './validation';
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+function buildRepairPrompt(originalInput: string, previousOutput: string, issues: ValidationIssue[]): string {
+  return `${originalInput}
+
+Your previous reply was:
+"""
+${previousOutput}
+"""
+
+It was rejected because:
+${formatIssues(issues)}
+
+Return the complete corrected JSON only, fixing every problem listed above.`;
+}
+
+/**
+ * Requests JSON from the model and validates it. When parsing or validation
+ * fails the errors are sent back to the model, up to `maxRepairs` times,
+ * before giving up with an {@link AiOutputValidationError}.
+ */
+export async function completeStructured<T>(
+  llm: LlmProvider,
+  request: LlmRequest,
+  validate: Validator<T>,
+  { maxRepairs = DEFAULT_MAX_REPAIRS } = {},
+): Promise<T> {
+  let input = request.input;
+  let issues: ValidationIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt += 1) {
+    const outputText = await llm.complete({
+      ...request,
+      input,
+      metadata: attempt > 1 ? { ...request.metadata, repairAttempt: String(attempt - 1) } : request.metadata,
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = safeParseJson<unknown>(outputText);
+    } catch {
+      issues = [{ path: '$', message: 'response was not valid JSON' }];
+      input = buildRepairPrompt(request.input, outputText, issues);
+      continue;
+    }
+
+    const result = validate(parsed);
+    if (result.ok) {
+      return result.value;
+    }
+    issues = result.issues;
+    input = buildRepairPrompt(request.input, outputText, issues);
+  }
+
+  throw new AiOutputValidationError(issues, maxRepairs + 1);
+}
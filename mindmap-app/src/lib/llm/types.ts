@@ -0,0 +1,23 @@
+export type LlmFeature = 'generation' | 'autocorrect' | 'verification' | 'expansion' | 'quiz';
+
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+export type FeatureModelSettings = {
+  model: string;
+  temperature?: number;
+  reasoningEffort?: ReasoningEffort;
+};
+
+export type LlmRequest = {
+  feature: LlmFeature;
+  input: string;
+  metadata?: Record<string, string>;
+};
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  /** Runs a single prompt and returns the raw text of the model's reply. */
+  complete(request: LlmRequest): Promise<string>;
+}
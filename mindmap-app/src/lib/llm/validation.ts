@@ -0,0 +1,435 @@
+import { CLAIM_VERDICTS } from '../claims';
+import type {
+  AiMindMapEdge,
+  AiMindMapGraph,
+  AiMindMapNode,
+  ClaimVerdict,
+  QuizQuestionKind,
+  ValidationIssue,
+} from '../types';
+
+export type { ValidationIssue };
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+export class AiOutputValidationError extends Error {
+  readonly issues: ValidationIssue[];
+  readonly attempts: number;
+
+  constructor(issues: ValidationIssue[], attempts: number) {
+    const listed = issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : '';
+    super(`AI output failed validation after ${attempts} attempt(s): ${listed}${more}`);
+    this.name = 'AiOutputValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  { required = true, nonEmpty = true } = {},
+): string {
+  const value = record[key];
+  if (value === undefined && !required) return '';
+  if (typeof value !== 'string') {
+    issues.push({ path: `${path}.${key}`, message: 'must be a string' });
+    return '';
+  }
+  if (nonEmpty && !value.trim()) {
+    issues.push({ path: `${path}.${key}`, message: 'must not be empty' });
+  }
+  return value;
+}
+
+function readStringArray(
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+): string[] {
+  const value = record[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    issues.push({ path: `${path}.${key}`, message: 'must be an array of strings' });
+    return [];
+  }
+  return value as string[];
+}
+
+/** Walks parent links depth-first and reports each distinct cycle once. */
+function findParentCycles(nodes: AiMindMapNode[]): string[][] {
+  const parentsById = new Map(nodes.map((node) => [node.id, node.parentIds ?? []]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string, trail: string[]) => {
+    const current = state.get(id);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      cycles.push([...trail.slice(trail.indexOf(id)), id]);
+      return;
+    }
+    state.set(id, 'visiting');
+    for (const parentId of parentsById.get(id) ?? []) {
+      if (parentId !== id && parentsById.has(parentId)) {
+        visit(parentId, [...trail, id]);
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  nodes.forEach((node) => visit(node.id, []));
+  return cycles;
+}
+
+/**
+ * Checks the shape of a generated graph and its structure: unique IDs,
+ * `parentIds` and edges that reference real nodes, importance in 1–5, no
+ * cycles through `parentIds`, and at least one root. Optional fields are
+ * filled with defaults on success.
+ */
+export const validateMindMapGraph: Validator<AiMindMapGraph> = (value) => {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(value)) {
+    return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+  }
+
+  const sourceSummary = readString(value, 'sourceSummary', '$', issues, { nonEmpty: false });
+
+  if (!Array.isArray(value.nodes) || value.nodes.length === 0) {
+    issues.push({ path: '$.nodes', message: 'must be a non-empty array' });
+    return { ok: false, issues };
+  }
+  if (value.edges !== undefined && !Array.isArray(value.edges)) {
+    issues.push({ path: '$.edges', message: 'must be an array' });
+  }
+
+  const nodes: AiMindMapNode[] = [];
+  const seenIds = new Set<string>();
+
+  value.nodes.forEach((raw, index) => {
+    const path = `$.nodes[${index}]`;
+    if (!isRecord(raw)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    const id = readString(raw, 'id', path, issues);
+    const title = readString(raw, 'title', path, issues);
+    const summary = readString(raw, 'summary', path, issues, { nonEmpty: false });
+    const parentIds = readStringArray(raw, 'parentIds', path, issues);
+    const tags = readStringArray(raw, 'tags', path, issues);
+    const quotes = readStringArray(raw, 'quotes', path, issues);
+
+    let importance = 3;
+    if (raw.importance !== undefined) {
+      if (typeof raw.importance !== 'number' || !Number.isInteger(raw.importance) || raw.importance < 1 || raw.importance > 5) {
+        issues.push({ path: `${path}.importance`, message: 'must be an integer from 1 to 5' });
+      } else {
+        importance = raw.importance;
+      }
+    }
+
+    if (id) {
+      if (seenIds.has(id)) {
+        issues.push({ path: `${path}.id`, message: `duplicate id "${id}"` });
+      }
+      seenIds.add(id);
+    }
+    nodes.push({ id, title, summary, parentIds, importance, tags, quotes });
+  });
+
+  nodes.forEach((node, index) => {
+    (node.parentIds ?? []).forEach((parentId, parentIndex) => {
+      const path = `$.nodes[${index}].parentIds[${parentIndex}]`;
+      if (parentId === node.id) {
+        issues.push({ path, message: 'a node cannot be its own parent' });
+      } else if (!seenIds.has(parentId)) {
+        issues.push({ path, message: `references unknown node "${parentId}"` });
+      }
+    });
+  });
+
+  const edges: AiMindMapEdge[] = [];
+  (Array.isArray(value.edges) ? value.edges : []).forEach((raw, index) => {
+    const path = `$.edges[${index}]`;
+    if (!isRecord(raw)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    const source = readString(raw, 'source', path, issues);
+    const target = readString(raw, 'target', path, issues);
+    const label = readString(raw, 'label', path, issues, { required: false, nonEmpty: false });
+    if (source && !seenIds.has(source)) {
+      issues.push({ path: `${path}.source`, message: `references unknown node "${source}"` });
+    }
+    if (target && !seenIds.has(target)) {
+      issues.push({ path: `${path}.target`, message: `references unknown node "${target}"` });
+    }
+    edges.push({ source, target, ...(label ? { label } : {}) });
+  });
+
+  findParentCycles(nodes).forEach((cycle) => {
+    issues.push({ path: '$.nodes', message: `cycle in parentIds: ${cycle.join(' -> ')}` });
+  });
+
+  if (!nodes.some((node) => (node.parentIds ?? []).length === 0)) {
+    issues.push({ path: '$.nodes', message: 'no root node (a node with empty parentIds)' });
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: { sourceSummary, nodes, edges } };
+};
+
+export type AiMindMapExpansion = Omit<AiMindMapGraph, 'sourceSummary'>;
+
+/**
+ * Checks an expansion of one node: the same rules as a generated graph,
+ * where the roots are the new nodes that hang directly under the expanded
+ * node.
+ */
+export const validateExpansion: Validator<AiMindMapExpansion> = (value) => {
+  const result = validateMindMapGraph(isRecord(value) ? { ...value, sourceSummary: '' } : value);
+  if (!result.ok) return result;
+  return { ok: true, value: { nodes: result.value.nodes, edges: result.value.edges } };
+};
+
+export type AiCorrectionRationale = {
+  claim: string;
+  /** 1-based index into the citations given in the prompt, or null when no citation applies. */
+  citation: number | null;
+  explanation: string;
+};
+
+export type AiAutoCorrection = {
+  summary: string;
+  tags?: string[];
+  rationale: AiCorrectionRationale[];
+};
+
+/**
+ * Validates an autocorrect reply. Each rationale entry must point at one of
+ * the `citationCount` citations that were offered in the prompt (or null).
+ */
+export function autoCorrectionValidator(citationCount: number): Validator<AiAutoCorrection> {
+  return (value) => {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(value)) {
+      return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+    }
+    const summary = readString(value, 'summary', '$', issues);
+    const tags = readStringArray(value, 'tags', '$', issues);
+
+    const rationale: AiCorrectionRationale[] = [];
+    if (value.rationale !== undefined && !Array.isArray(value.rationale)) {
+      issues.push({ path: '$.rationale', message: 'must be an array' });
+    }
+    (Array.isArray(value.rationale) ? value.rationale : []).forEach((raw, index) => {
+      const path = `$.rationale[${index}]`;
+      if (!isRecord(raw)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      const claim = readString(raw, 'claim', path, issues);
+      const explanation = readString(raw, 'explanation', path, issues, { nonEmpty: false });
+      let citation: number | null = null;
+      if (raw.citation !== null && raw.citation !== undefined) {
+        if (
+          typeof raw.citation !== 'number' ||
+          !Number.isInteger(raw.citation) ||
+          raw.citation < 1 ||
+          raw.citation > citationCount
+        ) {
+          issues.push({
+            path: `${path}.citation`,
+            message:
+              citationCount > 0 ? `must be null or a citation number from 1 to ${citationCount}` : 'must be null (no citations were given)',
+          });
+        } else {
+          citation = raw.citation;
+        }
+      }
+      rationale.push({ claim, citation, explanation });
+    });
+
+    if (issues.length > 0) {
+      return { ok: false, issues };
+    }
+    return { ok: true, value: { summary, ...(value.tags !== undefined ? { tags } : {}), rationale } };
+  };
+}
+
+export type AiClaimCheck = {
+  claim: string;
+  verdict: ClaimVerdict;
+  /** 1-based index into the citations given in the prompt; null only for `not-found`. */
+  citation: number | null;
+  evidence: string | null;
+};
+
+/**
+ * Validates a claim-check reply: every claim needs a known verdict, and a
+ * `supported` or `contradicted` verdict must name one of the `citationCount`
+ * citations offered in the prompt.
+ */
+export function claimCheckValidator(citationCount: number): Validator<AiClaimCheck[]> {
+  return (value) => {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(value)) {
+      return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+    }
+    if (!Array.isArray(value.claims)) {
+      return { ok: false, issues: [{ path: '$.claims', message: 'must be an array' }] };
+    }
+
+    const claims: AiClaimCheck[] = [];
+    value.claims.forEach((raw, index) => {
+      const path = `$.claims[${index}]`;
+      if (!isRecord(raw)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      const claim = readString(raw, 'claim', path, issues);
+      const verdict = raw.verdict as ClaimVerdict;
+      if (!CLAIM_VERDICTS.includes(verdict)) {
+        issues.push({ path: `${path}.verdict`, message: `must be one of: ${CLAIM_VERDICTS.join(', ')}` });
+      }
+
+      let citation: number | null = null;
+      if (raw.citation !== null && raw.citation !== undefined) {
+        if (
+          typeof raw.citation !== 'number' ||
+          !Number.isInteger(raw.citation) ||
+          raw.citation < 1 ||
+          raw.citation > citationCount
+        ) {
+          issues.push({ path: `${path}.citation`, message: `must be null or a citation number from 1 to ${citationCount}` });
+        } else {
+          citation = raw.citation;
+        }
+      } else if (verdict === 'supported' || verdict === 'contradicted') {
+        issues.push({ path: `${path}.citation`, message: `is required when the verdict is "${verdict}"` });
+      }
+
+      const evidence = typeof raw.evidence === 'string' && raw.evidence.trim() ? raw.evidence.trim() : null;
+      claims.push({ claim, verdict, citation, evidence });
+    });
+
+    if (issues.length > 0) {
+      return { ok: false, issues };
+    }
+    return { ok: true, value: claims };
+  };
+}
+
+export type AiQuizQuestion = {
+  kind: QuizQuestionKind;
+  /** 1-based index into the nodes listed in the prompt. */
+  node: number;
+  vignette: string | null;
+  question: string;
+  options: string[];
+  /** 0-based index into `options`. */
+  answer: number;
+  explanation: string;
+  /** 1-based index into the tested node's citations, or null. */
+  citation: number | null;
+};
+
+const QUIZ_QUESTION_KINDS: QuizQuestionKind[] = ['mcq', 'vignette'];
+
+/**
+ * Validates a quiz reply against the prompt it answers: each question must
+ * test one of the listed nodes, cite only that node's citations
+ * (`citationCounts[node - 1]` of them), offer 3–6 distinct options and mark
+ * one of them correct. Vignettes need their clinical case.
+ */
+export function quizValidator(citationCounts: number[]): Validator<AiQuizQuestion[]> {
+  return (value) => {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(value)) {
+      return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+    }
+    if (!Array.isArray(value.questions) || value.questions.length === 0) {
+      return { ok: false, issues: [{ path: '$.questions', message: 'must be a non-empty array' }] };
+    }
+
+    const questions: AiQuizQuestion[] = [];
+    value.questions.forEach((raw, index) => {
+      const path = `$.questions[${index}]`;
+      if (!isRecord(raw)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      const kind = raw.kind as QuizQuestionKind;
+      if (!QUIZ_QUESTION_KINDS.includes(kind)) {
+        issues.push({ path: `${path}.kind`, message: `must be one of: ${QUIZ_QUESTION_KINDS.join(', ')}` });
+      }
+      const node = raw.node;
+      const nodeKnown = typeof node === 'number' && Number.isInteger(node) && node >= 1 && node <= citationCounts.length;
+      if (!nodeKnown) {
+        issues.push({ path: `${path}.node`, message: `must be a node number from 1 to ${citationCounts.length}` });
+      }
+      const vignette = kind === 'vignette' ? readString(raw, 'vignette', path, issues) : null;
+      const question = readString(raw, 'question', path, issues);
+      const explanation = readString(raw, 'explanation', path, issues);
+
+      const options = readStringArray(raw, 'options', path, issues);
+      if (options.length < 3 || options.length > 6) {
+        issues.push({ path: `${path}.options`, message: 'must have 3 to 6 options' });
+      } else if (new Set(options.map((option) => option.trim().toLowerCase())).size !== options.length) {
+        issues.push({ path: `${path}.options`, message: 'must not repeat an option' });
+      }
+      if (typeof raw.answer !== 'number' || !Number.isInteger(raw.answer) || raw.answer < 0 || raw.answer >= options.length) {
+        issues.push({ path: `${path}.answer`, message: 'must be the 0-based index of one of the options' });
+      }
+
+      let citation: number | null = null;
+      if (raw.citation !== null && raw.citation !== undefined && nodeKnown) {
+        const count = citationCounts[(node as number) - 1];
+        if (typeof raw.citation !== 'number' || !Number.isInteger(raw.citation) || raw.citation < 1 || raw.citation > count) {
+          issues.push({
+            path: `${path}.citation`,
+            message: count > 0 ? `must be null or a citation number from 1 to ${count}` : 'must be null (the node has no citations)',
+          });
+        } else {
+          citation = raw.citation;
+        }
+      }
+
+      questions.push({
+        kind,
+        node: node as number,
+        vignette,
+        question,
+        options,
+        answer: raw.answer as number,
+        explanation,
+        citation,
+      });
+    });
+
+    if (issues.length > 0) {
+      return { ok: false, issues };
+    }
+    return { ok: true, value: questions };
+  };
+}
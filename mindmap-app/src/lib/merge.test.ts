@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { conceptKey, mergeSubMaps } from './merge';
+import type { AiMindMapGraph } from './types';
+
+const cardiologyChunk1: AiMindMapGraph = {
+  sourceSummary: 'Heart failure basics.',
+  nodes: [
+    { id: 'hf', title: 'Heart failure', summary: 'Inadequate cardiac output.', importance: 5, tags: ['core'] },
+    { id: 'bb', title: 'The Beta-blockers', summary: 'Reduce mortality.', parentIds: ['hf'], tags: ['drug'] },
+  ],
+  edges: [],
+};
+
+const cardiologyChunk2: AiMindMapGraph = {
+  sourceSummary: 'Heart failure therapy.',
+  nodes: [
+    { id: 'hf', title: 'heart failure', summary: 'Short.', importance: 3, tags: ['cardio'] },
+    { id: 'ab', title: 'α-blockers', summary: 'Not first line in heart failure.', parentIds: ['hf'] },
+    { id: 'bb2', title: 'β-blockers', summary: 'Carvedilol, bisoprolol, metoprolol succinate.', parentIds: ['hf'] },
+  ],
+  edges: [],
+};
+
+const russianChunk1: AiMindMapGraph = {
+  sourceSummary: 'Сердечная недостаточность.',
+  nodes: [
+    { id: 'n1', title: 'Сердечная недостаточность', summary: 'Снижение сердечного выброса.' },
+    { id: 'n2', title: 'Одышка', summary: 'Основной симптом.', parentIds: ['n1'] },
+  ],
+  edges: [],
+};
+
+const russianChunk2: AiMindMapGraph = {
+  sourceSummary: 'Лечение.',
+  nodes: [
+    { id: 'n1', title: 'Лечение', summary: 'Диуретики и ингибиторы АПФ.' },
+    { id: 'n2', title: 'Диуретики', summary: 'Уменьшают отёки.', parentIds: ['n1'] },
+    { id: 'n3', title: 'сердечная недостаточность', summary: 'Повтор.', parentIds: [] },
+  ],
+  edges: [],
+};
+
+describe('conceptKey', () => {
+  it('ignores case, punctuation, Latin diacritics and leading articles', () => {
+    assert.equal(conceptKey('The  Café-Au-Lait spots!'), 'cafe au lait spots');
+  });
+
+  it('keeps letters of non-Latin scripts', () => {
+    assert.equal(conceptKey('Сердечная недостаточность'), 'сердечная недостаточность');
+    assert.equal(conceptKey('心力衰竭'), '心力衰竭');
+  });
+
+  it('keeps Greek letters apart', () => {
+    assert.notEqual(conceptKey('α-blockers'), conceptKey('β-blockers'));
+  });
+
+  it('keys titles without letters or digits to an empty string', () => {
+    assert.equal(conceptKey('—?!'), '');
+  });
+});
+
+describe('mergeSubMaps', () => {
+  it('merges the same concept across chunks and unions its fields', () => {
+    const merged = mergeSubMaps([cardiologyChunk1, cardiologyChunk2]);
+    const heartFailure = merged.nodes.filter((node) => conceptKey(node.title) === 'heart failure');
+    assert.equal(heartFailure.length, 1);
+    assert.equal(heartFailure[0].importance, 5);
+    assert.deepEqual(heartFailure[0].tags, ['core', 'cardio']);
+    assert.equal(heartFailure[0].summary, 'Inadequate cardiac output.');
+  });
+
+  it('keeps α- and β-blockers as separate nodes', () => {
+    const merged = mergeSubMaps([cardiologyChunk1, cardiologyChunk2]);
+    const titles = merged.nodes.map((node) => node.title);
+    assert.ok(titles.includes('α-blockers'));
+    assert.ok(titles.includes('β-blockers'));
+    assert.ok(titles.includes('The Beta-blockers'));
+    assert.equal(merged.nodes.length, 4);
+  });
+
+  it('merges Cyrillic chunks by concept instead of collapsing them', () => {
+    const merged = mergeSubMaps([russianChunk1, russianChunk2], 'Обзор');
+    assert.deepEqual(
+      merged.nodes.map((node) => node.title),
+      ['Обзор', 'Сердечная недостаточность', 'Одышка', 'Лечение', 'Диуретики'],
+    );
+    const treatment = merged.nodes.find((node) => node.title === 'Лечение');
+    const diuretics = merged.nodes.find((node) => node.title === 'Диуретики');
+    assert.deepEqual(diuretics?.parentIds, [treatment?.id]);
+  });
+
+  it('never merges nodes whose titles key to an empty string', () => {
+    const merged = mergeSubMaps([
+      { sourceSummary: '', nodes: [{ id: 'a', title: '???', summary: 'First.' }], edges: [] },
+      { sourceSummary: '', nodes: [{ id: 'a', title: '!!!', summary: 'Second.' }], edges: [] },
+    ]);
+    assert.deepEqual(
+      merged.nodes.filter((node) => node.id !== 'overview').map((node) => node.summary),
+      ['First.', 'Second.'],
+    );
+  });
+
+  it('suffixes clashing IDs until they are free', () => {
+    const merged = mergeSubMaps([
+      {
+        sourceSummary: '',
+        nodes: [
+          { id: 'overview', title: 'Heart failure' },
+          { id: 'n1', title: 'Diuretics' },
+          { id: 'n1-2', title: 'Loop diuretics', parentIds: ['n1'] },
+        ].map(withSummary),
+        edges: [],
+      },
+      { sourceSummary: '', nodes: [{ id: 'n1', title: 'Beta-blockers', parentIds: [] }].map(withSummary), edges: [] },
+    ]);
+    const ids = merged.nodes.map((node) => node.id);
+    assert.equal(new Set(ids).size, ids.length);
+    assert.equal(merged.nodes.find((node) => node.title === 'Beta-blockers')?.id, 'n1-3');
+    assert.equal(merged.nodes.find((node) => node.title === 'Loop diuretics')?.parentIds?.[0], 'n1');
+    assert.equal(merged.nodes[0].id, 'overview-2');
+  });
+
+  it('drops parent links that would close a cycle', () => {
+    const merged = mergeSubMaps([
+      { sourceSummary: '', nodes: [{ id: 'a', title: 'A' }, { id: 'b', title: 'B', parentIds: ['a'] }].map(withSummary), edges: [] },
+      { sourceSummary: '', nodes: [{ id: 'b', title: 'B' }, { id: 'a', title: 'A', parentIds: ['b'] }].map(withSummary), edges: [] },
+    ]);
+    assert.deepEqual(merged.nodes.find((node) => node.id === 'a')?.parentIds, []);
+    assert.deepEqual(merged.nodes.find((node) => node.id === 'b')?.parentIds, ['a']);
+  });
+});
+
+function withSummary<T extends { id: string; title: string }>(node: T) {
+  return { ...node, summary: '' };
+}
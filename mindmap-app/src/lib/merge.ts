@@ -0,0 +1,169 @@
+import type { AiMindMapEdge, AiMindMapGraph, AiMindMapNode } from './types';
+
+export const MERGED_ROOT_ID = 'overview';
+
+const LEADING_ARTICLES = /^(the|a|an)\s+/;
+
+/**
+ * Key used to decide whether two nodes from different chunks describe the
+ * same concept: case, punctuation, Latin diacritics and leading articles are
+ * ignored. Letters of any script are kept, so `α-blockers` and `β-blockers`
+ * stay apart. A title with no letters or digits keys to `''`, which callers
+ * must never merge on.
+ */
+export function conceptKey(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, ' ')
+    .trim()
+    .replace(LEADING_ARTICLES, '');
+}
+
+function uniqueStrings(values: string[]): string[] {
+  return values.filter((value, index, arr) => arr.indexOf(value) === index);
+}
+
+/**
+ * Returns true when `ancestorId` is reachable from `nodeId` by following
+ * accepted parent links, i.e. adding `nodeId` as a parent of `ancestorId`
+ * would close a cycle.
+ */
+function isAncestor(parents: Map<string, string[]>, nodeId: string, ancestorId: string): boolean {
+  const stack = [nodeId];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (current === ancestorId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(parents.get(current) ?? []));
+  }
+  return false;
+}
+
+/**
+ * Deterministically merges per-chunk sub-maps into a single graph.
+ *
+ * Nodes whose titles share a {@link conceptKey} collapse into the first
+ * occurrence: tags, quotes and parents are unioned, importance takes the maximum and
+ * the longer summary wins. IDs that collide across unrelated concepts are
+ * suffixed with the chunk number, counting up while that ID is taken too.
+ * Parent links that would introduce a cycle are dropped in input order, and
+ * when more than one root remains they are grouped under a synthetic
+ * overview node titled `rootTitle`.
+ */
+export function mergeSubMaps(subMaps: AiMindMapGraph[], rootTitle = 'Overview'): AiMindMapGraph {
+  if (subMaps.length === 1) {
+    return subMaps[0];
+  }
+
+  const mergedNodes: AiMindMapNode[] = [];
+  const nodeByKey = new Map<string, AiMindMapNode>();
+  const usedIds = new Set<string>();
+  const rawEdges: AiMindMapEdge[] = [];
+  const parentLinks: Array<{ childId: string; parentId: string }> = [];
+
+  subMaps.forEach((subMap, chunkIndex) => {
+    const idMap = new Map<string, string>();
+    const targets: AiMindMapNode[] = [];
+
+    subMap.nodes.forEach((node) => {
+      const key = conceptKey(node.title);
+      const existing = key ? nodeByKey.get(key) : undefined;
+      if (existing) {
+        idMap.set(node.id, existing.id);
+        targets.push(existing);
+        return;
+      }
+      // A clashing ID gets the chunk's number, counting up while that is taken too.
+      let id = node.id;
+      for (let suffix = chunkIndex + 1; usedIds.has(id); suffix += 1) {
+        id = `${node.id}-${suffix}`;
+      }
+      usedIds.add(id);
+      idMap.set(node.id, id);
+      const merged: AiMindMapNode = {
+        ...node,
+        id,
+        parentIds: [],
+        tags: [...(node.tags ?? [])],
+        quotes: [...(node.quotes ?? [])],
+      };
+      if (key) nodeByKey.set(key, merged);
+      targets.push(merged);
+      mergedNodes.push(merged);
+    });
+
+    subMap.nodes.forEach((node, index) => {
+      const target = targets[index];
+      const remappedParents = (node.parentIds ?? [])
+        .map((parentId) => idMap.get(parentId))
+        .filter((parentId): parentId is string => Boolean(parentId) && parentId !== target.id);
+
+      remappedParents.forEach((parentId) => parentLinks.push({ childId: target.id, parentId }));
+      target.tags = uniqueStrings([...(target.tags ?? []), ...(node.tags ?? [])]);
+      target.quotes = uniqueStrings([...(target.quotes ?? []), ...(node.quotes ?? [])]);
+      target.importance = Math.max(target.importance ?? 0, node.importance ?? 0) || undefined;
+      if (node.summary.length > target.summary.length) {
+        target.summary = node.summary;
+      }
+    });
+
+    subMap.edges.forEach((edge) => {
+      const source = idMap.get(edge.source);
+      const target = idMap.get(edge.target);
+      if (source && target && source !== target) {
+        rawEdges.push({ ...edge, source, target });
+      }
+    });
+  });
+
+  const acceptedParents = new Map<string, string[]>(mergedNodes.map((node) => [node.id, []]));
+  parentLinks.forEach(({ childId, parentId }) => {
+    const accepted = acceptedParents.get(childId) as string[];
+    if (!accepted.includes(parentId) && !isAncestor(acceptedParents, parentId, childId)) {
+      accepted.push(parentId);
+    }
+  });
+  mergedNodes.forEach((node) => {
+    node.parentIds = acceptedParents.get(node.id);
+  });
+
+  const roots = mergedNodes.filter((node) => (node.parentIds ?? []).length === 0);
+  if (roots.length > 1) {
+    let rootId = MERGED_ROOT_ID;
+    for (let suffix = 2; usedIds.has(rootId); suffix += 1) {
+      rootId = `${MERGED_ROOT_ID}-${suffix}`;
+    }
+    roots.forEach((root) => {
+      root.parentIds = [rootId];
+    });
+    mergedNodes.unshift({
+      id: rootId,
+      title: rootTitle,
+      summary: subMaps.map((subMap) => subMap.sourceSummary).find(Boolean) ?? '',
+      parentIds: [],
+      importance: 5,
+      tags: [],
+    });
+  }
+
+  const edgeKeys = new Set<string>();
+  const edges = rawEdges.filter((edge) => {
+    const key = `${edge.source}|${edge.target}|${edge.label ?? ''}`;
+    if (edgeKeys.has(key)) return false;
+    edgeKeys.add(key);
+    return true;
+  });
+
+  return {
+    sourceSummary: subMaps
+      .map((subMap) => subMap.sourceSummary?.trim())
+      .filter(Boolean)
+      .join(' '),
+    nodes: mergedNodes,
+    edges,
+  };
+}
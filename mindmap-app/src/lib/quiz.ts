@@ -0,0 +1,80 @@
+import { completeStructured, quizValidator, type LlmProvider } from './llm';
+import type { QuizQuestion, QuizRequest } from './types';
+
+/** Nodes of a branch sent to the model; deeper nodes beyond this are left out. */
+export const QUIZ_MAX_NODES = 40;
+const MAX_MCQS = 10;
+const MAX_VIGNETTES = 3;
+
+/**
+ * Writes multiple-choice questions and short clinical vignettes for a branch
+ * of the map. Questions may only test what the node summaries and their
+ * citation excerpts say, and each names the node it tests so scores can be
+ * traced back to the map.
+ */
+export async function generateQuiz(request: QuizRequest, llm: LlmProvider): Promise<QuizQuestion[]> {
+  const nodes = request.nodes.slice(0, QUIZ_MAX_NODES);
+  const mcqCount = Math.min(MAX_MCQS, Math.max(3, nodes.length));
+  const vignetteCount = Math.min(MAX_VIGNETTES, Math.ceil(nodes.length / 3));
+
+  const nodesText = nodes
+    .map((node, index) => {
+      const citations = node.citations
+        .map((citation, citationIndex) => `   [${citationIndex + 1}] ${citation.title} (${citation.source}): ${citation.snippet ?? 'N/A'}`)
+        .join('\n');
+      return `${index + 1}. ${node.title}\n   Summary: ${node.summary || 'N/A'}${citations ? `\n   Citations:\n${citations}` : ''}`;
+    })
+    .join('\n\n');
+
+  const prompt = `You are writing a self-test for a medical student revising one branch of their mind map. Node 1 is the branch's root; the rest sit below it.
+
+Nodes:
+${nodesText}
+
+Write about ${mcqCount} multiple-choice questions and ${vignetteCount} short clinical vignettes. Spread them across the nodes, favouring the ones with the most testable detail.
+
+Rules:
+- Test only facts stated in a node's summary or its citation excerpts. Do not test anything the material doesn't state.
+- Each question tests exactly one node; give that node's number.
+- A vignette is a 2–4 sentence patient case (age, presentation, key findings) followed by a question about diagnosis, investigation or management.
+- Give 4 or 5 options with exactly one correct answer; distractors must be plausible and drawn from the same topic.
+- "answer" is the 0-based index of the correct option. Vary its position between questions.
+- The explanation (<= 50 words) says why the answer is right and the main distractor wrong, in terms of the tested node.
+- "citation" is the number of the tested node's citation that supports the answer, or null.
+
+Respond with JSON:
+{
+  "questions": Array<{
+    "kind": "mcq" | "vignette",
+    "node": number,
+    "vignette": string | null,
+    "question": string,
+    "options": string[],
+    "answer": number,
+    "explanation": string,
+    "citation": number | null
+  }>
+}`;
+
+  const parsed = await completeStructured(
+    llm,
+    { feature: 'quiz', input: prompt, metadata: { root: nodes[0]?.id ?? '' } },
+    quizValidator(nodes.map((node) => node.citations.length)),
+  );
+
+  return parsed.map((question, index) => {
+    const node = nodes[question.node - 1];
+    const citation = question.citation !== null ? node.citations[question.citation - 1] : undefined;
+    return {
+      id: `question-${index + 1}`,
+      kind: question.kind,
+      nodeId: node.id,
+      ...(question.vignette ? { vignette: question.vignette } : {}),
+      question: question.question,
+      options: question.options,
+      answerIndex: question.answer,
+      explanation: question.explanation,
+      ...(citation ? { citation } : {}),
+    };
+  });
+}
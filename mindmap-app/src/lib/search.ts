@@ -0,0 +1,79 @@
+import { nodeVerificationStatus } from './claims';
+import { ancestorIds, descendantIds } from './graph';
+import type { MindMapNode, MindMapPayload, VerificationStatus } from './types';
+
+/** Tags the generation prompt asks for; always offered as filters even when the map has none of them yet. */
+export const STANDARD_TAGS = ['symptom', 'diagnostic', 'treatment', 'risk-factor'];
+
+export type SearchField = 'title' | 'tag' | 'summary' | 'citation';
+
+export type SearchMatch = {
+  nodeId: string;
+  /** Best field the query was found in. */
+  field: SearchField;
+};
+
+/** Ranked by where the query matched: titles first, then tags, summaries and citation titles. */
+const FIELD_RANK: Record<SearchField, number> = { title: 0, tag: 1, summary: 2, citation: 3 };
+
+function matchField(node: MindMapNode, needle: string): SearchField | null {
+  if (node.title.toLowerCase().includes(needle)) return 'title';
+  if (node.tags.some((tag) => tag.toLowerCase().includes(needle))) return 'tag';
+  if (node.summary.toLowerCase().includes(needle)) return 'summary';
+  if (node.citations.some((citation) => citation.title.toLowerCase().includes(needle))) return 'citation';
+  return null;
+}
+
+/**
+ * Case-insensitive substring search over titles, tags, summaries and
+ * citation titles. Every word of the query must match the same node;
+ * results keep map order within each field rank.
+ */
+export function searchNodes(nodes: MindMapNode[], query: string): SearchMatch[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const matches: SearchMatch[] = [];
+  nodes.forEach((node) => {
+    const fields = words.map((word) => matchField(node, word));
+    if (fields.some((field) => field === null)) return;
+    const field = (fields as SearchField[]).reduce((best, current) =>
+      FIELD_RANK[current] < FIELD_RANK[best] ? current : best,
+    );
+    matches.push({ nodeId: node.id, field });
+  });
+  return matches.sort((a, b) => FIELD_RANK[a.field] - FIELD_RANK[b.field]);
+}
+
+export type NodeFilter = {
+  /** A node must carry at least one of these tags; empty means any. */
+  tags: string[];
+  minImportance: number;
+  /** Empty means any status. */
+  statuses: VerificationStatus[];
+};
+
+export const EMPTY_FILTER: NodeFilter = { tags: [], minImportance: 1, statuses: [] };
+
+export function isFilterActive(filter: NodeFilter): boolean {
+  return filter.tags.length > 0 || filter.minImportance > 1 || filter.statuses.length > 0;
+}
+
+export function matchesFilter(node: MindMapNode, filter: NodeFilter): boolean {
+  if (node.importance < filter.minImportance) return false;
+  if (filter.tags.length > 0 && !node.tags.some((tag) => filter.tags.includes(tag.toLowerCase()))) return false;
+  if (filter.statuses.length > 0 && !filter.statuses.includes(nodeVerificationStatus(node))) return false;
+  return true;
+}
+
+/** The standard tags followed by any other tag used in the map, lower-cased and alphabetical. */
+export function filterableTags(nodes: MindMapNode[]): string[] {
+  const others = new Set(nodes.flatMap((node) => node.tags.map((tag) => tag.toLowerCase())));
+  STANDARD_TAGS.forEach((tag) => others.delete(tag));
+  return [...STANDARD_TAGS, ...[...others].sort()];
+}
+
+/** The node, its ancestors and its descendants: what focus mode keeps at full strength. */
+export function focusNodeIds(payload: MindMapPayload, nodeId: string): Set<string> {
+  return new Set([nodeId, ...ancestorIds(payload, nodeId), ...descendantIds(payload, nodeId)]);
+}
@@ -0,0 +1,43 @@
+/**
+ * Source formats the generator accepts. Shared by the upload input (for its
+ * `accept` list) and the server, which looks the MIME type up in the
+ * extractor registry.
+ */
+export const SOURCE_TYPES: Array<{ mimeType: string; extensions: string[]; label: string }> = [
+  { mimeType: 'application/pdf', extensions: ['pdf'], label: 'PDF' },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['docx'],
+    label: 'Word',
+  },
+  { mimeType: 'text/markdown', extensions: ['md', 'markdown'], label: 'Markdown' },
+  { mimeType: 'text/plain', extensions: ['txt'], label: 'text' },
+  { mimeType: 'text/html', extensions: ['html', 'htm'], label: 'HTML' },
+  { mimeType: 'image/png', extensions: ['png'], label: 'PNG' },
+  { mimeType: 'image/jpeg', extensions: ['jpg', 'jpeg'], label: 'JPEG' },
+];
+
+export const SOURCE_FILE_ACCEPT = SOURCE_TYPES.flatMap((type) => [
+  type.mimeType,
+  ...type.extensions.map((extension) => `.${extension}`),
+]).join(',');
+
+export const SUPPORTED_SOURCES_LABEL = 'PDF, Word (.docx), Markdown, text, HTML or PNG/JPEG images';
+
+/**
+ * Browsers often send an empty or generic MIME type (Markdown in particular),
+ * so a type we don't recognise falls back to the file extension.
+ */
+export function resolveSourceMimeType(mimeType: string, fileName: string): string | null {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  if (SOURCE_TYPES.some((type) => type.mimeType === normalized)) {
+    return normalized;
+  }
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return SOURCE_TYPES.find((type) => extension && type.extensions.includes(extension))?.mimeType ?? null;
+}
+
+/** File name without its extension, used as the map title. */
+export function sourceTitle(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').trim();
+}
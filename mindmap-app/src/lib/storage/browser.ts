@@ -0,0 +1,65 @@
+import type { SavedMindMap } from '../types';
+import { sortSummaries, summarizeMindMap, type MindMapStore } from './types';
+
+const DB_NAME = 'medmind-cartographer';
+const DB_VERSION = 1;
+const STORE_NAME = 'maps';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const result = await promisifyRequest(run(transaction.objectStore(STORE_NAME)));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return result;
+}
+
+export function createBrowserStore(): MindMapStore {
+  return {
+    async list() {
+      const maps = await withStore<SavedMindMap[]>('readonly', (store) => store.getAll());
+      return sortSummaries(maps.map(summarizeMindMap));
+    },
+    async get(id) {
+      const map = await withStore<SavedMindMap | undefined>('readonly', (store) => store.get(id));
+      return map ?? null;
+    },
+    async save(map) {
+      await withStore('readwrite', (store) => store.put(map));
+    },
+    async remove(id) {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+}
@@ -0,0 +1,13 @@
+import { createBrowserStore } from './browser';
+import { createRemoteStore } from './remote';
+import type { MindMapStore } from './types';
+
+export type { MindMapStore } from './types';
+
+/**
+ * Client-side store: IndexedDB by default, or the `/api/maps` file store when
+ * `NEXT_PUBLIC_MAP_STORAGE=server`.
+ */
+export function getMindMapStore(): MindMapStore {
+  return process.env.NEXT_PUBLIC_MAP_STORAGE === 'server' ? createRemoteStore() : createBrowserStore();
+}
@@ -0,0 +1,38 @@
+import type { SavedMindMap, SavedMindMapSummary } from '../types';
+import type { MindMapStore } from './types';
+
+async function readJson<T>(response: Response, fallbackError: string): Promise<T> {
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error ?? fallbackError);
+  }
+  return (await response.json()) as T;
+}
+
+/** Client for the server-side store exposed by `/api/maps`. */
+export function createRemoteStore(baseUrl = '/api/maps'): MindMapStore {
+  return {
+    async list() {
+      const response = await fetch(baseUrl, { cache: 'no-store' });
+      const payload = await readJson<{ maps: SavedMindMapSummary[] }>(response, 'Unable to load saved maps.');
+      return payload.maps;
+    },
+    async get(id) {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(id)}`, { cache: 'no-store' });
+      if (response.status === 404) return null;
+      return readJson<SavedMindMap>(response, 'Unable to open map.');
+    },
+    async save(map) {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(map.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(map),
+      });
+      await readJson<{ ok: true }>(response, 'Unable to save map.');
+    },
+    async remove(id) {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      await readJson<{ ok: true }>(response, 'Unable to delete map.');
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { MindMapNode, SavedMindMap } from '../types';
+import { createFileStore } from './server';
+
+function savedMap(id: string, nodeCount: number): SavedMindMap {
+  const nodes: MindMapNode[] = Array.from({ length: nodeCount }, (_, index) => ({
+    id: `n${index}`,
+    title: `Node ${index}`,
+    summary: 'x'.repeat(200),
+    parentIds: index === 0 ? [] : ['n0'],
+    importance: 3,
+    tags: [],
+    citations: [],
+    verified: false,
+  }));
+  return {
+    id,
+    name: `Map with ${nodeCount} nodes`,
+    createdAt: '2026-01-02T03:04:05.000Z',
+    updatedAt: '2026-01-02T03:04:05.000Z',
+    payload: { generatedAt: '2026-01-02T03:04:05.000Z', sourceSummary: '', nodes, edges: [] },
+  };
+}
+
+describe('file store', () => {
+  let directory = '';
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'mindmap-store-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves, lists, reads and removes maps', async () => {
+    const store = createFileStore(directory);
+    await store.save(savedMap('cardiology', 2));
+    assert.deepEqual(
+      (await store.list()).map((summary) => summary.id),
+      ['cardiology'],
+    );
+    assert.equal((await store.get('cardiology'))?.payload.nodes.length, 2);
+    await store.remove('cardiology');
+    assert.equal(await store.get('cardiology'), null);
+  });
+
+  it('publishes one whole map when the same map is saved concurrently', async () => {
+    const store = createFileStore(directory);
+    const versions = [50, 400, 10, 200, 1].map((count) => savedMap('shared', count));
+    await Promise.all(versions.map((map) => store.save(map)));
+
+    const saved = await store.get('shared');
+    assert.ok(versions.some((map) => JSON.stringify(map) === JSON.stringify(saved)));
+    assert.deepEqual(await readdir(directory), ['shared.json']);
+  });
+
+  it('rejects ids that are not plain slugs', async () => {
+    await assert.rejects(createFileStore(directory).get('../secrets'), /Invalid map id/);
+  });
+});
@@ -0,0 +1,62 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+import type { SavedMindMap } from '../types';
+import { isValidMapId, sortSummaries, summarizeMindMap, type MindMapStore } from './types';
+
+export { isValidMapId };
+
+/** Directory for server-side maps; the `/api/maps` routes are disabled when unset. */
+export function getServerStorageDir(): string | null {
+  return process.env.MAP_STORAGE_DIR?.trim() || null;
+}
+
+/**
+ * Stores each map as `<id>.json`, writing through a temp file so readers never
+ * see partial JSON. Every save gets its own temp file, so concurrent saves of
+ * one map (several tabs autosaving a shared session) each publish a whole file.
+ */
+export function createFileStore(directory: string): MindMapStore {
+  const fileFor = (id: string) => {
+    if (!isValidMapId(id)) {
+      throw new Error(`Invalid map id "${id}"`);
+    }
+    return path.join(directory, `${id}.json`);
+  };
+
+  const readMap = async (filePath: string): Promise<SavedMindMap | null> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8')) as SavedMindMap;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  return {
+    async list() {
+      await mkdir(directory, { recursive: true });
+      const files = (await readdir(directory)).filter((file) => file.endsWith('.json'));
+      const maps = await Promise.all(files.map((file) => readMap(path.join(directory, file))));
+      return sortSummaries(maps.filter((map): map is SavedMindMap => map !== null).map(summarizeMindMap));
+    },
+    async get(id) {
+      return readMap(fileFor(id));
+    },
+    async save(map) {
+      const filePath = fileFor(map.id);
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(tempPath, JSON.stringify(map), 'utf8');
+        await rename(tempPath, filePath);
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+    async remove(id) {
+      await rm(fileFor(id), { force: true });
+    },
+  };
+}
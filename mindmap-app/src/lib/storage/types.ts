@@ -0,0 +1,26 @@
+import type { SavedMindMap, SavedMindMapSummary } from '../types';
+
+export interface MindMapStore {
+  list(): Promise<SavedMindMapSummary[]>;
+  get(id: string): Promise<SavedMindMap | null>;
+  save(map: SavedMindMap): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const MAP_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** Map ids double as file names and collaboration room names, so they are kept to a safe alphabet. */
+export function isValidMapId(id: string): boolean {
+  return MAP_ID_PATTERN.test(id);
+}
+
+export function summarizeMindMap(map: SavedMindMap): SavedMindMapSummary {
+  const { payload, ...meta } = map;
+  delete meta.study;
+  return { ...meta, generatedAt: payload.generatedAt, nodeCount: payload.nodes.length };
+}
+
+/** Most recently updated first. */
+export function sortSummaries(summaries: SavedMindMapSummary[]): SavedMindMapSummary[] {
+  return [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createEventStream, readEventStream } from './stream';
+
+type Event = { step: number };
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('createEventStream', () => {
+  it('streams every event as a JSON line and then closes', async () => {
+    const body = createEventStream<Event>(new Request('http://localhost/'), async (send) => {
+      send({ step: 1 });
+      send({ step: 2 });
+    });
+    const events: Event[] = [];
+    for await (const event of readEventStream<Event>(body)) events.push(event);
+    assert.deepEqual(events, [{ step: 1 }, { step: 2 }]);
+  });
+
+  it('aborts the job when the body is cancelled and drops later events', async () => {
+    const gate = deferred();
+    let signal: AbortSignal | undefined;
+    let finished = false;
+    const body = createEventStream<Event>(new Request('http://localhost/'), async (send, jobSignal) => {
+      signal = jobSignal;
+      send({ step: 1 });
+      await gate.promise;
+      // Would throw on the closed stream if it were still written to.
+      send({ step: 2 });
+      finished = true;
+    });
+
+    const reader = body.getReader();
+    assert.deepEqual(JSON.parse(new TextDecoder().decode((await reader.read()).value)), { step: 1 });
+    await reader.cancel();
+    assert.equal(signal?.aborted, true);
+    gate.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assert.equal(finished, true);
+  });
+
+  it('aborts the job when the request is aborted', async () => {
+    const client = new AbortController();
+    let signal: AbortSignal | undefined;
+    createEventStream<Event>(new Request('http://localhost/', { signal: client.signal }), async (_send, jobSignal) => {
+      signal = jobSignal;
+    });
+    client.abort();
+    assert.equal(signal?.aborted, true);
+  });
+});
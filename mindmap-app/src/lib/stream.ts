@@ -0,0 +1,74 @@
+const encoder = new TextEncoder();
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+export function encodeEvent<T>(event: T): Uint8Array {
+  return encoder.encode(`${JSON.stringify(event)}\n`);
+}
+
+/**
+ * A newline-delimited JSON response body written by `run`. The signal passed
+ * to `run` aborts when the client goes away (the body is cancelled or the
+ * request aborted), so long jobs can stop spending model and lookup quota;
+ * from then on `send` drops events instead of writing to a closed stream.
+ */
+export function createEventStream<T>(
+  request: Request,
+  run: (send: (event: T) => void, signal: AbortSignal) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const onRequestAbort = () => abort.abort(request.signal.reason);
+  request.signal.addEventListener('abort', onRequestAbort, { once: true });
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (!abort.signal.aborted) controller.enqueue(encodeEvent(event));
+      };
+      try {
+        await run(send, abort.signal);
+      } finally {
+        request.signal.removeEventListener('abort', onRequestAbort);
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel(reason) {
+      abort.abort(reason);
+    },
+  });
+}
+
+/**
+ * Yields each JSON line of a newline-delimited response body as it arrives,
+ * buffering partial lines between chunks.
+ */
+export async function* readEventStream<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) {
+          yield JSON.parse(line) as T;
+        }
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) {
+      yield JSON.parse(rest) as T;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
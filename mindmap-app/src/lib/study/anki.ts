@@ -0,0 +1,297 @@
+import { fileBaseName } from '../export';
+import { buildSqliteDatabase } from './sqlite';
+import { buildZip } from './zip';
+import type { Flashcard } from './cards';
+
+export type DeckExportFormat = 'anki-csv' | 'apkg';
+
+export type ExportedDeck = {
+  fileName: string;
+  mimeType: string;
+  content: string | ArrayBuffer;
+};
+
+/** Fixed so every exported deck shares one note type in Anki instead of adding a copy per import. */
+const NOTE_TYPE_ID = 1724307514126;
+const NOTE_TYPE_NAME = 'MedMind Basic';
+const DEFAULT_DECK_ID = 1;
+const FIELD_SEPARATOR = '\x1f';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+}
+
+/** Anki tags can't contain spaces. */
+function ankiTags(card: Flashcard): string[] {
+  return [...new Set(card.tags.map((tag) => tag.trim().replace(/\s+/g, '_')).filter(Boolean))];
+}
+
+/** Stable per deck and card, so re-importing an updated deck updates notes instead of duplicating them. */
+function noteGuid(deckName: string, card: Flashcard): string {
+  return `medmind:${deckName}:${card.id}`;
+}
+
+/** 31-bit FNV-1a hash of the deck name, so re-exports land in the same Anki deck. */
+function deckId(deckName: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < deckName.length; index += 1) {
+    hash ^= deckName.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 1) + 2;
+}
+
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Anki's text import format with the header lines that tell it the
+ * separator, note type, deck and which columns hold tags and GUIDs.
+ */
+export function toAnkiCsv(cards: Flashcard[], deckName: string): string {
+  const header = [
+    '#separator:Comma',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${deckName.replace(/[\r\n]+/g, ' ')}`,
+    '#columns:Front,Back,Tags,GUID',
+    '#tags column:3',
+    '#guid column:4',
+  ];
+  const rows = cards.map((card) =>
+    [escapeHtml(card.front), escapeHtml(card.back), ankiTags(card).join(' '), noteGuid(deckName, card)]
+      .map(csvField)
+      .join(','),
+  );
+  return `${[...header, ...rows].join('\n')}\n`;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Anki's duplicate-check checksum: the first 32 bits of the SHA-1 of the stripped sort field. */
+async function fieldChecksum(field: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(stripHtml(field)));
+  return new DataView(digest).getUint32(0);
+}
+
+const COLLECTION_SCHEMA = {
+  col:
+    'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ' +
+    'ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, ' +
+    'models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes:
+    'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, ' +
+    'usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, ' +
+    'flags integer not null, data text not null)',
+  cards:
+    'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, ' +
+    'mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ' +
+    'ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, ' +
+    'odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog:
+    'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ' +
+    'ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+};
+
+function deckJson(id: number, name: string, modified: number) {
+  return {
+    id,
+    name,
+    mod: modified,
+    usn: -1,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+function collectionJson(deckName: string, targetDeckId: number, modified: number) {
+  const noteType = {
+    id: NOTE_TYPE_ID,
+    name: NOTE_TYPE_NAME,
+    type: 0,
+    mod: modified,
+    usn: -1,
+    sortf: 0,
+    did: targetDeckId,
+    tmpls: [
+      {
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}<hr id=answer>{{Back}}',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n' +
+      '\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+  const deckOptions = {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+  };
+  return {
+    conf: {
+      activeDecks: [DEFAULT_DECK_ID],
+      curDeck: DEFAULT_DECK_ID,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: null,
+      nextPos: 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    },
+    models: { [NOTE_TYPE_ID]: noteType },
+    decks: {
+      [DEFAULT_DECK_ID]: deckJson(DEFAULT_DECK_ID, 'Default', modified),
+      [targetDeckId]: deckJson(targetDeckId, deckName, modified),
+    },
+    dconf: { 1: deckOptions },
+  };
+}
+
+/**
+ * Builds an `.apkg`: a zip holding a legacy (schema 11) Anki collection with
+ * one note and one new card per flashcard, plus an empty media map. Review
+ * history stays in the app; Anki schedules the cards from scratch.
+ */
+export async function buildAnkiPackage(cards: Flashcard[], deckName: string, now = new Date()): Promise<ArrayBuffer> {
+  const nowMs = now.getTime();
+  const nowSeconds = Math.floor(nowMs / 1000);
+  const targetDeckId = deckId(deckName);
+  const collection = collectionJson(deckName, targetDeckId, nowSeconds);
+
+  const notes = await Promise.all(
+    cards.map(async (card, index) => {
+      const front = escapeHtml(card.front);
+      const tags = ankiTags(card);
+      return [
+        nowMs + index,
+        noteGuid(deckName, card),
+        NOTE_TYPE_ID,
+        nowSeconds,
+        -1,
+        tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+        [front, escapeHtml(card.back)].join(FIELD_SEPARATOR),
+        stripHtml(front),
+        await fieldChecksum(front),
+        0,
+        '',
+      ];
+    }),
+  );
+  const cardRows = cards.map((_card, index) => [
+    nowMs + index,
+    nowMs + index,
+    targetDeckId,
+    0,
+    nowSeconds,
+    -1,
+    0, // New card...
+    0, // ...in the new queue,
+    index + 1, // shown in deck order.
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    '',
+  ]);
+
+  const database = buildSqliteDatabase([
+    {
+      name: 'col',
+      sql: COLLECTION_SCHEMA.col,
+      rowidColumn: 0,
+      rows: [
+        [
+          1,
+          Math.floor(new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime() / 1000),
+          nowMs,
+          nowMs,
+          11,
+          0,
+          0,
+          0,
+          JSON.stringify(collection.conf),
+          JSON.stringify(collection.models),
+          JSON.stringify(collection.decks),
+          JSON.stringify(collection.dconf),
+          '{}',
+        ],
+      ],
+    },
+    { name: 'notes', sql: COLLECTION_SCHEMA.notes, rowidColumn: 0, rows: notes },
+    { name: 'cards', sql: COLLECTION_SCHEMA.cards, rowidColumn: 0, rows: cardRows },
+    { name: 'revlog', sql: COLLECTION_SCHEMA.revlog, rowidColumn: 0, rows: [] },
+    { name: 'graves', sql: COLLECTION_SCHEMA.graves, rows: [] },
+  ]);
+
+  const encoder = new TextEncoder();
+  return buildZip(
+    [
+      { name: 'collection.anki2', data: database },
+      { name: 'media', data: encoder.encode('{}') },
+    ],
+    now,
+  );
+}
+
+export async function exportDeck(cards: Flashcard[], deckName: string, format: DeckExportFormat): Promise<ExportedDeck> {
+  const baseName = fileBaseName(deckName);
+  if (format === 'apkg') {
+    return { fileName: `${baseName}.apkg`, mimeType: 'application/apkg', content: await buildAnkiPackage(cards, deckName) };
+  }
+  return { fileName: `${baseName}-anki.csv`, mimeType: 'text/csv', content: toAnkiCsv(cards, deckName) };
+}
@@ -0,0 +1,87 @@
+import type { MindMapPayload } from '../types';
+
+/**
+ * `definition`: title -> summary. `children`: parent -> the concepts under
+ * it. `relationship`: a labelled edge's source and label -> its target.
+ */
+export type FlashcardKind = 'definition' | 'children' | 'relationship';
+
+export type Flashcard = {
+  /** Stable across regenerations of the deck, so schedules survive edits to the card text. */
+  id: string;
+  kind: FlashcardKind;
+  /** Node the card is about; for relationships, the edge's source. */
+  nodeId: string;
+  front: string;
+  back: string;
+  importance: number;
+  tags: string[];
+};
+
+export const FLASHCARD_KIND_LABELS: Record<FlashcardKind, string> = {
+  definition: 'Definition',
+  children: 'Breakdown',
+  relationship: 'Relationship',
+};
+
+/**
+ * Builds the deck for a map. Cards are derived on demand rather than stored,
+ * so they always match the current nodes; a card disappears with its node or
+ * edge, and its schedule is simply no longer used.
+ */
+export function buildFlashcards(payload: MindMapPayload): Flashcard[] {
+  const byId = new Map(payload.nodes.map((node) => [node.id, node]));
+  const children = new Map<string, string[]>();
+  payload.nodes.forEach((node) => {
+    node.parentIds.forEach((parentId) => {
+      if (parentId !== node.id && byId.has(parentId)) {
+        children.set(parentId, [...(children.get(parentId) ?? []), node.title]);
+      }
+    });
+  });
+
+  const cards: Flashcard[] = [];
+  payload.nodes.forEach((node) => {
+    if (node.summary.trim()) {
+      cards.push({
+        id: `definition:${node.id}`,
+        kind: 'definition',
+        nodeId: node.id,
+        front: node.title,
+        back: node.summary,
+        importance: node.importance,
+        tags: node.tags,
+      });
+    }
+    const titles = children.get(node.id) ?? [];
+    if (titles.length > 0) {
+      cards.push({
+        id: `children:${node.id}`,
+        kind: 'children',
+        nodeId: node.id,
+        front: `Name the ${titles.length === 1 ? 'concept' : `${titles.length} concepts`} under “${node.title}”.`,
+        back: titles.join('\n'),
+        importance: node.importance,
+        tags: node.tags,
+      });
+    }
+  });
+
+  payload.edges.forEach((edge) => {
+    const label = edge.label?.trim();
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!label || !source || !target) return;
+    cards.push({
+      id: `relationship:${edge.id}`,
+      kind: 'relationship',
+      nodeId: source.id,
+      front: `${source.title} — ${label} → ?`,
+      back: target.title,
+      importance: Math.max(source.importance, target.importance),
+      tags: [...new Set([...source.tags, ...target.tags])],
+    });
+  });
+
+  return cards;
+}
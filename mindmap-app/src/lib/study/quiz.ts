@@ -0,0 +1,51 @@
+import type { Quiz, QuizAttempt, StudyProgress } from '../types';
+
+/** Only a node's most recent answers count, so a node stops being weak once the user gets it right again. */
+const RECENT_ANSWERS_PER_NODE = 5;
+const WEAK_ACCURACY = 0.6;
+const MAX_QUIZ_ATTEMPTS = 200;
+
+export type NodeQuizPerformance = {
+  correct: number;
+  total: number;
+};
+
+/** Scores a finished quiz; `choices` maps question ids to the chosen option index. */
+export function scoreQuiz(quiz: Quiz, choices: Record<string, number>, now: Date): QuizAttempt {
+  return {
+    rootId: quiz.rootId,
+    completedAt: now.toISOString(),
+    answers: quiz.questions.map((question) => ({
+      questionId: question.id,
+      nodeId: question.nodeId,
+      correct: choices[question.id] === question.answerIndex,
+    })),
+  };
+}
+
+export function recordQuizAttempt(progress: StudyProgress, attempt: QuizAttempt): StudyProgress {
+  return { ...progress, quizAttempts: [...(progress.quizAttempts ?? []), attempt].slice(-MAX_QUIZ_ATTEMPTS) };
+}
+
+/** Each node's share of correct answers over its most recent quiz questions. */
+export function quizPerformance(progress: StudyProgress): Map<string, NodeQuizPerformance> {
+  const recent = new Map<string, boolean[]>();
+  (progress.quizAttempts ?? []).forEach((attempt) => {
+    attempt.answers.forEach((answer) => {
+      recent.set(answer.nodeId, [...(recent.get(answer.nodeId) ?? []), answer.correct].slice(-RECENT_ANSWERS_PER_NODE));
+    });
+  });
+  return new Map(
+    [...recent].map(([nodeId, answers]) => [
+      nodeId,
+      { correct: answers.filter(Boolean).length, total: answers.length },
+    ]),
+  );
+}
+
+/** Nodes answered correctly less than 60% of the time in recent quizzes. */
+export function weakNodeIds(performance: Map<string, NodeQuizPerformance>): Set<string> {
+  return new Set(
+    [...performance].filter(([, { correct, total }]) => correct / total < WEAK_ACCURACY).map(([nodeId]) => nodeId),
+  );
+}
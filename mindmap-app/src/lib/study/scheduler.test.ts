@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { StudyProgress } from '../types';
+import type { Flashcard } from './cards';
+import { EMPTY_STUDY_PROGRESS, buildStudyQueue, recordReview, scheduleReview } from './scheduler';
+
+function card(id: string, importance = 3): Flashcard {
+  return { id, kind: 'definition', nodeId: id, front: id, back: `${id} back`, importance, tags: [] };
+}
+
+const now = new Date('2026-03-10T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('scheduleReview', () => {
+  it('follows SM-2 for a plain card and lapses on a failed review', () => {
+    let schedule = scheduleReview(undefined, 'good', 3, now).schedule;
+    assert.equal(schedule.interval, 1);
+    schedule = scheduleReview(schedule, 'good', 3, now).schedule;
+    assert.equal(schedule.interval, 6);
+    const failed = scheduleReview(schedule, 'again', 3, now);
+    assert.equal(failed.scheduledDays, 0);
+    assert.equal(failed.schedule.lapses, 1);
+    assert.equal(failed.schedule.repetitions, 0);
+  });
+
+  it('brings important cards back sooner without compounding the weight', () => {
+    const first = scheduleReview(undefined, 'good', 5, now).schedule;
+    const second = scheduleReview(first, 'good', 5, now);
+    assert.equal(second.schedule.interval, 6);
+    assert.equal(second.scheduledDays, 4);
+    assert.equal(scheduleReview(first, 'good', 1, now).scheduledDays, 8);
+  });
+});
+
+describe('recordReview', () => {
+  it('updates the schedule and log and keeps quiz attempts', () => {
+    const progress: StudyProgress = {
+      ...EMPTY_STUDY_PROGRESS,
+      quizAttempts: [{ rootId: 'hf', completedAt: now.toISOString(), answers: [{ questionId: 'q1', nodeId: 'hf', correct: true }] }],
+    };
+    const next = recordReview(progress, card('hf'), 'good', now);
+    assert.equal(next.schedules.hf.repetitions, 1);
+    assert.deepEqual(
+      next.log.map((entry) => [entry.cardId, entry.grade, entry.scheduledDays]),
+      [['hf', 'good', 1]],
+    );
+    assert.deepEqual(next.quizAttempts, progress.quizAttempts);
+  });
+});
+
+describe('buildStudyQueue', () => {
+  it('puts due cards first, then new cards by importance within the daily allowance', () => {
+    const cards = [card('a', 2), card('b', 5), card('c', 4), card('d', 1)];
+    const yesterday = new Date(now.getTime() - DAY_MS);
+    const progress = recordReview(EMPTY_STUDY_PROGRESS, cards[3], 'good', yesterday);
+    const queue = buildStudyQueue(cards, progress, now, 2);
+    assert.deepEqual(
+      queue.cards.map((item) => item.id),
+      ['d', 'b', 'c'],
+    );
+    assert.equal(queue.dueCount, 1);
+    assert.equal(queue.newCount, 2);
+    assert.equal(queue.reviewedToday, 0);
+  });
+});
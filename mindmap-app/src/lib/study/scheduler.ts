@@ -0,0 +1,165 @@
+import type { CardSchedule, ReviewGrade, StudyProgress } from '../types';
+import type { Flashcard } from './cards';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+/** A failed card comes back within the same session after this delay. */
+const RELEARN_DELAY_MINUTES = 10;
+/** Cards due this soon still count as due, so relearning cards reappear at the end of a session. */
+const LEARN_AHEAD_MINUTES = 20;
+export const NEW_CARDS_PER_DAY = 20;
+const MAX_LOG_ENTRIES = 5000;
+
+/** SM-2 response quality for each answer button. */
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+export const EMPTY_STUDY_PROGRESS: StudyProgress = { schedules: {}, log: [] };
+
+/**
+ * Multiplier on SM-2 intervals by node importance: importance 3 keeps the
+ * plain schedule, each level above it brings reviews 20% closer and each
+ * level below pushes them 20% further out.
+ */
+export function importanceWeight(importance: number): number {
+  const level = Math.min(5, Math.max(1, Math.round(importance)));
+  return 1 + (3 - level) * 0.2;
+}
+
+/**
+ * Applies one answer with SM-2. The unweighted interval is what grows from
+ * review to review; the importance weighting only decides the due date, so
+ * it never compounds.
+ */
+export function scheduleReview(
+  schedule: CardSchedule | undefined,
+  grade: ReviewGrade,
+  importance: number,
+  now: Date,
+): { schedule: CardSchedule; scheduledDays: number } {
+  const quality = GRADE_QUALITY[grade];
+  const previous = schedule ?? { easiness: INITIAL_EASINESS, interval: 0, repetitions: 0, lapses: 0 };
+  const easiness = Math.max(
+    MIN_EASINESS,
+    previous.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  if (quality < 3) {
+    return {
+      schedule: {
+        easiness,
+        interval: 1,
+        repetitions: 0,
+        lapses: previous.lapses + (previous.repetitions > 0 ? 1 : 0),
+        due: new Date(now.getTime() + RELEARN_DELAY_MINUTES * MINUTE_MS).toISOString(),
+        lastReviewedAt: now.toISOString(),
+      },
+      scheduledDays: 0,
+    };
+  }
+
+  const repetitions = previous.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * easiness);
+  const scheduledDays = Math.max(1, Math.round(interval * importanceWeight(importance)));
+  return {
+    schedule: {
+      easiness,
+      interval,
+      repetitions,
+      lapses: previous.lapses,
+      due: new Date(now.getTime() + scheduledDays * DAY_MS).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    },
+    scheduledDays,
+  };
+}
+
+/** Records an answer: the card's new schedule plus an entry in the review log. */
+export function recordReview(progress: StudyProgress, card: Flashcard, grade: ReviewGrade, now: Date): StudyProgress {
+  const { schedule, scheduledDays } = scheduleReview(progress.schedules[card.id], grade, card.importance, now);
+  const entry = { cardId: card.id, nodeId: card.nodeId, grade, reviewedAt: now.toISOString(), scheduledDays };
+  return {
+    ...progress,
+    schedules: { ...progress.schedules, [card.id]: schedule },
+    log: [...progress.log, entry].slice(-MAX_LOG_ENTRIES),
+  };
+}
+
+function startOfDay(now: Date): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+export type StudyQueue = {
+  /** Cards to show, in order: due reviews, then new cards. */
+  cards: Flashcard[];
+  dueCount: number;
+  newCount: number;
+  reviewedToday: number;
+};
+
+/**
+ * Cards to study now. Due cards come first, most overdue first and the more
+ * important card first on ties; new cards follow, most important first, up
+ * to the day's allowance of new cards.
+ */
+export function buildStudyQueue(
+  cards: Flashcard[],
+  progress: StudyProgress,
+  now: Date,
+  newCardsPerDay = NEW_CARDS_PER_DAY,
+): StudyQueue {
+  const horizon = now.getTime() + LEARN_AHEAD_MINUTES * MINUTE_MS;
+  const due = cards
+    .filter((card) => {
+      const schedule = progress.schedules[card.id];
+      return schedule && Date.parse(schedule.due) <= horizon;
+    })
+    .sort(
+      (a, b) =>
+        Date.parse(progress.schedules[a.id].due) - Date.parse(progress.schedules[b.id].due) ||
+        b.importance - a.importance,
+    );
+
+  const today = startOfDay(now);
+  const todaysEntries = progress.log.filter((entry) => Date.parse(entry.reviewedAt) >= today);
+  const seenBeforeToday = new Set(
+    progress.log.filter((entry) => Date.parse(entry.reviewedAt) < today).map((entry) => entry.cardId),
+  );
+  const introducedToday = new Set(
+    todaysEntries.map((entry) => entry.cardId).filter((cardId) => !seenBeforeToday.has(cardId)),
+  );
+  const fresh = cards
+    .filter((card) => !progress.schedules[card.id])
+    .sort((a, b) => b.importance - a.importance)
+    .slice(0, Math.max(0, newCardsPerDay - introducedToday.size));
+
+  return {
+    cards: [...due, ...fresh],
+    dueCount: due.length,
+    newCount: fresh.length,
+    reviewedToday: todaysEntries.length,
+  };
+}
+
+/** Days until the card would be due again after each answer, for the answer buttons. */
+export function previewIntervals(
+  card: Flashcard,
+  progress: StudyProgress,
+  now: Date,
+): Record<ReviewGrade, number> {
+  const schedule = progress.schedules[card.id];
+  return Object.fromEntries(
+    REVIEW_GRADES.map((grade) => [grade, scheduleReview(schedule, grade, card.importance, now).scheduledDays]),
+  ) as Record<ReviewGrade, number>;
+}
@@ -0,0 +1,270 @@
+/**
+ * Writes a read-only SQLite 3 database file in memory: just enough of the
+ * file format to hold a few rowid tables filled in one go (no indexes, no
+ * free pages), which is all an Anki package needs.
+ */
+
+export type SqlValue = string | number | null;
+
+export type SqliteTable = {
+  name: string;
+  /** The `CREATE TABLE` statement, stored verbatim in `sqlite_master`. */
+  sql: string;
+  rows: SqlValue[][];
+  /**
+   * Column declared `INTEGER PRIMARY KEY`, if any. Its value becomes the
+   * rowid and is stored as NULL in the record, as SQLite does.
+   */
+  rowidColumn?: number;
+};
+
+const PAGE_SIZE = 4096;
+const FILE_HEADER_SIZE = 100;
+const LEAF_HEADER_SIZE = 8;
+const INTERIOR_HEADER_SIZE = 12;
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+/** Largest payload kept entirely on a table leaf page. */
+const MAX_LOCAL = PAGE_SIZE - 35;
+/** Smallest local part of a payload that spills onto overflow pages. */
+const MIN_LOCAL = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+const SQLITE_VERSION_NUMBER = 3040001;
+
+const encoder = new TextEncoder();
+
+/** SQLite varint of a non-negative integer below 2^56, which covers every size and rowid written here. */
+function varint(value: number): number[] {
+  const bytes = [value % 128];
+  let remaining = Math.floor(value / 128);
+  while (remaining > 0) {
+    bytes.unshift((remaining % 128) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  return bytes;
+}
+
+/** Big-endian two's complement integer of `width` bytes. */
+function integerBytes(value: number, width: number): Uint8Array {
+  const bytes = new Uint8Array(width);
+  if (width === 8) {
+    new DataView(bytes.buffer).setBigInt64(0, BigInt(value));
+    return bytes;
+  }
+  let remaining = value < 0 ? value + 2 ** (width * 8) : value;
+  for (let index = width - 1; index >= 0; index -= 1) {
+    bytes[index] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
+
+/** Serial type and body of one column value. */
+function encodeValue(value: SqlValue): { type: number; body: Uint8Array } {
+  if (value === null) return { type: 0, body: new Uint8Array() };
+  if (typeof value === 'string') {
+    const body = encoder.encode(value);
+    return { type: body.length * 2 + 13, body };
+  }
+  if (!Number.isInteger(value)) {
+    const body = new Uint8Array(8);
+    new DataView(body.buffer).setFloat64(0, value);
+    return { type: 7, body };
+  }
+  if (value === 0) return { type: 8, body: new Uint8Array() };
+  if (value === 1) return { type: 9, body: new Uint8Array() };
+  const widths: Array<[type: number, bytes: number]> = [
+    [1, 1],
+    [2, 2],
+    [3, 3],
+    [4, 4],
+    [5, 6],
+    [6, 8],
+  ];
+  const [type, width] =
+    widths.find(([, bytes]) => bytes === 8 || Math.abs(value) < 2 ** (bytes * 8 - 1)) ?? widths[widths.length - 1];
+  return { type, body: integerBytes(value, width) };
+}
+
+function encodeRecord(values: SqlValue[]): Uint8Array {
+  const encoded = values.map(encodeValue);
+  const types = encoded.flatMap(({ type }) => varint(type));
+  // The header size counts its own varint, which is one byte for any realistic column count.
+  let headerSize = types.length + 1;
+  if (varint(headerSize).length > 1) headerSize += varint(headerSize).length - 1;
+  const record = new Uint8Array(headerSize + encoded.reduce((sum, { body }) => sum + body.length, 0));
+  record.set([...varint(headerSize), ...types]);
+  let offset = headerSize;
+  encoded.forEach(({ body }) => {
+    record.set(body, offset);
+    offset += body.length;
+  });
+  return record;
+}
+
+class PageAllocator {
+  readonly pages: Uint8Array[] = [];
+
+  /** Reserves a page and returns its 1-based number. */
+  allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  page(number: number): Uint8Array {
+    return this.pages[number - 1];
+  }
+}
+
+/** Builds a leaf cell, moving whatever doesn't fit onto a chain of overflow pages. */
+function leafCell(rowid: number, payload: Uint8Array, pages: PageAllocator): Uint8Array {
+  const prefix = [...varint(payload.length), ...varint(rowid)];
+  if (payload.length <= MAX_LOCAL) {
+    const cell = new Uint8Array(prefix.length + payload.length);
+    cell.set(prefix);
+    cell.set(payload, prefix.length);
+    return cell;
+  }
+
+  const spill = MIN_LOCAL + ((payload.length - MIN_LOCAL) % (PAGE_SIZE - 4));
+  const local = spill <= MAX_LOCAL ? spill : MIN_LOCAL;
+  const cell = new Uint8Array(prefix.length + local + 4);
+  cell.set(prefix);
+  cell.set(payload.subarray(0, local), prefix.length);
+
+  let offset = local;
+  let previous: { page: Uint8Array; at: number } = { page: cell, at: prefix.length + local };
+  while (offset < payload.length) {
+    const number = pages.allocate();
+    new DataView(previous.page.buffer, previous.page.byteOffset).setUint32(previous.at, number);
+    const page = pages.page(number);
+    const chunk = payload.subarray(offset, offset + PAGE_SIZE - 4);
+    page.set(chunk, 4);
+    offset += chunk.length;
+    previous = { page, at: 0 };
+  }
+  return cell;
+}
+
+/**
+ * Lays cells out on one b-tree page: header, cell pointer array, and the
+ * cells packed against the end of the page. `headerOffset` is 100 on page 1.
+ */
+function writePage(page: Uint8Array, headerOffset: number, type: number, cells: Uint8Array[], rightChild?: number) {
+  const view = new DataView(page.buffer, page.byteOffset);
+  const headerSize = type === INTERIOR_TABLE_PAGE ? INTERIOR_HEADER_SIZE : LEAF_HEADER_SIZE;
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, index) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(headerOffset + headerSize + index * 2, contentStart);
+  });
+  view.setUint8(headerOffset, type);
+  view.setUint16(headerOffset + 3, cells.length);
+  view.setUint16(headerOffset + 5, contentStart);
+  if (rightChild !== undefined) view.setUint32(headerOffset + 8, rightChild);
+}
+
+/** Splits cells into page-sized groups, in order. */
+function packCells(cells: Uint8Array[], headerSize: number, available = PAGE_SIZE): Uint8Array[][] {
+  const groups: Uint8Array[][] = [[]];
+  let used = headerSize;
+  cells.forEach((cell) => {
+    if (used + cell.length + 2 > available && groups[groups.length - 1].length > 0) {
+      groups.push([]);
+      used = headerSize;
+    }
+    groups[groups.length - 1].push(cell);
+    used += cell.length + 2;
+  });
+  return groups;
+}
+
+/** Writes a table b-tree bottom-up and returns its root page number. */
+function writeTable(rows: Array<{ rowid: number; record: Uint8Array }>, pages: PageAllocator): number {
+  const cells = rows.map(({ rowid, record }) => leafCell(rowid, record, pages));
+  let level = packCells(cells, LEAF_HEADER_SIZE).map((group, index, groups) => {
+    const number = pages.allocate();
+    writePage(pages.page(number), 0, LEAF_TABLE_PAGE, group);
+    const lastRow = groups.slice(0, index + 1).reduce((count, previous) => count + previous.length, 0) - 1;
+    return { number, maxRowid: rows[lastRow]?.rowid ?? 0 };
+  });
+
+  while (level.length > 1) {
+    const children = level;
+    // Every child but the last becomes a (left child, max rowid) cell; the last is the right pointer.
+    const groups: Array<typeof children> = [];
+    let current: typeof children = [];
+    let used = INTERIOR_HEADER_SIZE;
+    children.forEach((child) => {
+      const size = 4 + varint(child.maxRowid).length + 2;
+      if (used + size > PAGE_SIZE && current.length > 1) {
+        groups.push(current);
+        current = [];
+        used = INTERIOR_HEADER_SIZE;
+      }
+      current.push(child);
+      used += size;
+    });
+    groups.push(current);
+
+    level = groups.map((group) => {
+      const number = pages.allocate();
+      const interiorCells = group.slice(0, -1).map((child) => {
+        const key = varint(child.maxRowid);
+        const cell = new Uint8Array(4 + key.length);
+        new DataView(cell.buffer).setUint32(0, child.number);
+        cell.set(key, 4);
+        return cell;
+      });
+      const last = group[group.length - 1];
+      writePage(pages.page(number), 0, INTERIOR_TABLE_PAGE, interiorCells, last.number);
+      return { number, maxRowid: last.maxRowid };
+    });
+  }
+  return level[0].number;
+}
+
+/** Builds the database file holding `tables`. */
+export function buildSqliteDatabase(tables: SqliteTable[]): Uint8Array {
+  const pages = new PageAllocator();
+  pages.allocate(); // Page 1: file header and the sqlite_master root.
+
+  const schemaRows = tables.map((table, index) => {
+    const rows = table.rows.map((values, rowIndex) => {
+      const column = table.rowidColumn;
+      if (column === undefined) return { rowid: rowIndex + 1, record: encodeRecord(values) };
+      const rowid = Number(values[column]);
+      return { rowid, record: encodeRecord(values.map((value, at) => (at === column ? null : value))) };
+    });
+    rows.sort((a, b) => a.rowid - b.rowid);
+    const rootPage = writeTable(rows, pages);
+    return { rowid: index + 1, record: encodeRecord(['table', table.name, table.name, rootPage, table.sql]) };
+  });
+
+  const schemaCells = schemaRows.map(({ rowid, record }) => leafCell(rowid, record, pages));
+  if (packCells(schemaCells, LEAF_HEADER_SIZE, PAGE_SIZE - FILE_HEADER_SIZE).length > 1) {
+    throw new Error('The schema does not fit on the first page.');
+  }
+  const first = pages.page(1);
+  writePage(first, FILE_HEADER_SIZE, LEAF_TABLE_PAGE, schemaCells);
+
+  const header = new DataView(first.buffer, first.byteOffset);
+  first.set(encoder.encode('SQLite format 3\0'));
+  header.setUint16(16, PAGE_SIZE);
+  header.setUint8(18, 1); // Legacy (rollback journal) write version.
+  header.setUint8(19, 1);
+  header.setUint8(21, 64); // Payload fractions, fixed by the format.
+  header.setUint8(22, 32);
+  header.setUint8(23, 32);
+  header.setUint32(24, 1); // File change counter.
+  header.setUint32(28, pages.pages.length);
+  header.setUint32(40, 1); // Schema cookie.
+  header.setUint32(44, 4); // Schema format.
+  header.setUint32(56, 1); // UTF-8.
+  header.setUint32(92, 1); // Version-valid-for, equal to the change counter.
+  header.setUint32(96, SQLITE_VERSION_NUMBER);
+
+  const file = new Uint8Array(pages.pages.length * PAGE_SIZE);
+  pages.pages.forEach((page, index) => file.set(page, index * PAGE_SIZE));
+  return file;
+}
@@ -0,0 +1,86 @@
+/** Writes an uncompressed ("stored") zip archive, enough for formats that are zips of a few files. */
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date and time fields. */
+function dosDateTime(date: Date): { time: number; day: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function buildZip(entries: ZipEntry[], modified = new Date()): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const { time, day } = dosDateTime(modified);
+  const files = entries.map((entry) => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0);
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+
+  // Fields shared by the local header (from offset 4) and the central directory entry (from offset 6).
+  const writeCommon = (at: number, file: (typeof files)[number]) => {
+    view.setUint16(at, 20, true); // Version needed to extract.
+    view.setUint16(at + 2, 0x0800, true); // UTF-8 names.
+    view.setUint16(at + 4, 0, true); // Stored.
+    view.setUint16(at + 6, time, true);
+    view.setUint16(at + 8, day, true);
+    view.setUint32(at + 10, file.crc, true);
+    view.setUint32(at + 14, file.data.length, true);
+    view.setUint32(at + 18, file.data.length, true);
+    view.setUint16(at + 22, file.nameBytes.length, true);
+  };
+
+  let offset = 0;
+  const localOffsets = files.map((file) => {
+    const start = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    writeCommon(offset + 4, file);
+    archive.set(file.nameBytes, offset + 30);
+    archive.set(file.data, offset + 30 + file.nameBytes.length);
+    offset += 30 + file.nameBytes.length + file.data.length;
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // Version made by.
+    writeCommon(offset + 6, file);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    archive.set(file.nameBytes, offset + 46);
+    offset += 46 + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return archive.buffer;
+}
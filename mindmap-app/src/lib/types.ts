@@ -0,0 +1,291 @@
+export type Citation = {
+  title: string;
+  url: string;
+  snippet?: string;
+  source: string;
+};
+
+export type MindMapNode = {
+  id: string;
+  title: string;
+  summary: string;
+  parentIds: string[];
+  importance: number;
+  tags: string[];
+  citations: Citation[];
+  verified: boolean;
+  autoCorrected?: boolean;
+  /** AI corrections the user reviewed and turned down, most recent last. */
+  rejectedCorrections?: RejectedCorrection[];
+  /** Canvas position set by the user; unpositioned nodes are placed by the layout. */
+  position?: { x: number; y: number };
+  /** The branch below this node is folded away on the canvas. */
+  collapsed?: boolean;
+  /**
+   * Passages of the source notes this node was drawn from. An empty array
+   * means none of the model's quotes could be found in the source; absent
+   * means grounding doesn't apply (imported maps, the synthetic overview).
+   */
+  sourceSpans?: SourceSpan[];
+  /** Atomic claims of the summary as last checked against the citations. */
+  claims?: ClaimCheck[];
+  /** Derived from `claims`; `verified` is true only when this is `verified`. */
+  verificationStatus?: VerificationStatus;
+  /** Title and summary as last verified; the verification is stale once either changes. */
+  verifiedContent?: VerifiedContent;
+};
+
+export type VerifiedContent = Pick<MindMapNode, 'title' | 'summary'>;
+
+export type ClaimVerdict = 'supported' | 'contradicted' | 'not-found';
+
+/** One atomic claim of a node summary and what the citations say about it. */
+export type ClaimCheck = {
+  claim: string;
+  verdict: ClaimVerdict;
+  /** Excerpt of the citation the verdict rests on. */
+  evidence?: string;
+  citation?: Citation;
+};
+
+export type VerificationStatus = 'verified' | 'partial' | 'contradicted' | 'unverified';
+
+/**
+ * A located passage of the source. `page` is 1-based and only set for paged
+ * sources (PDF); `start`/`end` index into that page's extracted text, or
+ * into the whole text for single-page sources.
+ */
+export type SourceSpan = {
+  page?: number;
+  start: number;
+  end: number;
+  text: string;
+};
+
+/** Why the autocorrect model changed a claim, and the citation it relied on. */
+export type CorrectionRationale = {
+  claim: string;
+  explanation: string;
+  citation?: Citation;
+};
+
+/** A correction returned by `/api/autocorrect`, awaiting review before it touches the node. */
+export type AutoCorrectionProposal = {
+  summary: string;
+  tags: string[];
+  rationale: CorrectionRationale[];
+};
+
+export type AutoCorrectRequest = {
+  node: MindMapNode;
+};
+
+export type BatchAutoCorrectRequest = {
+  items: AutoCorrectRequest[];
+};
+
+/**
+ * Events streamed by `/api/autocorrect/batch` as newline-delimited JSON: one
+ * `result` or `failure` per requested node as each finishes, then `complete`.
+ */
+export type BatchAutoCorrectEvent =
+  | { type: 'result'; nodeId: string; proposal: AutoCorrectionProposal }
+  | { type: 'failure'; nodeId: string; error: string }
+  | { type: 'complete'; succeeded: number; failed: number };
+
+export type RejectedCorrection = {
+  summary: string;
+  tags: string[];
+  rejectedAt: string;
+};
+
+/**
+ * `hierarchy` edges mirror a child's `parentIds` (parent -> child);
+ * `cross-link` edges are any other relationship between two nodes.
+ */
+export type MindMapEdgeKind = 'hierarchy' | 'cross-link';
+
+export type MindMapEdge = {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  kind: MindMapEdgeKind;
+};
+
+export type MindMapPayload = {
+  nodes: MindMapNode[];
+  edges: MindMapEdge[];
+  generatedAt: string;
+  sourceSummary: string;
+  /** Layout used for nodes without a position; the last one chosen by re-layout. */
+  layout?: LayoutAlgorithm;
+};
+
+export type LayoutAlgorithm = 'tree-lr' | 'radial' | 'org-chart' | 'force';
+
+export type AiMindMapNode = {
+  id: string;
+  title: string;
+  summary: string;
+  parentIds?: string[];
+  importance?: number;
+  tags?: string[];
+  /** Verbatim excerpts of the source notes supporting the node. */
+  quotes?: string[];
+};
+
+export type AiMindMapEdge = {
+  source: string;
+  target: string;
+  label?: string;
+};
+
+export type AiMindMapGraph = {
+  sourceSummary: string;
+  nodes: AiMindMapNode[];
+  edges: AiMindMapEdge[];
+};
+
+/** A mind map as kept in the library, with the metadata shown in the sidebar. */
+export type SavedMindMap = {
+  id: string;
+  name: string;
+  sourceFileName?: string;
+  createdAt: string;
+  updatedAt: string;
+  payload: MindMapPayload;
+  /** Flashcard reviews of this map; kept beside the payload so undo never touches them. */
+  study?: StudyProgress;
+};
+
+export type SavedMindMapSummary = Omit<SavedMindMap, 'payload' | 'study'> & {
+  generatedAt: string;
+  nodeCount: number;
+};
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** SM-2 state of one flashcard. */
+export type CardSchedule = {
+  /** Easiness factor; never below 1.3. */
+  easiness: number;
+  /** SM-2 interval in days, before the importance weighting is applied. */
+  interval: number;
+  /** Successful reviews in a row; a lapse resets it. */
+  repetitions: number;
+  lapses: number;
+  due: string;
+  lastReviewedAt: string;
+};
+
+export type ReviewLogEntry = {
+  cardId: string;
+  nodeId: string;
+  grade: ReviewGrade;
+  reviewedAt: string;
+  /** Days until the card was scheduled again. */
+  scheduledDays: number;
+};
+
+/** Spaced-repetition and quiz progress of one map. Schedules are keyed by flashcard id. */
+export type StudyProgress = {
+  schedules: Record<string, CardSchedule>;
+  /** Oldest first. */
+  log: ReviewLogEntry[];
+  /** Scored quizzes, oldest first; absent in maps saved before quizzes existed. */
+  quizAttempts?: QuizAttempt[];
+};
+
+export type QuizQuestionKind = 'mcq' | 'vignette';
+
+export type QuizQuestion = {
+  id: string;
+  kind: QuizQuestionKind;
+  /** Node the question tests; the explanation points back to it. */
+  nodeId: string;
+  /** Short clinical case the question is about; vignettes only. */
+  vignette?: string;
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string;
+  /** Citation of the tested node that the answer rests on, if any. */
+  citation?: Citation;
+};
+
+/** Sent to `/api/quiz`: a branch of the map, its root first. */
+export type QuizRequest = {
+  nodes: Array<Pick<MindMapNode, 'id' | 'title' | 'summary' | 'citations'>>;
+};
+
+export type Quiz = {
+  /** Node whose branch the quiz covers. */
+  rootId: string;
+  questions: QuizQuestion[];
+  generatedAt: string;
+};
+
+export type QuizAttempt = {
+  rootId: string;
+  completedAt: string;
+  answers: Array<{ questionId: string; nodeId: string; correct: boolean }>;
+};
+
+/** A single problem found while validating AI output, located by JSON path. */
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Events streamed by `/api/generate` as newline-delimited JSON, in order:
+ * `extracted` once the source text is read, one `chunk-drafted` per source
+ * chunk, `draft` with the merged unverified graph, one `node-verified` per
+ * node, then `complete` (or `error` at any point). Nodes are verified
+ * concurrently, so `node-verified` arrives in completion order and its
+ * `index` counts finished nodes rather than the node's position.
+ */
+export type GenerationEvent =
+  | { type: 'extracted'; pageCount: number; characterCount: number; chunkCount: number }
+  | { type: 'chunk-drafted'; index: number; total: number }
+  | { type: 'draft'; payload: MindMapPayload }
+  | {
+      type: 'node-verified';
+      nodeId: string;
+      citations: Citation[];
+      claims: ClaimCheck[];
+      status: VerificationStatus;
+      verified: boolean;
+      index: number;
+      total: number;
+    }
+  | { type: 'complete'; generatedAt: string }
+  | { type: 'error'; error: string; issues?: ValidationIssue[] };
+
+/** Sent to `/api/expand`: the node to drill into and the context the model needs. */
+export type ExpandNodeRequest = {
+  node: Pick<MindMapNode, 'id' | 'title' | 'summary' | 'importance' | 'tags'>;
+  /** Root first, ending with the node's parent. */
+  ancestors: Array<Pick<MindMapNode, 'title' | 'summary'>>;
+  /** Titles of the node's current children, so the model adds concepts rather than repeating them. */
+  existingChildren: string[];
+  /** Passages of the source notes the node was drawn from. */
+  passages: string[];
+};
+
+/**
+ * Nodes returned by `/api/expand`. Nodes without `parentIds` go directly
+ * under the expanded node; edges only reference the new nodes.
+ */
+export type NodeExpansion = {
+  nodes: MindMapNode[];
+  edges: AiMindMapEdge[];
+};
+
+export type VerifyRequest = {
+  nodes: Array<Pick<MindMapNode, 'id' | 'title' | 'summary'>>;
+};
+
+/** Events streamed by `/api/verify`; the same shapes as the verification phase of generation. */
+export type VerificationEvent = Extract<GenerationEvent, { type: 'node-verified' | 'complete' | 'error' }>;
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchScore, queryTerms } from './citations/match';
+import { citationQueries } from './verification';
+
+describe('citationQueries', () => {
+  it('searches the title, then the title with each claim\'s key terms', () => {
+    assert.deepEqual(
+      citationQueries({
+        title: 'Heart failure',
+        summary:
+          'Heart failure is diagnosed with natriuretic peptides and echocardiography. SGLT2 inhibitors reduce hospitalisation; loop diuretics relieve congestion.',
+      }),
+      [
+        'Heart failure',
+        'Heart failure diagnosed natriuretic peptides echocardiography',
+        'Heart failure sglt2 inhibitors reduce hospitalisation',
+        'Heart failure loop diuretics relieve congestion',
+      ],
+    );
+  });
+
+  it('keeps non-Latin terms and skips sentences with nothing new', () => {
+    assert.deepEqual(
+      citationQueries({ title: 'Сердечная недостаточность', summary: 'Сердечная недостаточность. Лечение диуретиками.' }),
+      ['Сердечная недостаточность', 'Сердечная недостаточность лечение диуретиками'],
+    );
+  });
+
+  it('builds claim queries a guideline paragraph backing the claim matches', () => {
+    const [, claim] = citationQueries({
+      title: 'Heart failure',
+      summary: 'SGLT2 inhibitors reduce hospitalisation in heart failure.',
+    });
+    const paragraph =
+      'In patients with heart failure with reduced ejection fraction, SGLT2 inhibitors reduced hospitalisations and cardiovascular death.';
+    assert.notEqual(matchScore(queryTerms(claim), paragraph), null);
+  });
+
+  it('caps the number of claim lookups', () => {
+    const summary = Array.from({ length: 10 }, (_, index) => `Fact number${index}.`).join(' ');
+    assert.equal(citationQueries({ title: 'Topic', summary }).length, 5);
+  });
+});
@@ -0,0 +1,168 @@
+import { searchCitations } from './citations';
+import { deriveVerificationStatus } from './claims';
+import { mapWithConcurrency } from './concurrency';
+import { claimCheckValidator, completeStructured, type LlmProvider } from './llm';
+import type { Citation, ClaimCheck, MindMapNode, VerificationStatus } from './types';
+
+export type NodeVerification = {
+  citations: Citation[];
+  claims: ClaimCheck[];
+  status: VerificationStatus;
+  verified: boolean;
+};
+
+/** Claims searched for on their own, beyond the title; the rest rely on what those lookups find. */
+const MAX_CLAIM_QUERIES = 4;
+const MAX_CLAIM_TERMS = 6;
+
+const QUERY_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'may', 'of', 'on', 'or', 'such', 'than', 'that', 'the', 'their', 'these', 'this', 'to', 'was', 'were',
+  'which', 'with', 'within',
+]);
+
+function queryWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}\p{M}'’-]*/gu) ?? [];
+}
+
+/**
+ * Citation lookups for a node: its title, then one per sentence of the
+ * summary made of the title and that sentence's key terms, so each claim is
+ * checked against references that actually address it.
+ */
+export function citationQueries(node: Pick<MindMapNode, 'title' | 'summary'>): string[] {
+  const title = node.title.trim();
+  const titleWords = new Set(queryWords(title));
+  const queries = [title];
+
+  node.summary
+    .split(/(?<=[.!?;])\s+|\n+/)
+    .map((sentence) =>
+      [...new Set(queryWords(sentence))]
+        .filter((word) => !titleWords.has(word) && !QUERY_STOP_WORDS.has(word) && word.length > 1)
+        .slice(0, MAX_CLAIM_TERMS),
+    )
+    .filter((terms) => terms.length > 0)
+    .slice(0, MAX_CLAIM_QUERIES)
+    .forEach((terms) => {
+      const query = `${title} ${terms.join(' ')}`;
+      if (!queries.includes(query)) queries.push(query);
+    });
+
+  return queries;
+}
+
+/**
+ * Splits a node summary into atomic claims and asks the model to judge each
+ * one against the citation excerpts only, so a verdict never rests on the
+ * model's own recall.
+ */
+async function checkClaims(
+  node: Pick<MindMapNode, 'title' | 'summary'>,
+  citations: Citation[],
+  llm: LlmProvider,
+): Promise<ClaimCheck[]> {
+  const citationsText = citations
+    .map((citation, index) => `${index + 1}. ${citation.title} (${citation.source})\nExcerpt: ${citation.snippet ?? 'N/A'}`)
+    .join('\n\n');
+
+  const prompt = `You are a meticulous medical fact-checker. Split the node summary into atomic factual claims, one fact each (a definition, a value or threshold, a dose, a cause or effect). Judge every claim against the numbered reference excerpts only, not against your own knowledge:
+- "supported": an excerpt states the same fact.
+- "contradicted": an excerpt states something incompatible with it (a different value, dose, threshold or direction of effect).
+- "not-found": no excerpt addresses it.
+
+For "supported" and "contradicted", give the number of the excerpt you relied on and quote the relevant words of that excerpt verbatim as evidence. For "not-found", use null for both.
+
+Node:
+Title: ${node.title}
+Summary: ${node.summary}
+
+References:
+${citationsText}
+
+Respond with JSON:
+{
+  "claims": Array<{
+    "claim": string,
+    "verdict": "supported" | "contradicted" | "not-found",
+    "citation": number | null,
+    "evidence": string | null
+  }>
+}`;
+
+  const parsed = await completeStructured(
+    llm,
+    { feature: 'verification', input: prompt },
+    claimCheckValidator(citations.length),
+  );
+
+  return parsed.map((entry) => ({
+    claim: entry.claim,
+    verdict: entry.verdict,
+    ...(entry.evidence ? { evidence: entry.evidence } : {}),
+    ...(entry.citation !== null ? { citation: citations[entry.citation - 1] } : {}),
+  }));
+}
+
+/**
+ * Looks up reference material for the concept and each of its claims (see
+ * {@link citationQueries}) through the citation provider registry (see
+ * `lib/citations`) and checks the summary claim by claim against it. A
+ * failed claim check leaves the node `unverified` rather than failing the
+ * whole run.
+ */
+export async function verifyNode(
+  node: Pick<MindMapNode, 'title' | 'summary'>,
+  llm: LlmProvider,
+): Promise<NodeVerification> {
+  const results = await Promise.all(citationQueries(node).map((query) => searchCitations(query)));
+  const citations = results
+    .flat()
+    .filter((citation, index, all) => all.findIndex((other) => other.url === citation.url) === index);
+
+  let claims: ClaimCheck[] = [];
+  if (citations.length > 0 && node.summary.trim()) {
+    try {
+      claims = await checkClaims(node, citations, llm);
+    } catch (error) {
+      console.error(`Claim check failed for "${node.title}"`, error);
+    }
+  }
+
+  const status = deriveVerificationStatus(claims);
+  return { citations, claims, status, verified: status === 'verified' };
+}
+
+const DEFAULT_CONCURRENCY = 6;
+
+/** Nodes verified at once, from `VERIFICATION_CONCURRENCY`. */
+export function getVerificationConcurrency(): number {
+  const configured = Number(process.env.VERIFICATION_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Verifies `nodes` with bounded concurrency, calling `onVerified` as each one
+ * finishes (so not in input order) with how many have finished so far.
+ * Outbound lookups are rate limited per host and cached in `lib/citations`,
+ * so raising the concurrency speeds up large maps without hammering any one
+ * service. Aborting `signal` stops verifying further nodes.
+ */
+export async function verifyNodes<T extends Pick<MindMapNode, 'id' | 'title' | 'summary'>>(
+  nodes: T[],
+  llm: LlmProvider,
+  onVerified: (node: T, verification: NodeVerification, completed: number) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  let completed = 0;
+  await mapWithConcurrency(
+    nodes,
+    getVerificationConcurrency(),
+    async (node) => {
+      const verification = await verifyNode(node, llm);
+      completed += 1;
+      onVerified(node, verification, completed);
+    },
+    signal,
+  );
+}